@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { BUILT_IN_ACTION_NAMES, type SiteMemoryEntry, siteMemoryStore } from '@extension/storage';
+import { ActionBuilder } from '../builder';
+import type { AgentContext } from '../../types';
+
+const createContext = (url: string) =>
+  ({
+    browserContext: { getCurrentPage: async () => ({ url: () => url }) },
+    emitEvent: vi.fn(),
+  }) as unknown as AgentContext;
+
+describe('ActionBuilder', () => {
+  it('builds the built-in actions the options page lists, and done', () => {
+    const actions = new ActionBuilder({} as AgentContext, {} as BaseChatModel).buildDefaultActions();
+
+    expect(actions.map(action => action.name())).toEqual(['done', ...BUILT_IN_ACTION_NAMES]);
+  });
+});
+
+describe('remember action', () => {
+  const page = 'https://www.contoso.sharepoint.com/sites/clinic';
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const remember = async (domain: string, url = page) => {
+    const addEntry = vi
+      .spyOn(siteMemoryStore, 'addEntry')
+      .mockImplementation(
+        async (entryDomain, content, source) => ({ domain: entryDomain, content, source }) as SiteMemoryEntry,
+      );
+    const action = new ActionBuilder(createContext(url), {} as BaseChatModel)
+      .buildDefaultActions()
+      .find(item => item.name() === 'remember')!;
+    const result = await action.call({ content: 'Patient folders are under Documents', domain });
+    return { addEntry, result };
+  };
+
+  it.each([
+    ['', 'contoso.sharepoint.com'],
+    ['contoso.sharepoint.com', 'contoso.sharepoint.com'],
+    ['https://contoso.sharepoint.com/other', 'contoso.sharepoint.com'],
+  ])('saves facts for the domain "%s" of the current page as %s', async (domain, saved) => {
+    const { addEntry, result } = await remember(domain);
+
+    expect(result.error).toBeFalsy();
+    expect(addEntry).toHaveBeenCalledWith(saved, 'Patient folders are under Documents', 'agent');
+  });
+
+  it.each([
+    ['sharepoint.com', page],
+    ['co.uk', 'https://foo.co.uk/contact'],
+    ['github.io', 'https://contoso.github.io/docs'],
+    ['com', page],
+    ['example.com', page],
+    ['evil-sharepoint.com', page],
+    ['clinic.contoso.sharepoint.com', page],
+  ])('refuses facts for the domain "%s" on %s', async (domain, url) => {
+    const { addEntry, result } = await remember(domain, url);
+
+    expect(result.error).toBeTruthy();
+    expect(addEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { type ChecklistTemplate, type ChecklistTemplateItem, compileChecklistPattern } from '@extension/storage';
+import { matchChecklistItem, matchChecklistTemplate } from '../checklist';
+
+const item = (overrides: Partial<ChecklistTemplateItem>): ChecklistTemplateItem => ({
+  name: '',
+  aliases: [],
+  patterns: [],
+  required: true,
+  fileTypes: [],
+  ...overrides,
+});
+
+describe('matchChecklistItem', () => {
+  const files = ['Patient_01_Informed-Consent_v2.pdf', 'ICF signed.docx', 'CVS receipt.pdf', 'Lab Results 2024.xlsx'];
+
+  it('matches names and aliases as whole words ignoring case and separators', () => {
+    expect(matchChecklistItem(item({ name: 'informed consent' }), files)).toBe('Patient_01_Informed-Consent_v2.pdf');
+    expect(matchChecklistItem(item({ name: 'Consent form', aliases: ['ICF'] }), files)).toBe('ICF signed.docx');
+    expect(matchChecklistItem(item({ name: 'CV' }), files)).toBeUndefined();
+  });
+
+  it('restricts matches to the expected file types', () => {
+    expect(matchChecklistItem(item({ name: 'ICF', fileTypes: ['pdf'] }), files)).toBeUndefined();
+    expect(matchChecklistItem(item({ name: 'lab results', fileTypes: ['xlsx', 'csv'] }), files)).toBe(
+      'Lab Results 2024.xlsx',
+    );
+  });
+
+  it('supports glob and regular expression patterns', () => {
+    expect(matchChecklistItem(item({ name: 'Consent', patterns: ['*consent*.pdf'] }), files)).toBe(
+      'Patient_01_Informed-Consent_v2.pdf',
+    );
+    expect(matchChecklistItem(item({ name: 'Labs', patterns: ['/results \\d{4}/'] }), files)).toBe(
+      'Lab Results 2024.xlsx',
+    );
+    expect(matchChecklistItem(item({ name: 'Invoice', patterns: ['receipt.pdf'] }), files)).toBeUndefined();
+  });
+});
+
+describe('compileChecklistPattern', () => {
+  it('drops the flags that make a pattern stateful', () => {
+    const pattern = compileChecklistPattern('/consent/gy');
+
+    expect(pattern.flags).toBe('i');
+    expect(pattern.test('Consent.pdf')).toBe(true);
+    expect(pattern.test('consent-v2.pdf')).toBe(true);
+  });
+});
+
+describe('matchChecklistTemplate', () => {
+  it('reports the matched file for every item', () => {
+    const template: ChecklistTemplate = {
+      id: 'template',
+      name: 'Patient file',
+      description: '',
+      items: [item({ name: 'ICF' }), item({ name: 'Medical history', required: false })],
+      createdAt: 0,
+      updatedAt: 0,
+    };
+    expect(matchChecklistTemplate(template, ['icf.pdf'])).toEqual({ ICF: 'icf.pdf', 'Medical history': undefined });
+  });
+});
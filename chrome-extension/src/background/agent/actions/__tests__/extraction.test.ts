@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { mergeExtractions, parseExtractionOutput, splitMarkdown } from '../extraction';
+
+describe('splitMarkdown', () => {
+  it('splits at line boundaries and cuts lines that are too long', () => {
+    const markdown = ['| a | 1 |', '| b | 2 |', '| c | 3 |', 'x'.repeat(25)].join('\n');
+
+    expect(splitMarkdown(markdown, 20)).toEqual(['| a | 1 |\n| b | 2 |', '| c | 3 |', 'x'.repeat(20), 'x'.repeat(5)]);
+    expect(splitMarkdown('', 20)).toEqual([]);
+  });
+});
+
+describe('mergeExtractions', () => {
+  it('concatenates lists and fills the missing fields of objects from later parts', () => {
+    expect(mergeExtractions([[{ id: 1 }], null, [{ id: 2 }]])).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(
+      mergeExtractions([
+        { patient: 'Jane Doe', dob: null, documents: ['ICF.pdf'] },
+        { patient: 'J. Doe', dob: '1980-01-01', documents: ['Labs.pdf'] },
+      ]),
+    ).toEqual({ patient: 'Jane Doe', dob: '1980-01-01', documents: ['ICF.pdf', 'Labs.pdf'] });
+  });
+});
+
+describe('parseExtractionOutput', () => {
+  it('reads JSON in code fences and repairs small syntax errors', () => {
+    expect(parseExtractionOutput('```json\n{"status": "found"}\n```')).toEqual({ status: 'found' });
+    expect(parseExtractionOutput("[{'status': 'missing',}]")).toEqual([{ status: 'missing' }]);
+  });
+});
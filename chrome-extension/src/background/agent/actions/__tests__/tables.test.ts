@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { FrameTableSummary } from '@src/background/browser/dom/service';
+import { describeTables, formatTable, normalizeTableColumns, pickLargestTable, tableToCsv } from '../tables';
+
+const summary = (overrides: Partial<FrameTableSummary>): FrameTableSummary => ({
+  index: 0,
+  kind: 'table',
+  label: '',
+  columns: [],
+  rowCount: 0,
+  expectedRowCount: null,
+  frameId: 0,
+  frameUrl: 'https://example.com',
+  ...overrides,
+});
+
+describe('normalizeTableColumns', () => {
+  it('names columns without a header or with a repeated header', () => {
+    expect(normalizeTableColumns(['Name', '', 'Name'], [['a', 'b', 'c', 'd']])).toEqual([
+      'Name',
+      'Column 2',
+      'Column 3',
+      'Column 4',
+    ]);
+  });
+});
+
+describe('tableToCsv', () => {
+  it('quotes cells with commas, quotes and line breaks and fills short rows', () => {
+    expect(tableToCsv(['Name', 'Note'], [['ICF, signed', 'say "hi"'], ['Labs']])).toBe(
+      'Name,Note\n"ICF, signed","say ""hi"""\nLabs,',
+    );
+  });
+});
+
+describe('formatTable', () => {
+  it('cuts long tables at a row boundary', () => {
+    const rows = Array.from({ length: 50 }, (_, i) => [`row ${i}`]);
+    const { content, rowCount } = formatTable(['Name'], rows, 'csv', 100);
+
+    expect(content.length).toBeLessThanOrEqual(100);
+    expect(content.split('\n')).toHaveLength(rowCount + 1);
+    expect(formatTable(['Name'], rows.slice(0, 1), 'json')).toEqual({
+      content: JSON.stringify([{ Name: 'row 0' }], null, 2),
+      rowCount: 1,
+    });
+  });
+});
+
+describe('pickLargestTable and describeTables', () => {
+  it('prefers the grid with the most rows, counting rows that are not loaded yet', () => {
+    const tables = [
+      summary({ label: 'Layout', rowCount: 12 }),
+      summary({
+        kind: 'grid',
+        label: 'Documents',
+        columns: ['Name', 'Modified'],
+        rowCount: 8,
+        expectedRowCount: 40,
+        frameId: 3,
+        frameUrl: 'https://example.sharepoint.com/list',
+      }),
+    ];
+
+    expect(pickLargestTable(tables)?.label).toBe('Documents');
+    expect(pickLargestTable([])).toBeNull();
+    expect(describeTables(tables)).toBe(
+      '[0] table "Layout": 12 rows\n' +
+        '[1] grid "Documents": 8 of 40 rows loaded, columns: Name, Modified, in frame https://example.sharepoint.com/list',
+    );
+  });
+});
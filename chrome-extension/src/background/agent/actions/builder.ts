@@ -1,9 +1,23 @@
 import { ActionResult, type AgentContext } from '@src/background/agent/types';
 import { t } from '@extension/i18n';
+import {
+  type ChecklistTemplate,
+  ReportItemStatus,
+  attachmentStore,
+  normalizeSiteMemoryDomain,
+  siteMemoryStore,
+} from '@extension/storage';
+import { parseJsonSchema, validateJsonText, validateJsonValue } from '@extension/schema-utils';
 import {
   clickElementActionSchema,
   doubleClickElementActionSchema,
   doneActionSchema,
+  extractStructuredActionSchema,
+  extractTableActionSchema,
+  downloadFileActionSchema,
+  waitForDownloadActionSchema,
+  listDownloadsActionSchema,
+  uploadFileActionSchema,
   goBackActionSchema,
   goToUrlActionSchema,
   inputTextActionSchema,
@@ -21,6 +35,7 @@ import {
   smartScrollSearchActionSchema,
   scrollToTextActionSchema,
   cacheContentActionSchema,
+  rememberActionSchema,
   selectDropdownOptionActionSchema,
   getDropdownOptionsActionSchema,
   closeTabActionSchema,
@@ -47,9 +62,30 @@ import { z } from 'zod';
 import { createLogger } from '@src/background/log';
 import { ExecutionState, Actors } from '../event/types';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import { HumanMessage } from '@langchain/core/messages';
+import { type BaseMessage, HumanMessage } from '@langchain/core/messages';
 import { wrapUntrustedContent } from '../messages/utils';
+import { describeChecklistTemplates, matchChecklistTemplate } from './checklist';
+import {
+  MAX_EXTRACTION_CHUNKS,
+  buildExtractionMessages,
+  buildRepairMessages,
+  mergeExtractions,
+  parseExtractionOutput,
+  splitMarkdown,
+} from './extraction';
+import { MAX_TABLE_ROWS, describeTables, formatTable, normalizeTableColumns, pickLargestTable } from './tables';
 import { DynamicStateManager } from '@src/background/browser/dynamic-state-manager';
+import type { UploadFile } from '@src/background/browser/views';
+import {
+  type DownloadRecord,
+  describeDownload,
+  formatBytes,
+  getDownloads,
+  isDownloadSaved,
+  listDownloads,
+  waitForDownload,
+  waitForNewDownloads,
+} from '@src/background/browser/downloads';
 
 const logger = createLogger('Action');
 
@@ -165,6 +201,7 @@ export function buildDynamicActionSchema(actions: Action[]): z.ZodType {
 export class ActionBuilder {
   private readonly context: AgentContext;
   private readonly extractorLLM: BaseChatModel;
+  private readonly checklistTemplates: ChecklistTemplate[];
   private dynamicStateManager?: DynamicStateManager;
 
   // Performance monitoring helper
@@ -203,6 +240,84 @@ export class ActionBuilder {
     return matrix[str2.length][str1.length];
   }
 
+  /**
+   * Invoke the extractor model, recording the tokens the provider reports
+   * @returns The text of the answer
+   */
+  private async invokeExtractor(messages: BaseMessage[]): Promise<string> {
+    const model = this.extractorLLM;
+    const response = await model.invoke(messages, { signal: this.context.controller.signal });
+    if (response.usage_metadata) {
+      const modelName = 'modelName' in model ? String(model.modelName) : 'model' in model ? String(model.model) : '';
+      this.context.recordTokenUsage(
+        'extractor',
+        modelName || 'Unknown',
+        response.usage_metadata.input_tokens,
+        response.usage_metadata.output_tokens,
+      );
+    }
+    if (typeof response.content === 'string') {
+      return response.content;
+    }
+    return response.content.map(part => ('text' in part && typeof part.text === 'string' ? part.text : '')).join('');
+  }
+
+  /**
+   * Report downloads that ended with their file on disk, or fail with the ones that did not
+   * @param records The downloads checked by the action
+   */
+  private downloadResult(records: DownloadRecord[]): ActionResult {
+    // Only files the task downloaded itself can be uploaded later
+    for (const record of records) {
+      if (!this.context.downloadIds.includes(record.id)) {
+        this.context.downloadIds.push(record.id);
+      }
+    }
+    const lines = records.map(describeDownload).join('\n');
+    if (records.every(isDownloadSaved)) {
+      const msg = t('act_download_ok', [lines]);
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true, downloads: records });
+    }
+    const errorMsg = t('act_download_failed', [lines]);
+    this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+    return new ActionResult({ error: errorMsg, includeInMemory: true, downloads: records });
+  }
+
+  /**
+   * Find files to upload by name, among the files attached by the user and then the files downloaded by the task.
+   * Other downloads are left out, a page could otherwise get the agent to upload any file the user downloaded
+   * @param names File names, case is ignored
+   * @throws Error naming the available files when a file is not found
+   */
+  private async resolveUploadFiles(names: string[]): Promise<UploadFile[]> {
+    const downloads = (await getDownloads(this.context.downloadIds)).filter(isDownloadSaved);
+    const files: UploadFile[] = [];
+    for (const name of names) {
+      const attachment = await attachmentStore.getAttachmentByName(name);
+      if (attachment) {
+        files.push({ name: attachment.name, mime: attachment.mime, data: attachment.data });
+        continue;
+      }
+      const download = downloads.find(record => record.filename.toLowerCase() === name.trim().toLowerCase());
+      if (download) {
+        files.push({ name: download.filename, mime: download.mime, path: download.path });
+        continue;
+      }
+      const available = [
+        ...(await attachmentStore.getAttachments()).map(info => info.name),
+        ...downloads.map(record => record.filename),
+      ];
+      throw new Error(
+        t('act_uploadFile_notFound', [
+          name,
+          available.length > 0 ? [...new Set(available)].join(', ') : t('act_uploadFile_noneAvailable'),
+        ]),
+      );
+    }
+    return files;
+  }
+
   // Helper method for visual analysis using LLM
   private async analyzeScreenshot(screenshot: string, prompt: string): Promise<any> {
     try {
@@ -230,14 +345,43 @@ export class ActionBuilder {
     }
   }
 
-  constructor(context: AgentContext, extractorLLM: BaseChatModel) {
+  constructor(context: AgentContext, extractorLLM: BaseChatModel, checklistTemplates: ChecklistTemplate[] = []) {
     this.context = context;
     this.extractorLLM = extractorLLM;
+    this.checklistTemplates = checklistTemplates;
 
     // Initialize DynamicStateManager for the current tab
     this.initializeDynamicStateManager();
   }
 
+  /**
+   * Resolve the documents a checklist action should look for, from a saved template or a raw list
+   * @throws Error if the template does not exist or no documents were given
+   */
+  private resolveChecklist(templateId?: string, requiredDocuments?: string[]) {
+    if (templateId) {
+      const template = this.checklistTemplates.find(item => item.id === templateId);
+      if (!template) {
+        throw new Error(`Unknown checklist template "${templateId}"`);
+      }
+      return {
+        template,
+        requiredDocuments: template.items.map(item => item.name),
+        optionalDocuments: new Set(template.items.filter(item => !item.required).map(item => item.name)),
+      };
+    }
+    if (!requiredDocuments || requiredDocuments.length === 0) {
+      throw new Error('Either templateId or requiredDocuments must be provided');
+    }
+    return { template: null, requiredDocuments, optionalDocuments: new Set<string>() };
+  }
+
+  // Append the saved checklist templates to the description of an action that accepts a templateId
+  private withChecklistTemplates(schema: ActionSchema): ActionSchema {
+    const hint = describeChecklistTemplates(this.checklistTemplates);
+    return hint ? { ...schema, description: `${schema.description} ${hint}` } : schema;
+  }
+
   private async initializeDynamicStateManager(): Promise<void> {
     try {
       const currentPage = await this.context.browserContext.getCurrentPage();
@@ -263,10 +407,22 @@ export class ActionBuilder {
 
     const done = new Action(async (input: z.infer<typeof doneActionSchema.schema>) => {
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, doneActionSchema.name);
-      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, input.text);
+      let text = input.text;
+      // A task with an answer schema is only done with a text that matches it
+      const answerSchema = this.context.options.answerSchema;
+      if (answerSchema && !this.context.options.dryRun) {
+        const result = validateJsonText(answerSchema, text);
+        if (!result.success) {
+          const errorMsg = `The done text does not match the answer schema: ${result.errors.join('; ')}`;
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+          return new ActionResult({ error: errorMsg, includeInMemory: true });
+        }
+        text = JSON.stringify(result.data);
+      }
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, text);
       return new ActionResult({
         isDone: true,
-        extractedContent: input.text,
+        extractedContent: text,
       });
     }, doneActionSchema);
     actions.push(done);
@@ -489,6 +645,10 @@ export class ActionBuilder {
         this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
 
         try {
+          const { template, requiredDocuments, optionalDocuments } = this.resolveChecklist(
+            input.templateId,
+            input.requiredDocuments,
+          );
           const page = await this.context.browserContext.getCurrentPage();
 
           // Extract current page content efficiently - SharePoint specific
@@ -528,22 +688,31 @@ export class ActionBuilder {
 
           const foundFiles = Array.isArray(pageContent) ? pageContent : [];
           const documentStatus: { [key: string]: 'FOUND' | 'MISSING' } = {};
+          const matchedFiles: { [key: string]: string } = {};
           const foundAlternatives: { [key: string]: string[] } = {};
+          const templateMatches = template ? matchChecklistTemplate(template, foundFiles) : null;
 
           // Check each required document with precise matching
-          for (const requiredDoc of input.requiredDocuments) {
+          for (const requiredDoc of requiredDocuments) {
             let found = false;
 
-            if (input.exactMatchOnly) {
+            if (templateMatches) {
+              const match = templateMatches[requiredDoc];
+              if (match) {
+                documentStatus[requiredDoc] = 'FOUND';
+                matchedFiles[requiredDoc] = match;
+                found = true;
+              }
+            } else if (input.exactMatchOnly) {
               // Exact match only for SharePoint precision
-              if (
-                foundFiles.some(
-                  file =>
-                    file.toLowerCase() === requiredDoc.toLowerCase() ||
-                    file.toLowerCase().includes(requiredDoc.toLowerCase()),
-                )
-              ) {
+              const match = foundFiles.find(
+                file =>
+                  file.toLowerCase() === requiredDoc.toLowerCase() ||
+                  file.toLowerCase().includes(requiredDoc.toLowerCase()),
+              );
+              if (match) {
                 documentStatus[requiredDoc] = 'FOUND';
+                matchedFiles[requiredDoc] = match;
                 found = true;
               }
             } else {
@@ -554,6 +723,7 @@ export class ActionBuilder {
                 const fileLower = file.toLowerCase();
                 if (fileLower.includes(requiredLower) || requiredLower.includes(fileLower)) {
                   documentStatus[requiredDoc] = 'FOUND';
+                  matchedFiles[requiredDoc] = file;
                   found = true;
                   break;
                 }
@@ -570,8 +740,9 @@ export class ActionBuilder {
           }
 
           // Generate formatted table
-          const totalFound = Object.values(documentStatus).filter(status => status === 'FOUND').length;
-          const totalMissing = Object.values(documentStatus).filter(status => status === 'MISSING').length;
+          const mandatoryDocuments = requiredDocuments.filter(doc => !optionalDocuments.has(doc));
+          const totalFound = mandatoryDocuments.filter(doc => documentStatus[doc] === 'FOUND').length;
+          const totalMissing = mandatoryDocuments.length - totalFound;
 
           const tableOutput = `<table style="width: 100%; border-collapse: collapse; border: 3px solid #000; margin: 20px 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
 <thead>
@@ -581,15 +752,15 @@ export class ActionBuilder {
 </tr>
 </thead>
 <tbody>
-${input.requiredDocuments
+${requiredDocuments
   .map((doc: string, index: number) => {
     const status = documentStatus[doc];
-    const statusEmoji = status === 'FOUND' ? '✅' : '❌';
+    const statusEmoji = status === 'FOUND' ? '✅' : optionalDocuments.has(doc) ? '➖' : '❌';
     const bgColor = '#ffffff';
     const statusBgColor = '#ffffff';
 
     return `<tr style="background-color: ${bgColor};">
-<td style="border: 2px solid #000; padding: 12px; color: #000; font-weight: 500;">${doc}</td>
+<td style="border: 2px solid #000; padding: 12px; color: #000; font-weight: 500;">${doc}${optionalDocuments.has(doc) ? ' (optional)' : ''}</td>
 <td style="border: 2px solid #000; padding: 12px; text-align: center; background-color: ${statusBgColor}; color: #000; font-weight: bold;">${statusEmoji}</td>
 </tr>`;
   })
@@ -598,10 +769,22 @@ ${input.requiredDocuments
 </table>
 
 <div style="margin: 20px 0; padding: 15px; border: 2px solid #000; border-radius: 5px; background: #f0f0f0;">
-<strong style="color: #000;">Summary:</strong> ${totalFound}/${input.requiredDocuments.length} documents found (${Math.round((totalFound / input.requiredDocuments.length) * 100)}% complete)
+<strong style="color: #000;">Summary:</strong> ${totalFound}/${mandatoryDocuments.length} required documents found (${Math.round((totalFound / mandatoryDocuments.length) * 100)}% complete)
 </div>`;
 
-          const msg = `Document scan completed for ${input.directoryContext}: ${totalFound}/${input.requiredDocuments.length} documents found`;
+          this.context.addReportSection(
+            input.directoryContext,
+            'sharepoint_document_scan',
+            requiredDocuments.map((doc: string) => ({
+              name: doc,
+              status: documentStatus[doc] === 'FOUND' ? ReportItemStatus.FOUND : ReportItemStatus.MISSING,
+              optional: optionalDocuments.has(doc) || undefined,
+              evidence: matchedFiles[doc],
+            })),
+            page.url(),
+          );
+
+          const msg = `Document scan completed for ${input.directoryContext}: ${totalFound}/${mandatoryDocuments.length} required documents found`;
           this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
 
           return new ActionResult({
@@ -614,7 +797,7 @@ ${input.requiredDocuments
           return new ActionResult({ error: errorMsg, includeInMemory: true });
         }
       },
-      sharepointDocumentScanActionSchema,
+      this.withChecklistTemplates(sharepointDocumentScanActionSchema),
     );
     actions.push(sharepointDocumentScan);
 
@@ -626,6 +809,10 @@ ${input.requiredDocuments
         this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
 
         try {
+          const { template, requiredDocuments, optionalDocuments } = this.resolveChecklist(
+            input.templateId,
+            input.requiredDocuments,
+          );
           const page = await this.context.browserContext.getCurrentPage();
 
           // SCREEN-ONLY Analysis - No navigation or search
@@ -666,13 +853,22 @@ ${input.requiredDocuments
 
           const foundFiles = Array.isArray(pageContent) ? pageContent : [];
           const documentStatus: { [key: string]: 'FOUND' | 'MISSING' } = {};
+          const matchedFiles: { [key: string]: string } = {};
           const foundAlternatives: { [key: string]: string[] } = {};
+          const templateMatches = template ? matchChecklistTemplate(template, foundFiles) : null;
 
           // Analyze each required document with precise SharePoint matching
-          for (const requiredDoc of input.requiredDocuments) {
+          for (const requiredDoc of requiredDocuments) {
             let found = false;
 
-            if (input.screenAnalysisOnly) {
+            if (templateMatches) {
+              const match = templateMatches[requiredDoc];
+              if (match) {
+                documentStatus[requiredDoc] = 'FOUND';
+                matchedFiles[requiredDoc] = match;
+                found = true;
+              }
+            } else if (input.screenAnalysisOnly) {
               // Exact and contains matching only - no complex fuzzy logic
               for (const file of foundFiles) {
                 const fileLower = file.toLowerCase();
@@ -684,6 +880,7 @@ ${input.requiredDocuments
                   requiredLower.includes(fileLower)
                 ) {
                   documentStatus[requiredDoc] = 'FOUND';
+                  matchedFiles[requiredDoc] = file;
                   found = true;
                   break;
                 }
@@ -695,10 +892,24 @@ ${input.requiredDocuments
             }
           }
 
+          this.context.addReportSection(
+            `${input.patientId} (${input.siteId})`,
+            'sharepoint_patient_check',
+            requiredDocuments.map((doc: string) => ({
+              name: doc,
+              status: documentStatus[doc] === 'FOUND' ? ReportItemStatus.FOUND : ReportItemStatus.MISSING,
+              optional: optionalDocuments.has(doc) || undefined,
+              subject: input.patientId,
+              evidence: matchedFiles[doc],
+            })),
+            page.url(),
+          );
+
           // Generate comprehensive report
-          const totalFound = Object.values(documentStatus).filter(status => status === 'FOUND').length;
-          const totalMissing = input.requiredDocuments.length - totalFound;
-          const completionRate = Math.round((totalFound / input.requiredDocuments.length) * 100);
+          const mandatoryDocuments = requiredDocuments.filter(doc => !optionalDocuments.has(doc));
+          const totalFound = mandatoryDocuments.filter(doc => documentStatus[doc] === 'FOUND').length;
+          const totalMissing = mandatoryDocuments.length - totalFound;
+          const completionRate = Math.round((totalFound / mandatoryDocuments.length) * 100);
 
           const reportOutput = `<table style="width: 100%; border-collapse: collapse; border: 3px solid #000; margin: 20px 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
 <thead>
@@ -708,15 +919,15 @@ ${input.requiredDocuments
 </tr>
 </thead>
 <tbody>
-${input.requiredDocuments
+${requiredDocuments
   .map((doc: string, index: number) => {
     const status = documentStatus[doc];
-    const statusEmoji = status === 'FOUND' ? '✅' : '❌';
+    const statusEmoji = status === 'FOUND' ? '✅' : optionalDocuments.has(doc) ? '➖' : '❌';
     const bgColor = '#ffffff';
     const statusBgColor = '#ffffff';
 
     return `<tr style="background-color: ${bgColor};">
-<td style="border: 2px solid #000; padding: 12px; color: #000; font-weight: 500;">${doc}</td>
+<td style="border: 2px solid #000; padding: 12px; color: #000; font-weight: 500;">${doc}${optionalDocuments.has(doc) ? ' (optional)' : ''}</td>
 <td style="border: 2px solid #000; padding: 12px; text-align: center; background-color: ${statusBgColor}; color: #000; font-weight: bold;">${statusEmoji}</td>
 </tr>`;
   })
@@ -725,13 +936,13 @@ ${input.requiredDocuments
 </table>
 
 <div style="margin: 20px 0; padding: 15px; border: 2px solid #000; border-radius: 5px; background: #f0f0f0;">
-<strong style="color: #000;">Summary:</strong> ${totalFound}/${input.requiredDocuments.length} documents found (${completionRate}% compliant)
+<strong style="color: #000;">Summary:</strong> ${totalFound}/${mandatoryDocuments.length} required documents found (${completionRate}% compliant)
 </div>
 
 **Next Steps:**
 ${
   totalMissing > 0
-    ? `⚠️ ${totalMissing} documents are missing. Please ensure the following documents are uploaded:\n${input.requiredDocuments
+    ? `⚠️ ${totalMissing} documents are missing. Please ensure the following documents are uploaded:\n${mandatoryDocuments
         .filter((doc: string) => documentStatus[doc] === 'MISSING')
         .map((doc: string) => `• ${doc}`)
         .join('\n')}`
@@ -752,7 +963,7 @@ ${
           return new ActionResult({ error: errorMsg, includeInMemory: true });
         }
       },
-      sharepointPatientCheckActionSchema,
+      this.withChecklistTemplates(sharepointPatientCheckActionSchema),
     );
     actions.push(sharepointPatientCheck);
 
@@ -763,6 +974,10 @@ ${
         this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
 
         try {
+          const { template, requiredDocuments, optionalDocuments } = this.resolveChecklist(
+            input.templateId,
+            input.requiredDocuments,
+          );
           const page = await this.context.browserContext.getCurrentPage();
 
           // Extract all visible folders and files from current SharePoint view
@@ -831,29 +1046,42 @@ ${
           const structure = pageContent || { folders: [], files: [] };
           const patientFolders = structure.folders || [];
           const allFiles = structure.files || [];
+          const templateMatches = template ? matchChecklistTemplate(template, allFiles) : null;
 
           // Analyze document status for each patient folder
           const patientResults: { [patientId: string]: { [doc: string]: 'FOUND' | 'MISSING' } } = {};
+          const matchedFiles: { [patientId: string]: { [doc: string]: string } } = {};
 
           for (const folder of patientFolders) {
             const patientId = folder;
             patientResults[patientId] = {};
+            matchedFiles[patientId] = {};
 
-            for (const requiredDoc of input.requiredDocuments) {
+            for (const requiredDoc of requiredDocuments) {
               let found = false;
 
-              for (const file of allFiles) {
-                const fileLower = file.toLowerCase();
-                const requiredLower = requiredDoc.toLowerCase();
-
-                if (
-                  fileLower === requiredLower ||
-                  fileLower.includes(requiredLower) ||
-                  requiredLower.includes(fileLower)
-                ) {
+              if (templateMatches) {
+                const match = templateMatches[requiredDoc];
+                if (match) {
                   patientResults[patientId][requiredDoc] = 'FOUND';
+                  matchedFiles[patientId][requiredDoc] = match;
                   found = true;
-                  break;
+                }
+              } else {
+                for (const file of allFiles) {
+                  const fileLower = file.toLowerCase();
+                  const requiredLower = requiredDoc.toLowerCase();
+
+                  if (
+                    fileLower === requiredLower ||
+                    fileLower.includes(requiredLower) ||
+                    requiredLower.includes(fileLower)
+                  ) {
+                    patientResults[patientId][requiredDoc] = 'FOUND';
+                    matchedFiles[patientId][requiredDoc] = file;
+                    found = true;
+                    break;
+                  }
                 }
               }
 
@@ -863,15 +1091,30 @@ ${
             }
           }
 
+          this.context.addReportSection(
+            input.siteId,
+            'sharepoint_multi_patient_check',
+            patientFolders.flatMap((patient: string) =>
+              requiredDocuments.map((doc: string) => ({
+                name: doc,
+                status: patientResults[patient][doc] === 'FOUND' ? ReportItemStatus.FOUND : ReportItemStatus.MISSING,
+                optional: optionalDocuments.has(doc) || undefined,
+                subject: patient,
+                evidence: matchedFiles[patient][doc],
+              })),
+            ),
+            page.url(),
+          );
+
           // Generate comprehensive multi-patient table
           const tableOutput = `<table style="width: 100%; border-collapse: collapse; border: 3px solid #000; margin: 20px 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;">
 <thead>
 <tr style="background: #333; color: #fff;">
 <th style="border: 2px solid #000; padding: 12px; text-align: left; font-weight: bold; color: #fff;">Patient</th>
-${input.requiredDocuments
+${requiredDocuments
   .map(
     doc =>
-      `<th style="border: 2px solid #000; padding: 12px; text-align: center; font-weight: bold; color: #fff;">${doc}</th>`,
+      `<th style="border: 2px solid #000; padding: 12px; text-align: center; font-weight: bold; color: #fff;">${doc}${optionalDocuments.has(doc) ? ' (optional)' : ''}</th>`,
   )
   .join('')}
 </tr>
@@ -880,10 +1123,10 @@ ${input.requiredDocuments
 ${patientFolders
   .map((patient, index) => {
     const bgColor = '#ffffff';
-    const statusCells = input.requiredDocuments
+    const statusCells = requiredDocuments
       .map(doc => {
         const status = patientResults[patient][doc];
-        const statusEmoji = status === 'FOUND' ? '✅' : '❌';
+        const statusEmoji = status === 'FOUND' ? '✅' : optionalDocuments.has(doc) ? '➖' : '❌';
         const statusBgColor = '#ffffff';
         return `<td style="border: 2px solid #000; padding: 12px; text-align: center; background-color: ${statusBgColor}; color: #000; font-weight: bold;">${statusEmoji}</td>`;
       })
@@ -915,7 +1158,7 @@ ${statusCells}
           return new ActionResult({ error: errorMsg, includeInMemory: true });
         }
       },
-      sharepointMultiPatientCheckActionSchema,
+      this.withChecklistTemplates(sharepointMultiPatientCheckActionSchema),
     );
     actions.push(sharepointMultiPatientCheck);
 
@@ -1386,36 +1629,164 @@ ${statusCells}
     actions.push(closeTab);
 
     // Content Actions
-    // TODO: this is not used currently, need to improve on input size
-    // const extractContent = new Action(async (input: z.infer<typeof extractContentActionSchema.schema>) => {
-    //   const goal = input.goal;
-    //   const intent = input.intent || `Extracting content from page`;
-    //   this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
-    //   const page = await this.context.browserContext.getCurrentPage();
-    //   const content = await page.getReadabilityContent();
-    //   const promptTemplate = PromptTemplate.fromTemplate(
-    //     'Your task is to extract the content of the page. You will be given a page and a goal and you should extract all relevant information around this goal from the page. If the goal is vague, summarize the page. Respond in json format. Extraction goal: {goal}, Page: {page}',
-    //   );
-    //   const prompt = await promptTemplate.invoke({ goal, page: content.content });
-
-    //   try {
-    //     const output = await this.extractorLLM.invoke(prompt);
-    //     const msg = `📄  Extracted from page\n: ${output.content}\n`;
-    //     return new ActionResult({
-    //       extractedContent: msg,
-    //       includeInMemory: true,
-    //     });
-    //   } catch (error) {
-    //     logger.error(`Error extracting content: ${error instanceof Error ? error.message : String(error)}`);
-    //     const msg =
-    //       'Failed to extract content from page, you need to extract content from the current state of the page and store it in the memory. Then scroll down if you still need more information.';
-    //     return new ActionResult({
-    //       extractedContent: msg,
-    //       includeInMemory: true,
-    //     });
-    //   }
-    // }, extractContentActionSchema);
-    // actions.push(extractContent);
+    const extractStructured = new Action(async (input: z.infer<typeof extractStructuredActionSchema.schema>) => {
+      const context = this.context;
+      const intent = input.intent || t('act_extractStructured_start', [input.goal]);
+      context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      try {
+        const schema = input.output_schema.trim() ? parseJsonSchema(input.output_schema) : null;
+        const page = await context.browserContext.getCurrentPage();
+        const markdown = await page.getMarkdownContent(input.selector);
+        if (!markdown.trim()) {
+          throw new Error(
+            input.selector
+              ? t('act_extractStructured_noMatch', [input.selector])
+              : t('act_extractStructured_noContent'),
+          );
+        }
+
+        // Long pages are read in parts, each part is extracted on its own and the results are combined
+        const chunks = splitMarkdown(markdown);
+        const parts = chunks.slice(0, MAX_EXTRACTION_CHUNKS);
+        const results: unknown[] = [];
+        for (const [i, chunk] of parts.entries()) {
+          const output = await this.invokeExtractor(
+            buildExtractionMessages(input.goal, schema, chunk, i, parts.length),
+          );
+          results.push(parseExtractionOutput(output));
+        }
+
+        let result = mergeExtractions(results);
+        if (schema) {
+          let validation = validateJsonValue(schema, result);
+          if (!validation.success) {
+            // The extractor gets one chance to fix the shape of the result
+            const output = await this.invokeExtractor(
+              buildRepairMessages(input.goal, schema, result, validation.errors),
+            );
+            validation = validateJsonValue(schema, parseExtractionOutput(output));
+          }
+          if (!validation.success) {
+            throw new Error(t('act_extractStructured_invalidResult', [validation.errors.join('; ')]));
+          }
+          result = validation.data;
+        }
+
+        const msg = t('act_extractStructured_ok', [String(parts.length), input.goal]);
+        context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        const truncated =
+          chunks.length > parts.length ? `\n${t('act_extractStructured_truncated', [String(parts.length)])}` : '';
+        // The result comes from the page, it is not instructions
+        return new ActionResult({
+          extractedContent: `${msg}${truncated}\n${wrapUntrustedContent(JSON.stringify(result, null, 2))}`,
+          includeInMemory: true,
+        });
+      } catch (error) {
+        const errorMsg = t('act_extractStructured_failed', [error instanceof Error ? error.message : String(error)]);
+        context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+    }, extractStructuredActionSchema);
+    actions.push(extractStructured);
+
+    const extractTable = new Action(async (input: z.infer<typeof extractTableActionSchema.schema>) => {
+      const context = this.context;
+      const intent = input.intent || t('act_extractTable_start');
+      context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      try {
+        const page = await context.browserContext.getCurrentPage();
+        const tables = await page.findTables();
+        if (tables.length === 0) {
+          throw new Error(t('act_extractTable_noTables'));
+        }
+        const table = input.table_index >= 0 ? tables[input.table_index] : pickLargestTable(tables);
+        if (!table) {
+          throw new Error(t('act_extractTable_notFound', [String(input.table_index), String(tables.length - 1)]));
+        }
+        const data = await page.extractTable(table, Math.min(Math.max(input.max_rows, 1), MAX_TABLE_ROWS));
+        if (!data) {
+          throw new Error(t('act_extractTable_gone'));
+        }
+
+        const columns = normalizeTableColumns(data.columns, data.rows);
+        const rows = data.rows.map(row => columns.map((_, i) => row[i] ?? ''));
+        const title = table.label || t('act_extractTable_untitled', [String(tables.indexOf(table))]);
+        context.addReportTable(title, extractTableActionSchema.name, columns, rows, data.complete, page.url());
+
+        const msg = t('act_extractTable_ok', [String(rows.length), title]);
+        context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        const { content, rowCount } = formatTable(columns, rows, input.format);
+        const notes = [
+          ...(data.complete ? [] : [t('act_extractTable_incomplete')]),
+          ...(rowCount < rows.length ? [t('act_extractTable_truncated', [String(rowCount)])] : []),
+        ];
+        // Labels and cells come from the page, they are not instructions
+        return new ActionResult({
+          extractedContent: [
+            msg,
+            ...notes,
+            wrapUntrustedContent(`Tables on the page:\n${describeTables(tables)}\n\n${content}`),
+          ].join('\n'),
+          includeInMemory: true,
+        });
+      } catch (error) {
+        const errorMsg = t('act_extractTable_failed', [error instanceof Error ? error.message : String(error)]);
+        context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+    }, extractTableActionSchema);
+    actions.push(extractTable);
+
+    // Download Actions
+    const downloadFile = new Action(async (input: z.infer<typeof downloadFileActionSchema.schema>) => {
+      const intent = input.intent || t('act_downloadFile_start', [input.url]);
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      try {
+        const id = await this.context.browserContext.downloadFile(input.url, input.filename);
+        const record = await waitForDownload(id, input.timeout_seconds * 1000);
+        if (!record) {
+          throw new Error(`Download ${id} is gone from the download list`);
+        }
+        return this.downloadResult([record]);
+      } catch (error) {
+        const errorMsg = t('act_download_failed', [error instanceof Error ? error.message : String(error)]);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+    }, downloadFileActionSchema);
+    actions.push(downloadFile);
+
+    const waitForDownloads = new Action(async (input: z.infer<typeof waitForDownloadActionSchema.schema>) => {
+      const intent = input.intent || t('act_waitForDownload_start');
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      const since = Date.now() - Math.max(input.since_seconds, 0) * 1000;
+      const records = await waitForNewDownloads(since, input.timeout_seconds * 1000);
+      if (records.length === 0) {
+        const errorMsg = t('act_waitForDownload_none', [String(input.timeout_seconds)]);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+      return this.downloadResult(records);
+    }, waitForDownloadActionSchema);
+    actions.push(waitForDownloads);
+
+    const listRecentDownloads = new Action(async (input: z.infer<typeof listDownloadsActionSchema.schema>) => {
+      const intent = input.intent || t('act_listDownloads_start');
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      const records = await listDownloads(Math.max(input.limit, 1));
+      const msg =
+        records.length > 0
+          ? t('act_download_list', [records.map(describeDownload).join('\n')])
+          : t('act_listDownloads_empty');
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true, downloads: records });
+    }, listDownloadsActionSchema);
+    actions.push(listRecentDownloads);
 
     // cache content for future use
     const cacheContent = new Action(async (input: z.infer<typeof cacheContentActionSchema.schema>) => {
@@ -1431,6 +1802,34 @@ ${statusCells}
     }, cacheContentActionSchema);
     actions.push(cacheContent);
 
+    // Remember a fact about the site for future tasks
+    const remember = new Action(async (input: z.infer<typeof rememberActionSchema.schema>) => {
+      const intent = input.intent || t('act_remember_start', [input.content]);
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      const pageDomain = normalizeSiteMemoryDomain(page.url());
+      const domain = input.domain ? normalizeSiteMemoryDomain(input.domain) : pageDomain;
+      // Facts may only be written for the exact host the navigator is on. A parent domain such as "sharepoint.com"
+      // is shared with unrelated sites, which would then get the fact in their prompts.
+      if (domain !== pageDomain) {
+        const errorMsg = t('act_remember_otherDomain', [input.domain, pageDomain]);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+      try {
+        const entry = await siteMemoryStore.addEntry(domain, input.content, 'agent');
+        const msg = t('act_remember_ok', [entry.domain, entry.content]);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        return new ActionResult({ extractedContent: msg, includeInMemory: true });
+      } catch (error) {
+        const errorMsg = t('act_remember_failed', [error instanceof Error ? error.message : String(error)]);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+        return new ActionResult({ error: errorMsg, includeInMemory: true });
+      }
+    }, rememberActionSchema);
+    actions.push(remember);
+
     // Scroll to percent
     const scrollToPercent = new Action(async (input: z.infer<typeof scrollToPercentActionSchema.schema>) => {
       const intent = input.intent || t('act_scrollToPercent_start');
@@ -1874,6 +2273,51 @@ ${statusCells}
     );
     actions.push(selectDropdownOption);
 
+    const uploadFile = new Action(
+      async (input: z.infer<typeof uploadFileActionSchema.schema>) => {
+        const intent = input.intent || t('act_uploadFile_start', [input.files.join(', '), input.index.toString()]);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+        try {
+          const page = await this.context.browserContext.getCurrentPage();
+          const state = await page.getState();
+          const elementNode = state?.selectorMap.get(input.index);
+          if (!elementNode) {
+            throw new Error(t('act_errors_elementNotExist', [input.index.toString()]));
+          }
+
+          const files = await this.resolveUploadFiles(input.files);
+          const uploaded = await page.uploadFiles(elementNode, files);
+
+          // Confirm with the file list of the input, pages may reject files, e.g. of a type they do not accept
+          const uploadedNames = uploaded.map(file => file.name).sort();
+          const expectedNames = files.map(file => file.name).sort();
+          if (uploadedNames.join('\n') !== expectedNames.join('\n')) {
+            throw new Error(
+              t('act_uploadFile_notConfirmed', [
+                input.index.toString(),
+                uploadedNames.length > 0 ? uploadedNames.join(', ') : '-',
+              ]),
+            );
+          }
+
+          const msg = t('act_uploadFile_ok', [
+            input.index.toString(),
+            uploaded.map(file => `${file.name} (${formatBytes(file.size)})`).join(', '),
+          ]);
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+          return new ActionResult({ extractedContent: msg, includeInMemory: true });
+        } catch (error) {
+          const errorMsg = t('act_uploadFile_failed', [error instanceof Error ? error.message : String(error)]);
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+          return new ActionResult({ error: errorMsg, includeInMemory: true });
+        }
+      },
+      uploadFileActionSchema,
+      true,
+    );
+    actions.push(uploadFile);
+
     // Document and Folder Verification Actions
     const scanFolderForDocuments = new Action(
       async (input: z.infer<typeof scanFolderForDocumentsActionSchema.schema>) => {
@@ -1970,59 +2414,99 @@ ${statusCells}
     const verifyDocumentChecklist = new Action(
       async (input: z.infer<typeof verifyDocumentChecklistActionSchema.schema>) => {
         const intent =
-          input.intent || `Verifying document checklist (${input.requiredDocuments.length} required documents)`;
+          input.intent ||
+          (input.templateId
+            ? `Verifying document checklist against template ${input.templateId}`
+            : `Verifying document checklist (${input.requiredDocuments?.length ?? 0} required documents)`);
         this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
 
         try {
+          const { template, requiredDocuments, optionalDocuments } = this.resolveChecklist(
+            input.templateId,
+            input.requiredDocuments,
+          );
+          const templateMatches = template ? matchChecklistTemplate(template, input.discoveredDocuments) : null;
           const foundDocuments: string[] = [];
           const missingDocuments: string[] = [];
+          const missingOptionalDocuments: string[] = [];
+          const matchedDocuments: { [key: string]: string } = {};
 
           // Compare required documents with discovered documents
-          for (const required of input.requiredDocuments) {
+          for (const required of requiredDocuments) {
             let found = false;
 
-            for (const discovered of input.discoveredDocuments) {
-              let match = false;
-
-              switch (input.matchingStrategy) {
-                case 'exact':
-                  match = discovered.toLowerCase() === required.toLowerCase();
-                  break;
-                case 'contains':
-                  match =
-                    discovered.toLowerCase().includes(required.toLowerCase()) ||
-                    required.toLowerCase().includes(discovered.toLowerCase());
-                  break;
-                case 'pattern':
-                  // Simple pattern matching (contains wildcard support)
-                  const pattern = required.replace(/\*/g, '.*').replace(/\?/g, '.');
-                  const regex = new RegExp(pattern, 'i');
-                  match = regex.test(discovered);
-                  break;
+            if (templateMatches) {
+              const templateMatch = templateMatches[required];
+              if (templateMatch) {
+                found = true;
+                foundDocuments.push(`${required} → ${templateMatch}`);
+                matchedDocuments[required] = templateMatch;
               }
+            } else {
+              for (const discovered of input.discoveredDocuments) {
+                let match = false;
+
+                switch (input.matchingStrategy) {
+                  case 'exact':
+                    match = discovered.toLowerCase() === required.toLowerCase();
+                    break;
+                  case 'contains':
+                    match =
+                      discovered.toLowerCase().includes(required.toLowerCase()) ||
+                      required.toLowerCase().includes(discovered.toLowerCase());
+                    break;
+                  case 'pattern':
+                    // Simple pattern matching (contains wildcard support)
+                    const pattern = required.replace(/\*/g, '.*').replace(/\?/g, '.');
+                    const regex = new RegExp(pattern, 'i');
+                    match = regex.test(discovered);
+                    break;
+                }
 
-              if (match) {
-                found = true;
-                foundDocuments.push(`${required} → ${discovered}`);
-                break;
+                if (match) {
+                  found = true;
+                  foundDocuments.push(`${required} → ${discovered}`);
+                  matchedDocuments[required] = discovered;
+                  break;
+                }
               }
             }
 
             if (!found) {
-              missingDocuments.push(required);
+              if (optionalDocuments.has(required)) {
+                missingOptionalDocuments.push(required);
+              } else {
+                missingDocuments.push(required);
+              }
             }
           }
 
+          const totalRequired = requiredDocuments.length - optionalDocuments.size;
+          const totalFound = totalRequired - missingDocuments.length;
           const result = {
-            totalRequired: input.requiredDocuments.length,
-            totalFound: foundDocuments.length,
+            totalRequired,
+            totalFound,
             totalMissing: missingDocuments.length,
             foundDocuments,
             missingDocuments,
-            completionPercentage: Math.round((foundDocuments.length / input.requiredDocuments.length) * 100),
+            ...(template && { templateId: template.id, missingOptionalDocuments }),
+            completionPercentage: Math.round((totalFound / totalRequired) * 100),
           };
 
-          const msg = `Checklist verification complete: ${foundDocuments.length}/${input.requiredDocuments.length} documents found (${result.completionPercentage}%)`;
+          const page = await this.context.browserContext.getCurrentPage();
+          this.context.addReportSection(
+            'Document checklist',
+            'verify_document_checklist',
+            requiredDocuments.map((required: string) => ({
+              name: required,
+              status: matchedDocuments[required] ? ReportItemStatus.FOUND : ReportItemStatus.MISSING,
+              optional: optionalDocuments.has(required) || undefined,
+              evidence: matchedDocuments[required],
+            })),
+            page.url(),
+          );
+
+          const msg = `Checklist verification complete: ${totalFound}/${totalRequired} documents found (${result.completionPercentage}%)`;
           this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
 
           return new ActionResult({
@@ -2038,7 +2522,7 @@ ${statusCells}
           });
         }
       },
-      verifyDocumentChecklistActionSchema,
+      this.withChecklistTemplates(verifyDocumentChecklistActionSchema),
     );
     actions.push(verifyDocumentChecklist);
 
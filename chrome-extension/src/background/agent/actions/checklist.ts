@@ -0,0 +1,66 @@
+import { type ChecklistTemplate, type ChecklistTemplateItem, compileChecklistPattern } from '@extension/storage';
+
+// Lowercase and collapse separators so "Training_Records-v2.pdf" matches "training records"
+const normalizeName = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[\s_\-.,;:()[\]{}]+/g, ' ')
+    .trim();
+
+const getFileType = (file: string) => {
+  const index = file.lastIndexOf('.');
+  return index > 0 ? file.slice(index + 1).toLowerCase() : '';
+};
+
+/**
+ * Finds the first file that satisfies a checklist item.
+ * A file matches when it has one of the expected file types and either matches one of the
+ * item's patterns or contains its name or one of its aliases as whole words.
+ * @param item The checklist item
+ * @param files The file names to search
+ * @returns The matching file name, or undefined if there is none
+ */
+export function matchChecklistItem(item: ChecklistTemplateItem, files: string[]): string | undefined {
+  const candidates =
+    item.fileTypes.length > 0 ? files.filter(file => item.fileTypes.includes(getFileType(file))) : files;
+
+  const patterns = item.patterns.map(compileChecklistPattern);
+  const patternMatch = candidates.find(file => patterns.some(pattern => pattern.test(file)));
+  if (patternMatch) {
+    return patternMatch;
+  }
+
+  const terms = [item.name, ...item.aliases].map(normalizeName).filter(Boolean);
+  return candidates.find(file => {
+    const name = ` ${normalizeName(file)} `;
+    return terms.some(term => name.includes(` ${term} `));
+  });
+}
+
+/**
+ * Matches every item of a checklist template against a list of files
+ * @param template The checklist template
+ * @param files The file names to search
+ * @returns The matching file name for each item name, undefined for missing items
+ */
+export function matchChecklistTemplate(
+  template: ChecklistTemplate,
+  files: string[],
+): Record<string, string | undefined> {
+  return Object.fromEntries(template.items.map(item => [item.name, matchChecklistItem(item, files)]));
+}
+
+/**
+ * Describes the available templates so the navigator can refer to them by id
+ * @param templates The checklist templates
+ * @returns A sentence listing the templates, or an empty string if there are none
+ */
+export function describeChecklistTemplates(templates: ChecklistTemplate[]): string {
+  if (templates.length === 0) {
+    return '';
+  }
+  const list = templates
+    .map(template => `"${template.id}" (${template.name}: ${template.items.map(item => item.name).join(', ')})`)
+    .join('; ');
+  return `Prefer a checklist template over requiredDocuments when one fits. Available templateId values: ${list}.`;
+}
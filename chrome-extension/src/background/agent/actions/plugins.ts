@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import type { CustomActionDefinition, CustomActionSelector } from '@extension/storage';
+import { ActionResult, type AgentContext } from '@src/background/agent/types';
+import { createLogger } from '@src/background/log';
+import { Action } from './builder';
+import type { ActionSchema } from './schemas';
+import { ExecutionState, Actors } from '../event/types';
+import { wrapUntrustedContent } from '../messages/utils';
+
+const logger = createLogger('ActionPlugins');
+
+/**
+ * Builds a navigator action from a stored custom action definition
+ */
+export type ActionPluginFactory = (definition: CustomActionDefinition, context: AgentContext) => Action;
+
+const pluginFactories = new Map<string, ActionPluginFactory>();
+
+/**
+ * Register a plugin kind so that stored definitions of that kind can be turned into actions
+ * @param kind The plugin kind referenced by CustomActionDefinition.kind
+ * @param factory The factory that builds the action
+ */
+export function registerActionPlugin(kind: string, factory: ActionPluginFactory): void {
+  if (pluginFactories.has(kind)) {
+    logger.warning(`Action plugin "${kind}" is already registered, overriding it`);
+  }
+  pluginFactories.set(kind, factory);
+}
+
+export function getActionPluginKinds(): string[] {
+  return [...pluginFactories.keys()];
+}
+
+/**
+ * Build actions for all enabled custom definitions
+ * Definitions with an unknown kind or a name clashing with a reserved action are skipped
+ * @param definitions The stored custom action definitions
+ * @param context The agent context
+ * @param reservedNames Names of actions that are already registered
+ * @returns The built actions
+ */
+export function buildCustomActions(
+  definitions: CustomActionDefinition[],
+  context: AgentContext,
+  reservedNames: string[] = [],
+): Action[] {
+  const actions: Action[] = [];
+  const names = new Set(reservedNames);
+
+  for (const definition of definitions) {
+    if (!definition.enabled) {
+      continue;
+    }
+    if (names.has(definition.name)) {
+      logger.warning(`Custom action "${definition.name}" clashes with an existing action, skipping`);
+      continue;
+    }
+    const factory = pluginFactories.get(definition.kind);
+    if (!factory) {
+      logger.warning(`No action plugin registered for kind "${definition.kind}", skipping "${definition.name}"`);
+      continue;
+    }
+    try {
+      actions.push(factory(definition, context));
+      names.add(definition.name);
+    } catch (error) {
+      logger.error(`Failed to build custom action "${definition.name}":`, error);
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Build the script that extracts the configured selectors from the current page
+ * The selectors are embedded as JSON so no user input is interpolated into the code
+ */
+function buildSelectorExtractionScript(selectors: CustomActionSelector[]): string {
+  return `(() => {
+    const selectors = ${JSON.stringify(selectors)};
+    const read = (el, attribute) => {
+      if (attribute) {
+        return el.getAttribute(attribute);
+      }
+      return (el.innerText || el.textContent || '').trim();
+    };
+    const result = {};
+    for (const item of selectors) {
+      let elements = [];
+      try {
+        elements = Array.from(document.querySelectorAll(item.selector));
+      } catch (e) {
+        result[item.key] = null;
+        continue;
+      }
+      if (item.multiple) {
+        result[item.key] = elements.map(el => read(el, item.attribute));
+      } else {
+        result[item.key] = elements.length > 0 ? read(elements[0], item.attribute) : null;
+      }
+    }
+    return result;
+  })()`;
+}
+
+export const EXTRACT_SELECTORS_KIND = 'extract_selectors';
+
+/**
+ * Declarative action that extracts a set of CSS selectors from the current page into JSON
+ */
+const extractSelectorsPlugin: ActionPluginFactory = (definition, context) => {
+  const inputSchema = z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+  });
+  const schema: ActionSchema = {
+    name: definition.name,
+    description: definition.description || `Extract ${definition.selectors.map(s => s.key).join(', ')} from the page`,
+    schema: inputSchema,
+  };
+
+  return new Action(async (input: z.infer<typeof inputSchema>) => {
+    const intent = input.intent || `Extracting ${definition.name} from the page`;
+    context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+    try {
+      const page = await context.browserContext.getCurrentPage();
+      const data = await page.evaluateScript(buildSelectorExtractionScript(definition.selectors));
+      const json = JSON.stringify(data ?? {}, null, 2);
+
+      const msg = `Extracted ${definition.selectors.length} field(s) with ${definition.name}`;
+      context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({
+        extractedContent: `${msg}:\n${wrapUntrustedContent(json)}`,
+        includeInMemory: true,
+      });
+    } catch (error) {
+      const errorMsg = `${definition.name} failed: ${error instanceof Error ? error.message : String(error)}`;
+      context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+      return new ActionResult({ error: errorMsg, includeInMemory: true });
+    }
+  }, schema);
+};
+
+registerActionPlugin(EXTRACT_SELECTORS_KIND, extractSelectorsPlugin);
@@ -103,15 +103,94 @@ export const closeTabActionSchema: ActionSchema = {
   }),
 };
 
-// Content Actions, not used currently
-// export const extractContentActionSchema: ActionSchema = {
-//   name: 'extract_content',
-//   description:
-//     'Extract page content to retrieve specific information from the page, e.g. all company names, a specific description, all information about, links with companies in structured format or simply links',
-//   schema: z.object({
-//     goal: z.string(),
-//   }),
-// };
+// Content Actions
+export const extractStructuredActionSchema: ActionSchema = {
+  name: 'extract_structured',
+  description:
+    'Extract information for a goal from the whole current page as JSON, e.g. every row of a list or the fields of a record, including the parts that are not scrolled into view. Prefer it to scrolling through long pages',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    goal: z.string().describe('what to extract, e.g. "name, date and status of every document"'),
+    selector: z
+      .string()
+      .default('')
+      .describe('CSS selector of the part of the page to read, empty for the main content of the page'),
+    output_schema: z
+      .string()
+      .default('')
+      .describe('JSON schema of the result, as JSON text, empty to let the result take any JSON shape'),
+  }),
+};
+
+export const extractTableActionSchema: ActionSchema = {
+  name: 'extract_table',
+  description:
+    'Read the headers and rows of a table or data grid of the current page as CSV or JSON, including grids inside iframes and the rows of long lists that are not scrolled into view. Without a table index the largest table is read and every table of the page is listed. The table is kept with the task report, so it can be saved or used in the final answer',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    table_index: z
+      .number()
+      .int()
+      .default(-1)
+      .describe('index of the table in the list of a previous extract_table call, -1 for the largest table'),
+    format: z
+      .enum(['csv', 'json'])
+      .default('csv')
+      .describe('csv for text, json for a list of objects keyed by column header'),
+    max_rows: z.number().int().default(500).describe('most rows to read'),
+  }),
+};
+
+export const uploadFileActionSchema: ActionSchema = {
+  name: 'upload_file',
+  description:
+    'Upload files to a file input, or to the uploader element that contains one, by index. Files are picked by name from the files attached by the user and the files downloaded by this task, they replace the files of the input',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    index: z.number().int().describe('index of the file input or uploader element'),
+    files: z.array(z.string()).describe('file names, e.g. ["consent-form.pdf"]'),
+  }),
+};
+
+// Download Actions
+export const downloadFileActionSchema: ActionSchema = {
+  name: 'download_file',
+  description:
+    'Download a file by its URL and wait until it is saved, reports the file name, type and size or why the download failed',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    url: z.string().describe('URL of the file'),
+    filename: z
+      .string()
+      .default('')
+      .describe('name to save the file as, e.g. "report.csv", empty to keep the name given by the server'),
+    timeout_seconds: z.number().int().default(60).describe('how long to wait for the download to end'),
+  }),
+};
+
+export const waitForDownloadActionSchema: ActionSchema = {
+  name: 'wait_for_download',
+  description:
+    'Wait for the downloads started by a previous action, e.g. clicking an export or download button, to end and report the file name, type and size or why they failed',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    since_seconds: z
+      .number()
+      .int()
+      .default(120)
+      .describe('downloads started this many seconds ago or later are checked'),
+    timeout_seconds: z.number().int().default(60).describe('how long to wait for the downloads to start and end'),
+  }),
+};
+
+export const listDownloadsActionSchema: ActionSchema = {
+  name: 'list_downloads',
+  description: 'List the most recent downloads of the browser with their file name, type, size and state',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    limit: z.number().int().default(10).describe('most downloads to list'),
+  }),
+};
 
 // Cache Actions
 export const cacheContentActionSchema: ActionSchema = {
@@ -123,6 +202,22 @@ export const cacheContentActionSchema: ActionSchema = {
   }),
 };
 
+export const rememberActionSchema: ActionSchema = {
+  name: 'remember',
+  description:
+    'Save a lasting fact about the current website that will help future tasks on it, e.g. where a kind of folder lives, which search box works or which button opens the filter panel. Never save personal data, credentials or results of the current task',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    content: z.string().describe('the fact to remember, one short sentence'),
+    domain: z
+      .string()
+      .default('')
+      .describe(
+        'domain the fact applies to, which must be the domain of the current page, e.g. "contoso.sharepoint.com", empty for the domain of the current page',
+      ),
+  }),
+};
+
 export const scrollToPercentActionSchema: ActionSchema = {
   name: 'scroll_to_percent',
   description:
@@ -221,7 +316,12 @@ export const sharepointDocumentScanActionSchema: ActionSchema = {
     intent: z.string().default('').describe('purpose of this action'),
     requiredDocuments: z
       .array(z.string())
+      .optional()
       .describe('list of required document names to check for (e.g., ["ICF", "CV", "training records"])'),
+    templateId: z
+      .string()
+      .optional()
+      .describe('id of a saved checklist template to check instead of requiredDocuments'),
     directoryContext: z.string().describe('context about the directory being scanned (e.g., "Patient 01 in Site 105")'),
     generateTable: z.boolean().default(true).describe('generate a formatted table of document status'),
     exactMatchOnly: z.boolean().default(true).describe('only count exact matches, no similar names'),
@@ -238,7 +338,12 @@ export const sharepointPatientCheckActionSchema: ActionSchema = {
     patientId: z.string().describe('patient identifier visible on screen (e.g., "Patient 01")'),
     requiredDocuments: z
       .array(z.string())
+      .optional()
       .describe('list of required document names to check for (e.g., ["ICF", "CV", "training records"])'),
+    templateId: z
+      .string()
+      .optional()
+      .describe('id of a saved checklist template to check instead of requiredDocuments'),
     screenAnalysisOnly: z.boolean().default(true).describe('only analyze what is currently visible, no navigation'),
   }),
 };
@@ -252,7 +357,12 @@ export const sharepointMultiPatientCheckActionSchema: ActionSchema = {
     siteId: z.string().describe('site identifier visible on screen (e.g., "Site 105")'),
     requiredDocuments: z
       .array(z.string())
+      .optional()
       .describe('list of required document names to check for each patient (e.g., ["ICF", "CV", "training records"])'),
+    templateId: z
+      .string()
+      .optional()
+      .describe('id of a saved checklist template to check instead of requiredDocuments'),
     generateSummaryTable: z
       .boolean()
       .default(true)
@@ -350,7 +460,11 @@ export const verifyDocumentChecklistActionSchema: ActionSchema = {
     'Compare discovered documents against a required checklist and identify missing documents. Analyzes the current folder/directory contents against a provided list of required documents.',
   schema: z.object({
     intent: z.string().default('').describe('purpose of this action'),
-    requiredDocuments: z.array(z.string()).describe('list of required document names or patterns'),
+    requiredDocuments: z.array(z.string()).optional().describe('list of required document names or patterns'),
+    templateId: z
+      .string()
+      .optional()
+      .describe('id of a saved checklist template to check instead of requiredDocuments'),
     discoveredDocuments: z.array(z.string()).describe('list of documents found in the current scan'),
     matchingStrategy: z
       .enum(['exact', 'contains', 'pattern'])
@@ -0,0 +1,101 @@
+import type { FrameTableSummary } from '@src/background/browser/dom/service';
+
+// Most rows read from one table, whatever the action asks for
+export const MAX_TABLE_ROWS = 5000;
+// Characters of table data returned to the navigator, the whole table is kept with the report
+export const MAX_TABLE_CONTENT_LENGTH = 30000;
+
+export type TableFormat = 'csv' | 'json';
+
+/**
+ * Name every column of a table, columns without a header or with the header of an earlier column
+ * get a numbered name so they can be told apart
+ * @param columns - The headers read from the page, may be fewer than the cells of a row
+ * @param rows - The cell texts of every row
+ */
+export function normalizeTableColumns(columns: string[], rows: string[][]): string[] {
+  const width = Math.max(columns.length, ...rows.map(row => row.length));
+  const seen = new Set<string>();
+  return Array.from({ length: width }, (_, i) => {
+    const header = columns[i]?.trim() ?? '';
+    const name = header && !seen.has(header) ? header : `Column ${i + 1}`;
+    seen.add(name);
+    return name;
+  });
+}
+
+const escapeCsvValue = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Serialize a table as CSV, with the headers as the first line
+ */
+export function tableToCsv(columns: string[], rows: string[][]): string {
+  return [columns, ...rows.map(row => columns.map((_, i) => row[i] ?? ''))]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\n');
+}
+
+/**
+ * Convert the rows of a table to objects keyed by column header
+ */
+export function tableToRecords(columns: string[], rows: string[][]): Record<string, string>[] {
+  return rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])));
+}
+
+/**
+ * Serialize a table in the given format, cut at a row boundary when it is longer than maxLength
+ * @returns The serialized table and the number of rows it holds
+ */
+export function formatTable(
+  columns: string[],
+  rows: string[][],
+  format: TableFormat,
+  maxLength = MAX_TABLE_CONTENT_LENGTH,
+): { content: string; rowCount: number } {
+  const serialize = (count: number) =>
+    format === 'csv'
+      ? tableToCsv(columns, rows.slice(0, count))
+      : JSON.stringify(tableToRecords(columns, rows.slice(0, count)), null, 2);
+
+  let rowCount = rows.length;
+  let content = serialize(rowCount);
+  if (content.length > maxLength) {
+    // Shrink by the share of rows that fit, then one row at a time
+    rowCount = Math.floor((rows.length * maxLength) / content.length);
+    content = serialize(rowCount);
+    while (rowCount > 0 && content.length > maxLength) {
+      rowCount--;
+      content = serialize(rowCount);
+    }
+  }
+  return { content, rowCount };
+}
+
+/**
+ * Pick the table with the most rows, the one a page is usually about
+ */
+export function pickLargestTable(tables: FrameTableSummary[]): FrameTableSummary | null {
+  return tables.reduce<FrameTableSummary | null>((largest, table) => {
+    const size = (summary: FrameTableSummary) => Math.max(summary.rowCount, summary.expectedRowCount ?? 0);
+    return !largest || size(table) > size(largest) ? table : largest;
+  }, null);
+}
+
+/**
+ * Describe the tables of a page for the navigator, one line per table with its index
+ */
+export function describeTables(tables: FrameTableSummary[]): string {
+  return tables
+    .map((table, i) => {
+      const label = table.label ? ` "${table.label}"` : '';
+      const columns = table.columns.filter(Boolean);
+      const header = columns.length > 0 ? `, columns: ${columns.join(', ')}` : '';
+      const rows =
+        table.expectedRowCount !== null && table.expectedRowCount > table.rowCount
+          ? `${table.rowCount} of ${table.expectedRowCount} rows loaded`
+          : `${table.rowCount} rows`;
+      const frame = table.frameId !== 0 ? `, in frame ${table.frameUrl}` : '';
+      return `[${i}] ${table.kind}${label}: ${rows}${header}${frame}`;
+    })
+    .join('\n');
+}
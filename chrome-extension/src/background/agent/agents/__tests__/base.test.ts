@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { type BaseMessage, HumanMessage } from '@langchain/core/messages';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import type { ChatGenerationChunk } from '@langchain/core/outputs';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { ProviderTypeEnum } from '@extension/storage';
+import { PlannerAgent } from '../planner';
+import { ExecutionState } from '../../event/types';
+import type { AgentContext } from '../../types';
+import type { BasePrompt } from '../../prompts/base';
+
+const plan = {
+  observation: 'The search results are shown',
+  challenges: '',
+  done: false,
+  next_steps: 'Open the first result',
+  final_answer: '',
+  reasoning: 'The first result matches the task',
+  web_task: true,
+};
+
+// A fake chat model that records its calls by model name, and fails them with the given error when there is one
+class RecordingChatModel extends FakeListChatModel {
+  constructor(
+    readonly model: string,
+    private readonly calls: string[],
+    private readonly error?: string,
+  ) {
+    super({ responses: [JSON.stringify(plan)] });
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    this.calls.push(this.model);
+    if (this.error) {
+      throw new Error(this.error);
+    }
+    yield* super._streamResponseChunks(messages, options, runManager);
+  }
+}
+
+const createContext = () =>
+  ({
+    controller: new AbortController(),
+    stepModels: {},
+    emitEvent: vi.fn(),
+    recordTokenUsage: vi.fn(),
+  }) as unknown as AgentContext;
+
+describe('BaseAgent streaming', () => {
+  it('passes the partial output to the agent while the response is streamed', async () => {
+    const context = createContext();
+    const emitEvent = vi.mocked(context.emitEvent);
+    // Every character is a chunk, a small delay lets the partial output interval pass between chunks
+    const chatLLM = new FakeListChatModel({ responses: [JSON.stringify(plan)], sleep: 5 });
+    const planner = new PlannerAgent({
+      chatLLM,
+      context,
+      prompt: {} as BasePrompt,
+      provider: ProviderTypeEnum.Llama,
+    });
+
+    const output = await planner.invoke([new HumanMessage('Find the opening hours')]);
+
+    expect(output).toEqual(plan);
+    const streamed = emitEvent.mock.calls
+      .filter(([, state]) => state === ExecutionState.STEP_STREAM)
+      .map(([, , details]) => details as string);
+    expect(streamed.length).toBeGreaterThan(1);
+    expect(streamed[0]).toMatch(/^Observation: The/);
+    expect(streamed.at(-1)).toContain('Reasoning: The first');
+  });
+});
+
+describe('BaseAgent failover', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Runs the call while skipping the back off between models
+  const invoke = async (planner: PlannerAgent) => {
+    const output = planner.invoke([new HumanMessage('Find the opening hours')]);
+    await vi.runAllTimersAsync();
+    return output;
+  };
+
+  it('tries the fallback models in order and records the model that answered', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const calls: string[] = [];
+    const context = createContext();
+    const planner = new PlannerAgent({
+      chatLLM: new RecordingChatModel('primary', calls, '429 Too Many Requests'),
+      fallbackLLMs: [
+        new RecordingChatModel('secondary', calls, 'Request timed out.'),
+        new RecordingChatModel('backup', calls),
+      ],
+      context,
+      prompt: {} as BasePrompt,
+      provider: ProviderTypeEnum.Llama,
+    });
+
+    expect(await invoke(planner)).toEqual(plan);
+    expect(calls).toEqual(['primary', 'secondary', 'backup']);
+    expect(context.stepModels).toEqual({ planner: 'backup' });
+
+    // Rate limits and timeouts pass, the next call starts with the primary model again
+    calls.length = 0;
+    await invoke(planner);
+    expect(calls).toEqual(['primary', 'secondary', 'backup']);
+  });
+
+  it('skips models that failed authentication for the rest of the task', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const calls: string[] = [];
+    const context = createContext();
+    const planner = new PlannerAgent({
+      chatLLM: new RecordingChatModel('primary', calls, '401 Incorrect API key provided'),
+      fallbackLLMs: [new RecordingChatModel('backup', calls)],
+      context,
+      prompt: {} as BasePrompt,
+      provider: ProviderTypeEnum.Llama,
+    });
+
+    await invoke(planner);
+    await invoke(planner);
+
+    expect(calls).toEqual(['primary', 'backup', 'backup']);
+    expect(context.stepModels).toEqual({ planner: 'backup' });
+  });
+
+  it('does not fall back on other errors', async () => {
+    const calls: string[] = [];
+    const planner = new PlannerAgent({
+      chatLLM: new RecordingChatModel('primary', calls, '400 Bad Request: invalid schema'),
+      fallbackLLMs: [new RecordingChatModel('backup', calls)],
+      context: createContext(),
+      prompt: {} as BasePrompt,
+      provider: ProviderTypeEnum.Llama,
+    });
+
+    await expect(planner.invoke([new HumanMessage('Find the opening hours')])).rejects.toThrow('400 Bad Request');
+    expect(calls).toEqual(['primary']);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { formatDryRunAction, isReplayEndedEarly } from '../navigator';
+import { ActionResult } from '../../types';
+
+describe('formatDryRunAction', () => {
+  it('describes the action, its target element and its page', () => {
+    const line = formatDryRunAction({
+      step: 2,
+      actionName: 'input_text',
+      args: { intent: 'Search for the patient', index: 7, text: 'Jane Doe' },
+      index: 7,
+      elementText: '  Search\n  patients  ',
+      url: 'https://contoso.sharepoint.com/sites/clinic',
+      approvalPolicy: 'Patient data',
+    });
+
+    expect(line).toBe(
+      'input_text [7] "Search patients" {"text":"Jane Doe"} on https://contoso.sharepoint.com/sites/clinic' +
+        ' - Search for the patient (needs approval: Patient data)',
+    );
+  });
+
+  it('shortens long element texts', () => {
+    const line = formatDryRunAction({
+      step: 0,
+      actionName: 'click_element',
+      args: { index: 3 },
+      index: 3,
+      elementText: 'x'.repeat(200),
+      url: 'https://example.com',
+    });
+
+    expect(line).toBe(`click_element [3] "${'x'.repeat(80)}..." on https://example.com`);
+  });
+});
+
+describe('isReplayEndedEarly', () => {
+  const done = new ActionResult({ isDone: true, extractedContent: 'Found the invoice' });
+  const clicked = new ActionResult({ extractedContent: 'Clicked the button' });
+
+  it('flags a replay the navigator finished before the last recorded step', () => {
+    expect(isReplayEndedEarly([clicked, done], 1, 4)).toBe(true);
+  });
+
+  it('accepts a finished task on the last step and steps that did not finish it', () => {
+    expect(isReplayEndedEarly([done], 3, 4)).toBe(false);
+    expect(isReplayEndedEarly([clicked], 1, 4)).toBe(false);
+  });
+});
@@ -2,15 +2,22 @@ import type { z } from 'zod';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import type { AgentContext, AgentOutput } from '../types';
 import type { BasePrompt } from '../prompts/base';
-import type { BaseMessage } from '@langchain/core/messages';
+import { type AIMessageChunk, type BaseMessage, isAIMessage } from '@langchain/core/messages';
+import type { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { parsePartialJson } from '@langchain/core/output_parsers';
+import type { Runnable } from '@langchain/core/runnables';
 import { createLogger } from '@src/background/log';
 import type { Action } from '../actions/builder';
 import { convertInputMessages, extractJsonFromModelOutput, removeThinkTags } from '../messages/utils';
-import { isAbortedError, ResponseParseError } from './errors';
+import { countMessageTokens, getTokenizer } from '../messages/tokenizer';
+import { isAbortedError, isAuthenticationError, isFailoverError, isForbiddenError, ResponseParseError } from './errors';
 import { ProviderTypeEnum } from '@extension/storage';
 
 const logger = createLogger('agent');
 
+// Least time between two partial outputs passed to onPartialOutput while a response is streamed
+const PARTIAL_OUTPUT_INTERVAL_MS = 150;
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type CallOptions = Record<string, any>;
 
@@ -20,6 +27,8 @@ export interface BaseAgentOptions {
   context: AgentContext;
   prompt: BasePrompt;
   provider?: string;
+  // Models tried in order when chatLLM fails with an auth, forbidden, rate limit or timeout error
+  fallbackLLMs?: BaseChatModel[];
 }
 export interface ExtraAgentOptions {
   id?: string;
@@ -46,12 +55,18 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
   protected withStructuredOutput: boolean;
   protected callOptions?: CallOptions;
   protected modelOutputToolName: string;
+  // The model followed by its fallbacks
+  private chatLLMs: BaseChatModel[];
+  // First model of the chain worth trying, models that failed authentication are skipped for the rest of the task
+  private modelIndex = 0;
+  private toolCallingMethodOption?: string;
   declare ModelOutput: z.infer<T>;
 
   constructor(modelOutputSchema: T, options: BaseAgentOptions, extraOptions?: Partial<ExtraAgentOptions>) {
     // base options
     this.modelOutputSchema = modelOutputSchema;
     this.chatLLM = options.chatLLM;
+    this.chatLLMs = [options.chatLLM, ...(options.fallbackLLMs ?? [])];
     this.prompt = options.prompt;
     this.context = options.context;
     this.provider = options.provider || '';
@@ -61,11 +76,21 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
     this.withStructuredOutput = this.setWithStructuredOutput();
     // extra options
     this.id = extraOptions?.id || 'agent';
-    this.toolCallingMethod = this.setToolCallingMethod(extraOptions?.toolCallingMethod);
+    this.toolCallingMethodOption = extraOptions?.toolCallingMethod;
+    this.toolCallingMethod = this.setToolCallingMethod(this.toolCallingMethodOption);
     this.callOptions = extraOptions?.callOptions;
     this.modelOutputToolName = `${this.id}_output`;
   }
 
+  // Switch to a model of the fallback chain, the settings that depend on the model follow it
+  private useModel(index: number): void {
+    this.chatLLM = this.chatLLMs[index];
+    this.chatModelLibrary = this.chatLLM.constructor.name;
+    this.modelName = this.getModelName();
+    this.withStructuredOutput = this.setWithStructuredOutput();
+    this.toolCallingMethod = this.setToolCallingMethod(this.toolCallingMethodOption);
+  }
+
   // Set the model name
   private getModelName(): string {
     if ('modelName' in this.chatLLM) {
@@ -118,7 +143,74 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
     return true;
   }
 
+  /**
+   * Record the token usage the provider reported for a model response.
+   * Responses without usage metadata, e.g. from some OpenAI-compatible servers, are counted with the model tokenizer.
+   */
+  protected async recordUsage(response: BaseMessage | undefined, inputMessages: BaseMessage[]): Promise<void> {
+    if (!response || !isAIMessage(response)) {
+      return;
+    }
+    // Older provider packages only report usage in the response metadata
+    const tokenUsage = response.response_metadata?.tokenUsage as
+      | { promptTokens?: number; completionTokens?: number }
+      | undefined;
+    const inputTokens = response.usage_metadata?.input_tokens ?? tokenUsage?.promptTokens;
+    const outputTokens = response.usage_metadata?.output_tokens ?? tokenUsage?.completionTokens;
+    if (inputTokens === undefined && outputTokens === undefined) {
+      const tokenizer = await getTokenizer(this.modelName, this.provider || this.chatModelLibrary);
+      const estimatedInputTokens = inputMessages.reduce(
+        (total, message) => total + countMessageTokens(tokenizer, message),
+        0,
+      );
+      this.context.recordTokenUsage(
+        this.id,
+        this.modelName,
+        estimatedInputTokens,
+        countMessageTokens(tokenizer, response),
+        true,
+      );
+      return;
+    }
+    this.context.recordTokenUsage(this.id, this.modelName, inputTokens ?? 0, outputTokens ?? 0);
+  }
+
+  /**
+   * Invoke the model with the messages, trying the fallback models in order when a provider fails
+   * with an auth, forbidden, rate limit or timeout error. The model that answered is recorded for the step.
+   */
   async invoke(inputMessages: BaseMessage[]): Promise<this['ModelOutput']> {
+    let lastError: unknown;
+    for (let index = this.modelIndex, attempt = 0; index < this.chatLLMs.length; index++, attempt++) {
+      if (attempt > 0) {
+        // Back off before the next provider, in case the failure was a burst of requests
+        const delay = Math.min(1000 * 2 ** (attempt - 1), 8000);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      this.useModel(index);
+
+      try {
+        const output = await this.invokeModel(inputMessages);
+        this.context.stepModels[this.id] = this.modelName;
+        return output;
+      } catch (error) {
+        if (isAbortedError(error) || !isFailoverError(error)) {
+          throw error;
+        }
+        lastError = error;
+        if (isAuthenticationError(error) || isForbiddenError(error)) {
+          this.modelIndex = Math.min(index + 1, this.chatLLMs.length - 1);
+        }
+        if (index < this.chatLLMs.length - 1) {
+          logger.warning(`[${this.modelName}] failed, falling back to the next model:`, error);
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  // Invoke the current model of the chain once
+  protected async invokeModel(inputMessages: BaseMessage[]): Promise<this['ModelOutput']> {
     // Use structured output
     if (this.withStructuredOutput) {
       logger.debug(`[${this.modelName}] Preparing structured output call with schema:`, {
@@ -134,16 +226,14 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
 
       try {
         logger.debug(`[${this.modelName}] Invoking LLM with structured output...`);
-        const response = await structuredLlm.invoke(inputMessages, {
-          signal: this.context.controller.signal,
-          ...this.callOptions,
-        });
+        const response = await this.runModel(structuredLlm, inputMessages);
 
         logger.debug(`[${this.modelName}] LLM response received:`, {
           hasParsed: !!response.parsed,
           hasRaw: !!response.raw,
           rawContent: response.raw?.content?.slice(0, 500) + (response.raw?.content?.length > 500 ? '...' : ''),
         });
+        await this.recordUsage(response.raw, inputMessages);
 
         if (response.parsed) {
           logger.debug(`[${this.modelName}] Successfully parsed structured output`);
@@ -166,10 +256,8 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
     const convertedInputMessages = convertInputMessages(inputMessages, this.modelName);
 
     try {
-      const response = await this.chatLLM.invoke(convertedInputMessages, {
-        signal: this.context.controller.signal,
-        ...this.callOptions,
-      });
+      const response = await this.runModel(this.chatLLM, convertedInputMessages);
+      await this.recordUsage(response, convertedInputMessages);
 
       if (typeof response.content === 'string') {
         response.content = removeThinkTags(response.content);
@@ -194,6 +282,61 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
     throw new ResponseParseError('Could not parse response');
   }
 
+  /**
+   * Called with the partially parsed model output while the response is streamed.
+   * Agents that show their output before the response is complete implement it, the others are not streamed.
+   */
+  protected onPartialOutput?(partial: Record<string, unknown>): void;
+
+  /**
+   * Run the model with the messages, streaming the response to onPartialOutput when the agent implements it
+   * @param runnable - The chat model, or the chat model with structured output
+   * @param inputMessages - The messages to send
+   * @returns The output of the runnable, same as invoke
+   */
+  protected async runModel<O>(runnable: Runnable<BaseLanguageModelInput, O>, inputMessages: BaseMessage[]): Promise<O> {
+    const options = { signal: this.context.controller.signal, ...this.callOptions };
+    if (!this.onPartialOutput) {
+      return await runnable.invoke(inputMessages, options);
+    }
+
+    let rootRunId: string | undefined;
+    let output: O | undefined;
+    let toolCallArgs = '';
+    let content = '';
+    let lastPartialAt = 0;
+    for await (const event of runnable.streamEvents(inputMessages, { ...options, version: 'v2' })) {
+      rootRunId ??= event.run_id;
+      if (event.event === 'on_chat_model_stream') {
+        const chunk = event.data.chunk as AIMessageChunk;
+        // Only the first tool call carries the output
+        for (const toolCallChunk of chunk.tool_call_chunks ?? []) {
+          if ((toolCallChunk.index ?? 0) === 0) {
+            toolCallArgs += toolCallChunk.args ?? '';
+          }
+        }
+        if (typeof chunk.content === 'string') {
+          content += chunk.content;
+        }
+
+        if (Date.now() - lastPartialAt >= PARTIAL_OUTPUT_INTERVAL_MS) {
+          const partial = parsePartialOutput(toolCallArgs || content);
+          if (partial) {
+            lastPartialAt = Date.now();
+            this.onPartialOutput(partial);
+          }
+        }
+      } else if (event.run_id === rootRunId && event.event.endsWith('_end')) {
+        output = event.data.output as O;
+      }
+    }
+
+    if (output === undefined) {
+      throw new Error(`No response received from ${this.modelName}`);
+    }
+    return output;
+  }
+
   // Execute the agent and return the result
   abstract execute(): Promise<AgentOutput<M>>;
 
@@ -208,3 +351,18 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
     }
   }
 }
+
+// Parse the JSON object of a model response that is still being streamed
+function parsePartialOutput(text: string): Record<string, unknown> | undefined {
+  // The model is still thinking
+  if (text.includes('<think>') && !text.includes('</think>')) {
+    return undefined;
+  }
+  const output = removeThinkTags(text);
+  const start = output.indexOf('{');
+  if (start === -1) {
+    return undefined;
+  }
+  const partial = parsePartialJson(output.slice(start).replace(/```\s*$/, ''));
+  return partial && typeof partial === 'object' && !Array.isArray(partial) ? partial : undefined;
+}
@@ -0,0 +1,59 @@
+import { BaseAgent, type BaseAgentOptions, type ExtraAgentOptions } from './base';
+import { createLogger } from '@src/background/log';
+import { z } from 'zod';
+import type { AgentOutput } from '../types';
+import { type BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { isAbortedError, RequestCancelledError } from './errors';
+import { filterExternalContent, formatMessagesAsText } from '../messages/utils';
+
+const logger = createLogger('CompactorAgent');
+
+export const compactorOutputSchema = z.object({
+  memo: z.string(),
+});
+
+export type CompactorOutput = z.infer<typeof compactorOutputSchema>;
+
+/**
+ * Summarizes the older steps of a task into a progress memo when the history grows too long
+ */
+export class CompactorAgent extends BaseAgent<typeof compactorOutputSchema, CompactorOutput> {
+  private messages: BaseMessage[] = [];
+
+  constructor(options: BaseAgentOptions, extraOptions?: Partial<ExtraAgentOptions>) {
+    super(compactorOutputSchema, options, { ...extraOptions, id: 'compactor' });
+  }
+
+  /**
+   * Set the messages to summarize before calling execute
+   */
+  setMessages(messages: BaseMessage[]): void {
+    this.messages = messages;
+  }
+
+  async execute(): Promise<AgentOutput<CompactorOutput>> {
+    try {
+      const modelOutput = await this.invoke([
+        this.prompt.getSystemMessage(),
+        new HumanMessage(`Steps to summarize:\n\n${formatMessagesAsText(this.messages)}`),
+      ]);
+      if (!modelOutput) {
+        throw new Error('Failed to validate compactor output');
+      }
+      return {
+        id: this.id,
+        result: { memo: filterExternalContent(modelOutput.memo, false) },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (isAbortedError(error)) {
+        throw new RequestCancelledError(errorMessage);
+      }
+      logger.error(`Compaction failed: ${errorMessage}`);
+      return {
+        id: this.id,
+        error: errorMessage,
+      };
+    }
+  }
+}
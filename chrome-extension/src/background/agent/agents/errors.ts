@@ -135,6 +135,53 @@ export function isForbiddenError(error: unknown): boolean {
   return error.message.includes(' 403') && error.message.includes('Forbidden');
 }
 
+/**
+ * Checks if an error is related to 429 Too Many Requests or a provider quota
+ *
+ * @param error - The error to check
+ * @returns boolean indicating if it's a rate limit error
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const errorMessage = error.message.toLowerCase();
+  return (
+    error.name === 'RateLimitError' ||
+    errorMessage.includes(' 429') ||
+    errorMessage.includes('rate limit') ||
+    errorMessage.includes('too many requests') ||
+    errorMessage.includes('resource_exhausted') ||
+    errorMessage.includes('quota')
+  );
+}
+
+/**
+ * Checks if an error is caused by a request to the provider that timed out
+ *
+ * @param error - The error to check
+ * @returns boolean indicating if it's a timeout error
+ */
+export function isTimeoutError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const errorMessage = error.message.toLowerCase();
+  return (
+    error.name === 'TimeoutError' ||
+    error.name === 'APIConnectionTimeoutError' ||
+    errorMessage.includes('timed out') ||
+    errorMessage.includes('timeout') ||
+    errorMessage.includes('etimedout')
+  );
+}
+
+/**
+ * Checks if the next model of a fallback chain should be tried after an error
+ *
+ * @param error - The error to check
+ * @returns boolean indicating if the error is an auth, forbidden, rate limit or timeout error
+ */
+export function isFailoverError(error: unknown): boolean {
+  return isAuthenticationError(error) || isForbiddenError(error) || isRateLimitError(error) || isTimeoutError(error);
+}
+
 /**
  * Checks if an error is related to 400 Bad Request
  *
@@ -197,6 +244,16 @@ export class RequestCancelledError extends Error {
   }
 }
 
+/**
+ * Error thrown when an element of a recorded step can not be located on the current page during a replay
+ */
+export class ElementNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ElementNotFoundError';
+  }
+}
+
 export class ExtensionConflictError extends Error {
   /**
    * Creates a new ExtensionConflictError
@@ -287,6 +344,41 @@ export class MaxFailuresReachedError extends Error {
   }
 }
 
+export type BudgetLimit = 'tokens' | 'cost' | 'duration';
+
+/**
+ * Custom error class for when a task goes over one of its token, cost or time budgets
+ */
+export class BudgetExceededError extends Error {
+  /**
+   * Creates a new BudgetExceededError
+   *
+   * @param message - The localized error message explaining which limit was reached
+   * @param limit - The budget limit that was reached
+   * @param cause - The original error that caused this error
+   */
+  constructor(
+    message: string,
+    public readonly limit: BudgetLimit,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+
+    // Maintains proper stack trace for where our error was thrown
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, BudgetExceededError);
+    }
+  }
+
+  /**
+   * Returns a string representation of the error
+   */
+  toString(): string {
+    return `${this.name}: ${this.message}${this.cause ? ` (Caused by: ${this.cause})` : ''}`;
+  }
+}
+
 /**
  * Custom error class for when LLM response cannot be parsed into expected format
  */
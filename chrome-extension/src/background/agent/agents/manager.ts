@@ -0,0 +1,106 @@
+import { BaseAgent, type BaseAgentOptions, type ExtraAgentOptions } from './base';
+import { createLogger } from '@src/background/log';
+import { z } from 'zod';
+import type { AgentOutput } from '../types';
+import { HumanMessage } from '@langchain/core/messages';
+import { Actors, ExecutionState } from '../event/types';
+import {
+  ChatModelAuthError,
+  ChatModelBadRequestError,
+  ChatModelForbiddenError,
+  isAbortedError,
+  isAuthenticationError,
+  isBadRequestError,
+  isForbiddenError,
+  LLM_FORBIDDEN_ERROR_MESSAGE,
+  RequestCancelledError,
+} from './errors';
+import { filterExternalContent, wrapUserRequest } from '../messages/utils';
+
+const logger = createLogger('ManagerAgent');
+
+// Most subtasks a task is split into, items beyond that are grouped by the manager
+export const MAX_SUBTASKS = 20;
+
+// Define Zod schema for manager output
+export const managerOutputSchema = z.object({
+  reasoning: z.string(),
+  subtasks: z.array(
+    z.object({
+      task: z.string(),
+      url: z.string(),
+    }),
+  ),
+});
+
+export type ManagerOutput = z.infer<typeof managerOutputSchema>;
+export type Subtask = ManagerOutput['subtasks'][number];
+
+export class ManagerAgent extends BaseAgent<typeof managerOutputSchema, ManagerOutput> {
+  private task = '';
+
+  constructor(options: BaseAgentOptions, extraOptions?: Partial<ExtraAgentOptions>) {
+    super(managerOutputSchema, options, { ...extraOptions, id: 'manager' });
+  }
+
+  /**
+   * Set the task to split before calling execute
+   */
+  setTask(task: string): void {
+    this.task = task;
+  }
+
+  async execute(): Promise<AgentOutput<ManagerOutput>> {
+    try {
+      this.context.emitEvent(Actors.MANAGER, ExecutionState.STEP_START, 'Splitting the task...');
+      const stateMessage = await this.prompt.getUserMessage(this.context);
+      const modelOutput = await this.invoke([
+        this.prompt.getSystemMessage(),
+        new HumanMessage(wrapUserRequest(this.task)),
+        stateMessage,
+      ]);
+      if (!modelOutput) {
+        throw new Error('Failed to validate manager output');
+      }
+
+      // Subtasks may be made of page content, so clean them before they become navigator tasks
+      const subtasks = modelOutput.subtasks
+        .map(subtask => ({ task: filterExternalContent(subtask.task), url: subtask.url.trim() }))
+        .filter(subtask => subtask.task && /^https?:\/\//.test(subtask.url))
+        .slice(0, MAX_SUBTASKS);
+      const result: ManagerOutput = { reasoning: filterExternalContent(modelOutput.reasoning), subtasks };
+
+      // A single subtask is no better than running the task directly
+      const eventMessage =
+        subtasks.length > 1
+          ? `Split into ${subtasks.length} subtasks:\n${subtasks.map((subtask, i) => `${i + 1}. ${subtask.task}`).join('\n')}`
+          : result.reasoning;
+      this.context.emitEvent(Actors.MANAGER, ExecutionState.STEP_OK, eventMessage);
+      logger.info('Manager output', JSON.stringify(result, null, 2));
+
+      return {
+        id: this.id,
+        result,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      // Check if this is an authentication error
+      if (isAuthenticationError(error)) {
+        throw new ChatModelAuthError(errorMessage, error);
+      } else if (isBadRequestError(error)) {
+        throw new ChatModelBadRequestError(errorMessage, error);
+      } else if (isAbortedError(error)) {
+        throw new RequestCancelledError(errorMessage);
+      } else if (isForbiddenError(error)) {
+        throw new ChatModelForbiddenError(LLM_FORBIDDEN_ERROR_MESSAGE, error);
+      }
+
+      logger.error(`Splitting the task failed: ${errorMessage}`);
+      this.context.emitEvent(Actors.MANAGER, ExecutionState.STEP_FAIL, `Splitting the task failed: ${errorMessage}`);
+      return {
+        id: this.id,
+        error: errorMessage,
+      };
+    }
+  }
+}
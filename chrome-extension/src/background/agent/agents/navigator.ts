@@ -1,7 +1,8 @@
 import { z } from 'zod';
+import { t } from '@extension/i18n';
 import { BaseAgent, type BaseAgentOptions, type ExtraAgentOptions } from './base';
 import { createLogger } from '@src/background/log';
-import { ActionResult, type AgentOutput } from '../types';
+import { ActionResult, type AgentOutput, type DryRunAction, StepMetadata } from '../types';
 import type { Action } from '../actions/builder';
 import { buildDynamicActionSchema } from '../actions/builder';
 import { agentBrainSchema } from '../types';
@@ -11,6 +12,7 @@ import {
   ChatModelAuthError,
   ChatModelBadRequestError,
   ChatModelForbiddenError,
+  ElementNotFoundError,
   EXTENSION_CONFLICT_ERROR_MESSAGE,
   ExtensionConflictError,
   isAbortedError,
@@ -22,15 +24,79 @@ import {
   LLM_FORBIDDEN_ERROR_MESSAGE,
   RequestCancelledError,
 } from './errors';
+import { filterExternalContent } from '../messages/utils';
 import { calcBranchPathHashSet } from '@src/background/browser/dom/views';
-import { type BrowserState, BrowserStateHistory, URLNotAllowedError } from '@src/background/browser/views';
+import {
+  type BrowserState,
+  ActionNotAllowedError,
+  BrowserStateHistory,
+  URLNotAllowedError,
+} from '@src/background/browser/views';
+import { findDomainPolicy, isActionAllowed } from '@src/background/browser/util';
 import { convertZodToJsonSchema, repairJsonString } from '@src/background/utils';
 import { HistoryTreeProcessor } from '@src/background/browser/dom/history/service';
 import { AgentStepRecord } from '../history';
 import { type DOMHistoryElement } from '@src/background/browser/dom/history/view';
+import {
+  type ApprovalDecision,
+  type DomainActionPolicy,
+  type StepReviewAction,
+  summarizeTokenUsage,
+} from '@extension/storage';
+import { classifyAction } from '@src/background/services/guardrails';
 
 const logger = createLogger('NavigatorAgent');
 
+// Actions that do not touch the page, they still run in a dry run
+const DRY_RUN_ACTIONS = new Set(['done', 'cache_content', 'extract_structured', 'extract_table', 'list_downloads']);
+// Most characters of the element text shown for a planned action
+const MAX_DRY_RUN_ELEMENT_TEXT_LENGTH = 80;
+
+/**
+ * Describes an action planned in a dry run as one line of the plan transcript
+ * @param action - The planned action
+ * @returns The line, e.g. click_element [12] "Submit" on https://example.com - Submit the form
+ */
+export function formatDryRunAction(action: DryRunAction): string {
+  const details = Object.fromEntries(
+    Object.entries(action.args).filter(([key]) => key !== 'intent' && key !== 'index'),
+  );
+  const parts = [action.actionName];
+  if (action.index !== null) {
+    parts.push(`[${action.index}]`);
+  }
+  if (action.elementText) {
+    const text = action.elementText.replace(/\s+/g, ' ').trim();
+    parts.push(
+      `"${text.length > MAX_DRY_RUN_ELEMENT_TEXT_LENGTH ? `${text.slice(0, MAX_DRY_RUN_ELEMENT_TEXT_LENGTH)}...` : text}"`,
+    );
+  }
+  if (Object.keys(details).length > 0) {
+    parts.push(JSON.stringify(details));
+  }
+  parts.push(`on ${action.url}`);
+
+  let line = parts.join(' ');
+  if (typeof action.args.intent === 'string' && action.args.intent) {
+    line += ` - ${action.args.intent}`;
+  }
+  if (action.approvalPolicy) {
+    line += ` (needs approval: ${action.approvalPolicy})`;
+  }
+  return line;
+}
+
+/**
+ * Checks whether the navigator that took over a replayed step finished the task before the last recorded step,
+ * the replay then diverged from the workflow because the later steps never ran
+ * @param results - The action results of the step taken over by the navigator
+ * @param stepIndex - Index of the step in the workflow
+ * @param totalSteps - Number of steps of the workflow
+ */
+export function isReplayEndedEarly(results: ActionResult[], stepIndex: number, totalSteps: number): boolean {
+  return stepIndex < totalSteps - 1 && results.some(result => result.isDone);
+}
+
 interface ParsedModelOutput {
   current_state?: {
     next_goal?: string;
@@ -40,11 +106,13 @@ interface ParsedModelOutput {
 
 export class NavigatorActionRegistry {
   private actions: Record<string, Action> = {};
+  private domainPolicies: DomainActionPolicy[];
 
-  constructor(actions: Action[]) {
+  constructor(actions: Action[], domainPolicies: DomainActionPolicy[] = []) {
     for (const action of actions) {
       this.registerAction(action);
     }
+    this.domainPolicies = domainPolicies;
   }
 
   registerAction(action: Action): void {
@@ -59,6 +127,23 @@ export class NavigatorActionRegistry {
     return this.actions[name];
   }
 
+  getActionNames(): string[] {
+    return Object.keys(this.actions);
+  }
+
+  /**
+   * Checks the action against the domain action policy of the page it runs on
+   * @throws ActionNotAllowedError if the policy does not allow the action
+   */
+  checkActionAllowed(name: string, url: string): void {
+    const policy = findDomainPolicy(url, this.domainPolicies);
+    if (policy && !isActionAllowed(policy, name)) {
+      throw new ActionNotAllowedError(
+        `Action ${name} is not allowed on ${policy.pattern} by the firewall, use a different action or finish the task`,
+      );
+    }
+  }
+
   setupModelOutputSchema(): z.ZodType {
     const actionSchema = buildDynamicActionSchema(Object.values(this.actions));
     return z.object({
@@ -90,7 +175,24 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
     this.jsonSchema = convertZodToJsonSchema(this.modelOutputSchema, 'NavigatorAgentOutput', true);
   }
 
-  async invoke(inputMessages: BaseMessage[]): Promise<this['ModelOutput']> {
+  protected onPartialOutput(partial: Record<string, unknown>): void {
+    const currentState = partial.current_state as Record<string, unknown> | undefined;
+    if (!currentState || typeof currentState !== 'object') {
+      return;
+    }
+    const sections = [
+      ['Evaluation', currentState.evaluation_previous_goal],
+      ['Memory', currentState.memory],
+      ['Next goal', currentState.next_goal],
+    ]
+      .filter((section): section is [string, string] => typeof section[1] === 'string' && section[1] !== '')
+      .map(([title, text]) => `${title}: ${filterExternalContent(text)}`);
+    if (sections.length > 0) {
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.STEP_STREAM, sections.join('\n'));
+    }
+  }
+
+  protected async invokeModel(inputMessages: BaseMessage[]): Promise<this['ModelOutput']> {
     // Use structured output
     if (this.withStructuredOutput) {
       const structuredLlm = this.chatLLM.withStructuredOutput(this.jsonSchema, {
@@ -100,10 +202,8 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
 
       let response = undefined;
       try {
-        response = await structuredLlm.invoke(inputMessages, {
-          signal: this.context.controller.signal,
-          ...this.callOptions,
-        });
+        response = await this.runModel(structuredLlm, inputMessages);
+        await this.recordUsage(response.raw, inputMessages);
 
         if (response.parsed) {
           return response.parsed;
@@ -140,7 +240,7 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
     }
 
     // Fallback to parent class manual JSON extraction for models without structured output support
-    return super.invoke(inputMessages);
+    return super.invokeModel(inputMessages);
   }
 
   async execute(): Promise<AgentOutput<NavigatorResult>> {
@@ -152,6 +252,7 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
     let modelOutputString: string | null = null;
     let browserStateHistory: BrowserStateHistory | null = null;
     let actionResults: ActionResult[] = [];
+    const stepStartTime = Date.now() / 1000;
 
     try {
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.STEP_START, 'Navigating...');
@@ -180,7 +281,18 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
         return agentOutput;
       }
 
-      const actions = this.fixActions(modelOutput);
+      let actions = this.fixActions(modelOutput);
+      let skipped = false;
+      if (this.context.options.stepThrough) {
+        const proposedCount = actions.length;
+        actions = await this.reviewActions(modelOutput, actions, currentState);
+        if (this.context.stopped) {
+          cancelled = true;
+          return agentOutput;
+        }
+        skipped = proposedCount > 0 && actions.length === 0;
+      }
+      // The memory and the history keep the actions that run, as edited by the user in debug mode
       modelOutput.action = actions;
       modelOutputString = JSON.stringify(modelOutput);
 
@@ -189,7 +301,14 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
       this.addModelOutputToMemory(modelOutput);
 
       // take the actions
-      actionResults = await this.doMultiAction(actions);
+      actionResults = skipped
+        ? [
+            new ActionResult({
+              extractedContent: 'The user skipped the proposed actions, choose different ones.',
+              includeInMemory: true,
+            }),
+          ]
+        : await this.doMultiAction(actions);
       // logger.info('Action results', JSON.stringify(actionResults, null, 2));
 
       this.context.actionResults = actionResults;
@@ -249,7 +368,22 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
           });
         });
 
-        const history = new AgentStepRecord(modelOutputString, actionResultsCopy, browserStateHistory);
+        // Usage of the step includes the planner call made before the navigator, if any
+        const stepNumber = this.context.nSteps;
+        const stepUsage = summarizeTokenUsage(this.context.tokenUsage.filter(record => record.step === stepNumber));
+        const metadata = new StepMetadata(
+          stepStartTime,
+          Date.now() / 1000,
+          stepUsage.inputTokens,
+          stepNumber,
+          stepUsage.outputTokens,
+          stepUsage.cost,
+          this.context.stepModels,
+        );
+        // Models of the next step are recorded from scratch, a fallback may be used for some steps only
+        this.context.stepModels = {};
+
+        const history = new AgentStepRecord(modelOutputString, actionResultsCopy, browserStateHistory, metadata);
         this.context.history.history.push(history);
 
         // logger.info('All history', JSON.stringify(this.context.history, null, 2));
@@ -351,6 +485,140 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
     return actions;
   }
 
+  /**
+   * Asks the user to approve an action if it matches one of the approval policies
+   * @returns The user's decision, or null if the action does not need approval
+   */
+  private async checkApproval(
+    actionName: string,
+    actionArgs: unknown,
+    indexArg: number | null,
+    browserState: BrowserState,
+  ): Promise<ApprovalDecision | null> {
+    const policies = this.context.options.approvalPolicies;
+    if (policies.length === 0) {
+      return null;
+    }
+
+    const args = (actionArgs ?? {}) as Record<string, unknown>;
+    const domElement = indexArg !== null ? browserState.selectorMap.get(indexArg) : undefined;
+    const element = domElement
+      ? { text: domElement.getAllTextTillNextClickableElement(), attributes: domElement.attributes }
+      : undefined;
+    const classification = classifyAction(policies, { actionName, args, url: browserState.url, element });
+    if (!classification) {
+      return null;
+    }
+
+    logger.info(`Action ${actionName} needs approval, matched policy "${classification.policy.name}"`);
+    return this.context.requestApproval({
+      actionName,
+      args,
+      url: browserState.url,
+      elementText: element?.text,
+      policy: classification.policy.name,
+    });
+  }
+
+  /**
+   * Pauses the step in debug mode until the user continues with the proposed actions, edited,
+   * replaced with other registered actions or removed. The first target element is highlighted meanwhile.
+   * @param modelOutput - The model output of the step
+   * @param actions - The proposed actions
+   * @param browserState - The state of the page the model saw
+   * @returns The actions to perform
+   */
+  private async reviewActions(
+    modelOutput: this['ModelOutput'],
+    actions: Record<string, unknown>[],
+    browserState: BrowserState,
+  ): Promise<Record<string, unknown>[]> {
+    const proposed: StepReviewAction[] = actions.map(action => {
+      const name = Object.keys(action)[0];
+      const args = (action[name] ?? {}) as Record<string, unknown>;
+      const index = this.actionRegistry.getAction(name)?.getIndexArg(args) ?? null;
+      const elementText =
+        index !== null ? browserState.selectorMap.get(index)?.getAllTextTillNextClickableElement() : undefined;
+      return { name, args, index, elementText };
+    });
+
+    const targetIndex = proposed.map(action => action.index).find((index): index is number => index !== null);
+    if (targetIndex !== undefined) {
+      try {
+        await this.context.browserContext.highlightElement(targetIndex);
+      } catch (error) {
+        logger.warning('Failed to highlight the target element:', error);
+      }
+    }
+
+    const currentState = Object.fromEntries(
+      Object.entries((modelOutput.current_state ?? {}) as Record<string, unknown>)
+        .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        .map(([key, value]) => [key, filterExternalContent(value)]),
+    );
+    const decision = await this.context.requestStepReview({
+      step: this.context.nSteps,
+      url: browserState.url,
+      currentState,
+      actions: proposed,
+      availableActions: this.actionRegistry.getActionNames(),
+    });
+    return decision.actions.map(action => ({ [action.name]: action.args }));
+  }
+
+  /**
+   * Records an action in the dry run plan instead of performing it. The target element is resolved
+   * and the arguments validated, so the plan only holds actions that could have run.
+   * @returns The result telling the navigator that the page did not change
+   */
+  private recordDryRunAction(
+    actionInstance: Action,
+    actionArgs: unknown,
+    indexArg: number | null,
+    browserState: BrowserState,
+  ): ActionResult {
+    const actionName = actionInstance.name();
+    const parsedArgs = actionInstance.schema.schema.safeParse(actionArgs ?? {});
+    if (!parsedArgs.success) {
+      throw new Error(parsedArgs.error.message);
+    }
+    const domElement = indexArg !== null ? browserState.selectorMap.get(indexArg) : undefined;
+    if (indexArg !== null && !domElement) {
+      throw new Error(`Element with index ${indexArg} does not exist`);
+    }
+
+    const args = (parsedArgs.data ?? {}) as Record<string, unknown>;
+    const element = domElement
+      ? { text: domElement.getAllTextTillNextClickableElement(), attributes: domElement.attributes }
+      : undefined;
+    const classification = classifyAction(this.context.options.approvalPolicies, {
+      actionName,
+      args,
+      url: browserState.url,
+      element,
+    });
+    const planned: DryRunAction = {
+      step: this.context.nSteps,
+      actionName,
+      args,
+      index: indexArg,
+      elementText: element?.text,
+      url: browserState.url,
+      approvalPolicy: classification?.policy.name,
+    };
+    this.context.dryRunPlan.push(planned);
+    this.context.emitEvent(
+      Actors.NAVIGATOR,
+      ExecutionState.ACT_DRY_RUN,
+      t('act_dryRun_planned', [formatDryRunAction(planned)]),
+    );
+
+    return new ActionResult({
+      extractedContent: `Dry run: ${actionName} was not performed and the page did not change. Continue as if it succeeded, and call done with a summary of the planned actions once the next actions depend on a page you can not see.`,
+      includeInMemory: true,
+    });
+  }
+
   private async doMultiAction(actions: Record<string, unknown>[]): Promise<ActionResult[]> {
     const results: ActionResult[] = [];
     let errCount = 0;
@@ -375,6 +643,8 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
         if (actionInstance === undefined) {
           throw new Error(`Action ${actionName} not exists`);
         }
+        const currentPage = await browserContext.getCurrentPage();
+        this.actionRegistry.checkActionAllowed(actionName, currentPage.url());
 
         const indexArg = actionInstance.getIndexArg(actionArgs);
         if (i > 0 && indexArg !== null) {
@@ -394,7 +664,26 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
           }
         }
 
-        const result = await actionInstance.call(actionArgs);
+        if (this.context.options.dryRun && !DRY_RUN_ACTIONS.has(actionName)) {
+          results.push(this.recordDryRunAction(actionInstance, actionArgs, indexArg, browserState));
+          continue;
+        }
+
+        const approval = await this.checkApproval(actionName, actionArgs, indexArg, browserState);
+        if (approval && !approval.approved) {
+          const msg = `The user rejected ${actionName}${approval.reason ? `: ${approval.reason}` : ''}. Do not retry this action.`;
+          logger.info(msg);
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+          results.push(
+            new ActionResult({
+              error: msg,
+              includeInMemory: true,
+            }),
+          );
+          break;
+        }
+
+        const result = await actionInstance.call(approval?.args ?? actionArgs);
         if (result === undefined) {
           throw new Error(`Action ${actionName} returned undefined`);
         }
@@ -521,7 +810,7 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
       updatedActions.push(updatedAction);
 
       if (updatedAction === null) {
-        throw new Error(`Could not find matching element ${i} in current page`);
+        throw new ElementNotFoundError(`Could not find matching element ${i} in current page`);
       }
     }
 
@@ -602,7 +891,7 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
           );
 
           if (!skipFailures) {
-            throw new Error(failMsg);
+            throw error instanceof ElementNotFoundError ? new ElementNotFoundError(failMsg) : new Error(failMsg);
           }
         } else {
           replayLogger.warning(`Step ${stepIndex + 1} failed (attempt ${retryCount}/${maxRetries}), retrying...`);
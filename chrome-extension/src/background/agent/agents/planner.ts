@@ -50,6 +50,19 @@ export class PlannerAgent extends BaseAgent<typeof plannerOutputSchema, PlannerO
     super(plannerOutputSchema, options, { ...extraOptions, id: 'planner' });
   }
 
+  protected onPartialOutput(partial: Record<string, unknown>): void {
+    const sections = [
+      ['Observation', partial.observation],
+      ['Reasoning', partial.reasoning],
+      ['Next steps', partial.next_steps],
+    ]
+      .filter((section): section is [string, string] => typeof section[1] === 'string' && section[1] !== '')
+      .map(([title, text]) => `${title}: ${filterExternalContent(text)}`);
+    if (sections.length > 0) {
+      this.context.emitEvent(Actors.PLANNER, ExecutionState.STEP_STREAM, sections.join('\n'));
+    }
+  }
+
   async execute(): Promise<AgentOutput<PlannerOutput>> {
     try {
       this.context.emitEvent(Actors.PLANNER, ExecutionState.STEP_START, 'Planning...');
@@ -0,0 +1,114 @@
+import { BaseAgent, type BaseAgentOptions, type ExtraAgentOptions } from './base';
+import { createLogger } from '@src/background/log';
+import { z } from 'zod';
+import type { AgentOutput } from '../types';
+import { HumanMessage } from '@langchain/core/messages';
+import { Actors, ExecutionState } from '../event/types';
+import {
+  ChatModelAuthError,
+  ChatModelBadRequestError,
+  ChatModelForbiddenError,
+  isAbortedError,
+  isAuthenticationError,
+  isBadRequestError,
+  isForbiddenError,
+  LLM_FORBIDDEN_ERROR_MESSAGE,
+  RequestCancelledError,
+} from './errors';
+import { filterExternalContent, wrapUserRequest } from '../messages/utils';
+import type { ValidatorPrompt } from '../prompts/validator';
+
+const logger = createLogger('ValidatorAgent');
+
+// Define Zod schema for validator output
+export const validatorOutputSchema = z.object({
+  is_valid: z.union([
+    z.boolean(),
+    z.string().transform(val => {
+      if (val.toLowerCase() === 'true') return true;
+      if (val.toLowerCase() === 'false') return false;
+      throw new Error('Invalid boolean string');
+    }),
+  ]),
+  reason: z.string(),
+  answer: z.string(),
+});
+
+export type ValidatorOutput = z.infer<typeof validatorOutputSchema>;
+
+export interface ValidatorAgentOptions extends BaseAgentOptions {
+  prompt: ValidatorPrompt;
+}
+
+export class ValidatorAgent extends BaseAgent<typeof validatorOutputSchema, ValidatorOutput> {
+  private readonly validatorPrompt: ValidatorPrompt;
+  private task = '';
+  private finalAnswer = '';
+
+  constructor(options: ValidatorAgentOptions, extraOptions?: Partial<ExtraAgentOptions>) {
+    super(validatorOutputSchema, options, { ...extraOptions, id: 'validator' });
+    this.validatorPrompt = options.prompt;
+  }
+
+  /**
+   * Set the task and the final answer to check before calling execute
+   */
+  setTask(task: string, finalAnswer: string): void {
+    this.task = task;
+    this.finalAnswer = finalAnswer;
+  }
+
+  async execute(): Promise<AgentOutput<ValidatorOutput>> {
+    try {
+      this.context.emitEvent(Actors.VALIDATOR, ExecutionState.STEP_START, 'Validating the final answer...');
+      const stateMessage = await this.validatorPrompt.getUserMessage(this.context);
+      const modelOutput = await this.invoke([
+        this.validatorPrompt.getSystemMessage(),
+        new HumanMessage(wrapUserRequest(this.task)),
+        new HumanMessage(`Final answer to validate:\n${filterExternalContent(this.finalAnswer, false)}`),
+        this.validatorPrompt.getEvidenceMessage(this.context),
+        stateMessage,
+      ]);
+      if (!modelOutput) {
+        throw new Error('Failed to validate validator output');
+      }
+
+      const result: ValidatorOutput = {
+        ...modelOutput,
+        reason: filterExternalContent(modelOutput.reason),
+        answer: filterExternalContent(modelOutput.answer, false),
+      };
+
+      if (result.is_valid) {
+        this.context.emitEvent(Actors.VALIDATOR, ExecutionState.STEP_OK, result.reason);
+      } else {
+        this.context.emitEvent(Actors.VALIDATOR, ExecutionState.STEP_FAIL, result.reason);
+      }
+      logger.info('Validator output', JSON.stringify(result, null, 2));
+
+      return {
+        id: this.id,
+        result,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      // Check if this is an authentication error
+      if (isAuthenticationError(error)) {
+        throw new ChatModelAuthError(errorMessage, error);
+      } else if (isBadRequestError(error)) {
+        throw new ChatModelBadRequestError(errorMessage, error);
+      } else if (isAbortedError(error)) {
+        throw new RequestCancelledError(errorMessage);
+      } else if (isForbiddenError(error)) {
+        throw new ChatModelForbiddenError(LLM_FORBIDDEN_ERROR_MESSAGE, error);
+      }
+
+      logger.error(`Validation failed: ${errorMessage}`);
+      this.context.emitEvent(Actors.VALIDATOR, ExecutionState.STEP_FAIL, `Validation failed: ${errorMessage}`);
+      return {
+        id: this.id,
+        error: errorMessage,
+      };
+    }
+  }
+}
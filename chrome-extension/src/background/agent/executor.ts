@@ -1,48 +1,128 @@
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import { type ActionResult, AgentContext, type AgentOptions, type AgentOutput } from './types';
+import { HumanMessage } from '@langchain/core/messages';
+import { ActionResult, AgentContext, type AgentOptions, type AgentOutput } from './types';
 import { t } from '@extension/i18n';
-import { NavigatorAgent, NavigatorActionRegistry } from './agents/navigator';
+import { formatDryRunAction, isReplayEndedEarly, NavigatorAgent, NavigatorActionRegistry } from './agents/navigator';
 import { PlannerAgent, type PlannerOutput } from './agents/planner';
+import { ManagerAgent, MAX_SUBTASKS, type Subtask } from './agents/manager';
+import { ValidatorAgent } from './agents/validator';
+import { CompactorAgent } from './agents/compactor';
 import { NavigatorPrompt } from './prompts/navigator';
 import { PlannerPrompt } from './prompts/planner';
+import { ManagerPrompt } from './prompts/manager';
+import { ValidatorPrompt } from './prompts/validator';
+import { CompactionPrompt } from './prompts/compaction';
 import { createLogger } from '@src/background/log';
-import MessageManager from './messages/service';
-import type BrowserContext from '../browser/context';
+import MessageManager, { MessageManagerSettings, type MessageManagerState } from './messages/service';
+import type { Tokenizer } from './messages/tokenizer';
+import BrowserContext from '../browser/context';
 import { ActionBuilder } from './actions/builder';
+import { buildCustomActions } from './actions/plugins';
 import { EventManager } from './event/manager';
 import { Actors, type EventCallback, EventType, ExecutionState } from './event/types';
 import {
   ChatModelAuthError,
   ChatModelBadRequestError,
   ChatModelForbiddenError,
+  ElementNotFoundError,
   ExtensionConflictError,
   RequestCancelledError,
   MaxStepsReachedError,
   MaxFailuresReachedError,
+  BudgetExceededError,
 } from './agents/errors';
 import { URLNotAllowedError } from '../browser/views';
+import { formatBytes } from '../browser/downloads';
 import { chatHistoryStore } from '@extension/storage/lib/chat';
-import type { AgentStepHistory } from './history';
-import type { GeneralSettingsConfig } from '@extension/storage';
+import { AgentStepHistory, type AgentStepRecord } from './history';
+import {
+  AgentNameEnum,
+  type ApprovalDecision,
+  type ChecklistTemplate,
+  type CustomActionsConfig,
+  type DomainActionPolicy,
+  type FileAttachmentInfo,
+  type GeneralSettingsConfig,
+  type ModelPrice,
+  type ReportSection,
+  type ReportTable,
+  type StepReviewDecision,
+  type TokenUsageRecord,
+  summarizeTokenUsage,
+} from '@extension/storage';
+import { type JsonSchemaObject, validateJsonText } from '@extension/schema-utils';
 import { analytics } from '../services/analytics';
 
 const logger = createLogger('Executor');
 
 export interface ExecutorExtraArgs {
   plannerLLM?: BaseChatModel;
+  validatorLLM?: BaseChatModel;
+  // Model that summarizes the older steps of long tasks, a cheap model is enough
+  compactorLLM?: BaseChatModel;
   extractorLLM?: BaseChatModel;
+  fallbackLLMs?: Partial<Record<AgentNameEnum, BaseChatModel[]>>;
   agentOptions?: Partial<AgentOptions>;
   generalSettings?: GeneralSettingsConfig;
+  customActions?: CustomActionsConfig;
+  checklistTemplates?: ChecklistTemplate[];
+  modelPrices?: Record<string, ModelPrice>;
+  domainPolicies?: DomainActionPolicy[];
+  // Tokenizer of the navigator model, counts the tokens of the message history
+  tokenizer?: Tokenizer;
+  // Files the user attached, which the upload_file action can upload
+  attachments?: FileAttachmentInfo[];
+}
+
+// State of a task after its last completed step, to continue it after the service worker restarts
+export interface TaskCheckpoint {
+  tasks: string[];
+  step: number;
+  nSteps: number;
+  consecutiveFailures: number;
+  actionResults: ActionResult[];
+  history: AgentStepHistory;
+  messages: MessageManagerState;
+  tokenUsage: TokenUsageRecord[];
+  reportSections: ReportSection[];
+  reportTables?: ReportTable[]; // Missing in checkpoints stored before tables were kept
+  downloadIds?: number[]; // Missing in checkpoints stored before downloads were tracked
+  elapsed: number; // Milliseconds the task had been running
+  budgetAcknowledged: boolean;
+  url: string; // Page the task was on
+  // Modes the task was started with, missing in checkpoints stored before they were kept
+  answerSchema?: JsonSchemaObject | null;
+  stepThrough?: boolean;
+}
+
+// Outcome of a subtask run by the manager
+interface SubtaskResult {
+  subtask: Subtask;
+  done: boolean;
+  result: string;
 }
 
 export class Executor {
   private readonly navigator: NavigatorAgent;
   private readonly planner: PlannerAgent;
+  private readonly manager: ManagerAgent | null;
+  private readonly validator: ValidatorAgent | null;
+  private readonly compactor: CompactorAgent | null;
+  private readonly navigatorLLM: BaseChatModel;
+  private readonly extraArgs: Partial<ExecutorExtraArgs>;
   private readonly context: AgentContext;
   private readonly plannerPrompt: PlannerPrompt;
   private readonly navigatorPrompt: NavigatorPrompt;
   private readonly generalSettings: GeneralSettingsConfig | undefined;
   private tasks: string[] = [];
+  private taskStartTime = 0;
+  // Set once the user resumes a task that was paused for going over its budget
+  private budgetAcknowledged = false;
+  private subtaskContexts: AgentContext[] = [];
+  // Step to continue from when the task was restored from a checkpoint
+  private restoredStep: number | null = null;
+  // Final answers the validator or the answer schema rejected in the current task
+  private validatorFailures = 0;
   constructor(
     task: string,
     taskId: string,
@@ -50,10 +130,14 @@ export class Executor {
     navigatorLLM: BaseChatModel,
     extraArgs?: Partial<ExecutorExtraArgs>,
   ) {
-    const messageManager = new MessageManager();
+    const messageManager = new MessageManager(
+      new MessageManagerSettings({
+        maxInputTokens: extraArgs?.agentOptions?.maxInputTokens,
+        tokenizer: extraArgs?.tokenizer,
+      }),
+    );
 
     const plannerLLM = extraArgs?.plannerLLM ?? navigatorLLM;
-    const extractorLLM = extraArgs?.extractorLLM ?? navigatorLLM;
     const eventManager = new EventManager();
     const context = new AgentContext(
       taskId,
@@ -61,32 +145,94 @@ export class Executor {
       messageManager,
       eventManager,
       extraArgs?.agentOptions ?? {},
+      extraArgs?.modelPrices,
     );
 
     this.generalSettings = extraArgs?.generalSettings;
+    this.navigatorLLM = navigatorLLM;
+    this.extraArgs = extraArgs ?? {};
     this.tasks.push(task);
     this.navigatorPrompt = new NavigatorPrompt(context.options.maxActionsPerStep);
     this.plannerPrompt = new PlannerPrompt();
 
-    const actionBuilder = new ActionBuilder(context, extractorLLM);
-    const navigatorActionRegistry = new NavigatorActionRegistry(actionBuilder.buildDefaultActions());
-
     // Initialize agents with their respective prompts
-    this.navigator = new NavigatorAgent(navigatorActionRegistry, {
-      chatLLM: navigatorLLM,
-      context: context,
-      prompt: this.navigatorPrompt,
-    });
+    this.navigator = this.createNavigator(context);
 
     this.planner = new PlannerAgent({
       chatLLM: plannerLLM,
+      fallbackLLMs: extraArgs?.fallbackLLMs?.[AgentNameEnum.Planner],
       context: context,
       prompt: this.plannerPrompt,
     });
 
+    this.manager = this.generalSettings?.useManager
+      ? new ManagerAgent({
+          chatLLM: plannerLLM,
+          fallbackLLMs: extraArgs?.fallbackLLMs?.[AgentNameEnum.Planner],
+          context: context,
+          prompt: new ManagerPrompt(MAX_SUBTASKS),
+        })
+      : null;
+
+    // The validator only runs when a model is selected for it
+    this.validator = extraArgs?.validatorLLM
+      ? new ValidatorAgent({
+          chatLLM: extraArgs.validatorLLM,
+          fallbackLLMs: extraArgs.fallbackLLMs?.[AgentNameEnum.Validator],
+          context: context,
+          prompt: new ValidatorPrompt(),
+        })
+      : null;
+
+    // Summaries do not need a strong model, the navigator model is used when no compactor model is selected
+    this.compactor = this.generalSettings?.compactHistory
+      ? new CompactorAgent({
+          chatLLM: extraArgs?.compactorLLM ?? navigatorLLM,
+          fallbackLLMs: extraArgs?.fallbackLLMs?.[AgentNameEnum.Compactor],
+          context: context,
+          prompt: new CompactionPrompt(),
+        })
+      : null;
+
     this.context = context;
     // Initialize message history
-    this.context.messageManager.initTaskMessages(this.navigatorPrompt.getSystemMessage(), task);
+    this.context.messageManager.initTaskMessages(
+      this.navigatorPrompt.getSystemMessage(),
+      task,
+      [describeAnswerSchema(context.options.answerSchema), describeAttachments(extraArgs?.attachments ?? [])]
+        .filter(Boolean)
+        .join('\n') || undefined,
+    );
+  }
+
+  /**
+   * Create a navigator with the enabled actions, bound to the browser context of the agent context
+   */
+  private createNavigator(context: AgentContext): NavigatorAgent {
+    const extractorLLM = this.extraArgs.extractorLLM ?? this.navigatorLLM;
+    const actionBuilder = new ActionBuilder(context, extractorLLM, this.extraArgs.checklistTemplates);
+    const defaultActions = actionBuilder.buildDefaultActions();
+    const customActions = buildCustomActions(
+      this.extraArgs.customActions?.actions ?? [],
+      context,
+      defaultActions.map(action => action.name()),
+    );
+    // Built-in actions can be switched off from the options page, but done is always kept
+    const disabledActions = this.extraArgs.customActions?.disabledActions ?? [];
+    const navigatorActionRegistry = new NavigatorActionRegistry(
+      [
+        ...defaultActions.filter(action => action.name() === 'done' || !disabledActions.includes(action.name())),
+        ...customActions,
+      ],
+      this.extraArgs.domainPolicies,
+    );
+
+    return new NavigatorAgent(navigatorActionRegistry, {
+      chatLLM: this.navigatorLLM,
+      fallbackLLMs: this.extraArgs.fallbackLLMs?.[AgentNameEnum.Navigator],
+      context: context,
+      prompt: this.navigatorPrompt,
+    });
   }
 
   subscribeExecutionEvents(callback: EventCallback): void {
@@ -127,9 +273,17 @@ export class Executor {
    */
   async execute(): Promise<void> {
     logger.info(`🚀 Executing task: ${this.tasks[this.tasks.length - 1]}`);
-    // reset the step counter
     const context = this.context;
-    context.nSteps = 0;
+    const restoredStep = this.restoredStep;
+    this.restoredStep = null;
+    // reset the step counter, unless the task continues from a checkpoint
+    if (restoredStep === null) {
+      context.nSteps = 0;
+      context.tokenUsage = [];
+      this.taskStartTime = Date.now();
+      this.budgetAcknowledged = false;
+    }
+    this.validatorFailures = 0;
     const allowedMaxSteps = this.context.options.maxSteps;
 
     try {
@@ -138,11 +292,24 @@ export class Executor {
       // Track task start
       void analytics.trackTaskStart(this.context.taskId);
 
-      let step = 0;
+      let step = restoredStep ?? 0;
       let latestPlanOutput: AgentOutput<PlannerOutput> | null = null;
       let navigatorDone = false;
 
-      for (step = 0; step < allowedMaxSteps; step++) {
+      // Only new tasks are split, follow-up tasks build on the state the previous task left behind.
+      // Subtasks open their own tabs, so a dry run plans the task as a whole, and their combined
+      // results are a list of texts, not an answer that matches a schema
+      const subtaskResults =
+        this.manager !== null &&
+        !context.options.dryRun &&
+        !context.options.answerSchema &&
+        this.tasks.length === 1 &&
+        restoredStep === null
+          ? await this.runSubtasks()
+          : null;
+      const delegated = subtaskResults !== null;
+
+      for (; !delegated && step < allowedMaxSteps; step++) {
         context.stepInfo = {
           stepNumber: context.nSteps,
           maxSteps: context.options.maxSteps,
@@ -153,14 +320,20 @@ export class Executor {
           break;
         }
 
+        await this.compactHistory();
+
         // Run planner periodically for guidance
         if (this.planner && (context.nSteps % context.options.planningInterval === 0 || navigatorDone)) {
           navigatorDone = false;
           latestPlanOutput = await this.runPlanner();
 
           // Check if task is complete after planner run
-          if (this.checkTaskCompletion(latestPlanOutput)) {
-            break;
+          if (latestPlanOutput && this.checkTaskCompletion(latestPlanOutput)) {
+            if (this.checkAnswerSchema() && (await this.runValidator(latestPlanOutput))) {
+              break;
+            }
+            // The final answer was rejected, the navigator continues with the reasons
+            latestPlanOutput = null;
           }
         }
 
@@ -171,10 +344,15 @@ export class Executor {
         if (navigatorDone) {
           logger.info('🔄 Navigator indicates completion - will be validated by next planner run');
         }
+
+        await this.storeCheckpoint(step + 1);
       }
 
       // Determine task completion status
-      const isCompleted = latestPlanOutput?.result?.done === true;
+      // A split task is completed when at least one subtask was
+      const isCompleted = delegated
+        ? !this.context.stopped && subtaskResults.some(result => result.done)
+        : latestPlanOutput?.result?.done === true;
 
       if (isCompleted) {
         // Emit final answer if available, otherwise use task ID
@@ -183,6 +361,16 @@ export class Executor {
 
         // Track task completion
         void analytics.trackTaskComplete(this.context.taskId);
+      } else if (delegated && !this.context.stopped) {
+        logger.error('❌ Task failed: No subtask was completed');
+        this.context.emitEvent(
+          Actors.SYSTEM,
+          ExecutionState.TASK_FAIL,
+          t('exec_task_fail', [this.context.finalAnswer ?? '']),
+        );
+
+        // Track task failure with the category of the merged reasons
+        void analytics.trackTaskFailed(this.context.taskId, analytics.categorizeError(this.context.finalAnswer ?? ''));
       } else if (step >= allowedMaxSteps) {
         logger.error('❌ Task failed: Max steps reached');
         this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_FAIL, t('exec_errors_maxStepsReached'));
@@ -206,6 +394,12 @@ export class Executor {
 
         // Track task cancellation
         void analytics.trackTaskCancelled(this.context.taskId);
+      } else if (error instanceof BudgetExceededError) {
+        logger.error(`❌ Task stopped: ${error.message}`);
+        this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_BUDGET_EXCEEDED, error.message);
+
+        // Track task failure with the budget category
+        void analytics.trackTaskFailed(this.context.taskId, analytics.categorizeError(error));
       } else {
         const errorMessage = error instanceof Error ? error.message : String(error);
         this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_FAIL, t('exec_task_fail', [errorMessage]));
@@ -218,17 +412,347 @@ export class Executor {
       if (import.meta.env.DEV) {
         logger.debug('Executor history', JSON.stringify(this.context.history, null, 2));
       }
-      // store the history only if replay is enabled
-      if (this.generalSettings?.replayHistoricalTasks) {
+      if (this.context.options.dryRun) {
+        this.emitDryRunPlan();
+      }
+      // store the history only if replay is enabled, the actions of a dry run were never performed
+      if (this.generalSettings?.replayHistoricalTasks && !this.context.options.dryRun) {
         const historyString = JSON.stringify(this.context.history);
         logger.info(`Executor history size: ${historyString.length}`);
         await chatHistoryStore.storeAgentStepHistory(this.context.taskId, this.tasks[0], historyString);
       } else {
         logger.info('Replay historical tasks is disabled, skipping history storage');
       }
+      // store the structured report if any action produced one
+      if (this.context.reportSections.length > 0 || this.context.reportTables.length > 0) {
+        try {
+          await chatHistoryStore.storeTaskReport(
+            this.context.taskId,
+            this.tasks[0],
+            this.context.reportSections,
+            this.context.reportTables,
+          );
+        } catch (error) {
+          logger.error('Failed to store task report:', error);
+        }
+      }
+      await this.storeTaskUsage();
+      // The task ended, there is nothing left to resume
+      await this.clearCheckpoint();
+    }
+  }
+
+  /**
+   * Store the state of the task after a completed step, so it can be resumed if the service worker is stopped
+   * @param step Number of steps the task has run
+   */
+  private async storeCheckpoint(step: number): Promise<void> {
+    const context = this.context;
+    // The checkpoint keeps the answer schema and step-through mode of the task but not dryRun: a dry run only previews
+    // its actions and is simply started again, while a resumed one could perform the actions it was meant to preview
+    if (context.stopped || context.options.dryRun) {
+      return;
+    }
+    try {
+      const page = await context.browserContext.getCurrentPage();
+      const checkpoint: TaskCheckpoint = {
+        tasks: this.tasks,
+        step,
+        nSteps: context.nSteps,
+        consecutiveFailures: context.consecutiveFailures,
+        actionResults: context.actionResults,
+        history: context.history,
+        messages: context.messageManager.toState(),
+        tokenUsage: context.tokenUsage,
+        reportSections: context.reportSections,
+        reportTables: context.reportTables,
+        downloadIds: context.downloadIds,
+        elapsed: Date.now() - this.taskStartTime,
+        budgetAcknowledged: this.budgetAcknowledged,
+        url: page.url(),
+        answerSchema: context.options.answerSchema,
+        stepThrough: context.options.stepThrough,
+      };
+      await chatHistoryStore.storeTaskCheckpoint(context.taskId, this.tasks[0], step, JSON.stringify(checkpoint));
+    } catch (error) {
+      logger.error('Failed to store task checkpoint:', error);
     }
   }
 
+  /**
+   * Show the transcript of the actions planned by a dry run
+   */
+  private emitDryRunPlan(): void {
+    const plan = this.context.dryRunPlan;
+    if (plan.length === 0) {
+      this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_PLAN, t('exec_dryRun_empty'));
+      return;
+    }
+    const lines = plan.map((action, i) => `${i + 1}. Step ${action.step + 1}: ${formatDryRunAction(action)}`);
+    this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_PLAN, t('exec_dryRun_plan', [lines.join('\n')]));
+  }
+
+  private async clearCheckpoint(): Promise<void> {
+    try {
+      await chatHistoryStore.clearTaskCheckpoint(this.context.taskId);
+    } catch (error) {
+      logger.error('Failed to clear task checkpoint:', error);
+    }
+  }
+
+  /**
+   * Restore the state of an interrupted task, the next call to execute continues after its last completed step
+   * @param state The serialized TaskCheckpoint
+   */
+  async restoreCheckpoint(state: string): Promise<void> {
+    const checkpoint = JSON.parse(state) as TaskCheckpoint;
+    const context = this.context;
+    this.tasks = checkpoint.tasks;
+    context.nSteps = checkpoint.nSteps;
+    context.consecutiveFailures = checkpoint.consecutiveFailures;
+    context.actionResults = checkpoint.actionResults.map(result => new ActionResult(result));
+    context.history = new AgentStepHistory(checkpoint.history.history);
+    context.messageManager.restoreState(checkpoint.messages);
+    context.tokenUsage = checkpoint.tokenUsage;
+    context.reportSections = checkpoint.reportSections;
+    context.reportTables = checkpoint.reportTables ?? [];
+    context.downloadIds = checkpoint.downloadIds ?? [];
+    this.taskStartTime = Date.now() - checkpoint.elapsed;
+    this.budgetAcknowledged = checkpoint.budgetAcknowledged;
+    this.restoredStep = checkpoint.step;
+
+    // Go back to the page the task was on, the tab it ran in may be gone
+    const page = await context.browserContext.getCurrentPage();
+    if (checkpoint.url && page.url() !== checkpoint.url) {
+      await context.browserContext.navigateTo(checkpoint.url);
+    }
+  }
+
+  /**
+   * Store the token usage of the current task with the chat session, adding to earlier tasks of the session
+   */
+  private async storeTaskUsage(): Promise<void> {
+    if (this.context.tokenUsage.length === 0) {
+      return;
+    }
+    try {
+      await chatHistoryStore.storeTaskUsage(this.context.taskId, this.tasks[0], this.context.tokenUsage);
+    } catch (error) {
+      logger.error('Failed to store token usage:', error);
+    }
+  }
+
+  /**
+   * Let the manager split the task into independent subtasks and run them in parallel, each in its own tab.
+   * @returns The results of the subtasks that ran, null when the task was not split.
+   * The final answer is set to the merged results
+   */
+  private async runSubtasks(): Promise<SubtaskResult[] | null> {
+    if (!this.manager) {
+      return null;
+    }
+    this.manager.setTask(this.tasks[0]);
+    const managerOutput = await this.manager.execute();
+    const subtasks = managerOutput.result?.subtasks ?? [];
+    if (subtasks.length < 2) {
+      return null;
+    }
+
+    const results: SubtaskResult[] = new Array(subtasks.length);
+    let next = 0;
+    // Each worker takes the next subtask until none are left
+    const worker = async () => {
+      while (next < subtasks.length && !this.context.stopped) {
+        const index = next++;
+        results[index] = await this.runSubtask(subtasks[index], index, subtasks.length);
+      }
+    };
+    const parallel = Math.max(1, Math.min(this.generalSettings?.maxParallelSubtasks ?? 3, subtasks.length));
+    try {
+      await Promise.all(Array.from({ length: parallel }, worker));
+    } catch (error) {
+      // Stop the other subtasks when one fails the whole task, e.g. on a budget or authentication error
+      for (const context of this.subtaskContexts) {
+        await context.stop();
+      }
+      throw error;
+    }
+
+    const completed = results.filter(Boolean);
+    this.context.finalAnswer = completed
+      .map((item, i) => `${i + 1}. ${item.subtask.task}\n${item.done ? item.result : `Not completed: ${item.result}`}`)
+      .join('\n\n');
+    return completed;
+  }
+
+  /**
+   * Run a subtask with its own navigator in a new background tab
+   */
+  private async runSubtask(subtask: Subtask, index: number, total: number): Promise<SubtaskResult> {
+    const browserContext = new BrowserContext(this.context.browserContext.getConfig());
+    const context = new AgentContext(
+      this.context.taskId,
+      browserContext,
+      new MessageManager(
+        new MessageManagerSettings({
+          maxInputTokens: this.context.options.maxInputTokens,
+          tokenizer: this.extraArgs.tokenizer,
+        }),
+      ),
+      this.context.eventManager,
+      this.context.options,
+      this.context.modelPrices,
+    );
+    // Share usage and the report with the task, so budgets and the report cover every subtask
+    context.tokenUsage = this.context.tokenUsage;
+    context.reportSections = this.context.reportSections;
+    context.reportTables = this.context.reportTables;
+    context.downloadIds = this.context.downloadIds;
+    this.subtaskContexts.push(context);
+
+    const label = `Subtask ${index + 1}/${total}`;
+    this.context.emitEvent(Actors.MANAGER, ExecutionState.STEP_START, `${label}: ${subtask.task}`);
+    let tabId: number | null = null;
+    try {
+      tabId = (await browserContext.openTab(subtask.url, false)).tabId;
+      context.messageManager.initTaskMessages(this.navigatorPrompt.getSystemMessage(), subtask.task);
+      const navigator = this.createNavigator(context);
+
+      while (context.nSteps < context.options.maxSteps) {
+        context.stepInfo = {
+          stepNumber: context.nSteps,
+          maxSteps: context.options.maxSteps,
+        };
+        if (context.stopped || (await this.shouldStop())) {
+          break;
+        }
+
+        const navOutput = await navigator.execute();
+        context.nSteps++;
+        if (navOutput.error) {
+          context.consecutiveFailures++;
+          if (context.consecutiveFailures >= context.options.maxFailures) {
+            throw new MaxFailuresReachedError(t('exec_errors_maxFailuresReached'));
+          }
+          continue;
+        }
+        context.consecutiveFailures = 0;
+        if (navOutput.result?.done) {
+          const result = context.actionResults.find(actionResult => actionResult.isDone)?.extractedContent ?? '';
+          this.context.emitEvent(Actors.MANAGER, ExecutionState.STEP_OK, `${label} done: ${result}`);
+          return { subtask, done: true, result };
+        }
+      }
+      const reason = context.stopped ? t('exec_task_cancel') : t('exec_errors_maxStepsReached');
+      return { subtask, done: false, result: reason };
+    } catch (error) {
+      if (
+        error instanceof ChatModelAuthError ||
+        error instanceof ChatModelBadRequestError ||
+        error instanceof ChatModelForbiddenError ||
+        error instanceof RequestCancelledError ||
+        error instanceof ExtensionConflictError ||
+        error instanceof BudgetExceededError
+      ) {
+        throw error;
+      }
+      // Other failures, e.g. a blocked URL, only fail this subtask
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.context.emitEvent(Actors.MANAGER, ExecutionState.STEP_FAIL, `${label} failed: ${errorMessage}`);
+      return { subtask, done: false, result: errorMessage };
+    } finally {
+      this.subtaskContexts = this.subtaskContexts.filter(item => item !== context);
+      await browserContext.cleanup();
+      // The tab was opened for the subtask only, its results are kept in the report and the final answer
+      if (tabId !== null) {
+        try {
+          await browserContext.closeTab(tabId);
+        } catch (error) {
+          logger.warning(`Failed to close the tab of ${label}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Let the validator check the final answer of the planner against the page and the collected action results
+   * @returns Whether the final answer was accepted
+   */
+  private async runValidator(planOutput: AgentOutput<PlannerOutput>): Promise<boolean> {
+    // Answers that did not need the web have no observed content to be checked against,
+    // and a dry run answers with a plan, not with what it observed
+    if (!this.validator || !planOutput.result?.web_task || this.context.options.dryRun) {
+      return true;
+    }
+    const context = this.context;
+
+    this.validator.setTask(this.tasks[this.tasks.length - 1], context.finalAnswer ?? '');
+    const validatorOutput = await this.validator.execute();
+    if (!validatorOutput.result) {
+      // A validator that can not answer does not hold back the final answer
+      logger.warning(`Validator failed, accepting the final answer: ${validatorOutput.error}`);
+      return true;
+    }
+    if (validatorOutput.result.is_valid) {
+      // A rewritten answer would have to be checked against the answer schema again
+      if (validatorOutput.result.answer && !context.options.answerSchema) {
+        context.finalAnswer = validatorOutput.result.answer;
+      }
+      return true;
+    }
+
+    const reason = validatorOutput.result.reason.replace(/\s+/g, ' ').trim();
+    this.rejectFinalAnswer(
+      t('exec_errors_maxValidatorFailuresReached', [reason]),
+      `The final answer was rejected by the validator: ${reason}. Continue the task.`,
+    );
+    return false;
+  }
+
+  /**
+   * Check the final answer of the planner against the answer schema of the task
+   * @returns Whether the final answer matches the schema, or the task has no schema
+   */
+  private checkAnswerSchema(): boolean {
+    const context = this.context;
+    const schema = context.options.answerSchema;
+    if (!schema || context.options.dryRun) {
+      return true;
+    }
+
+    const result = validateJsonText(schema, context.finalAnswer ?? '');
+    if (result.success) {
+      // Drop the code fences and spacing of the model, the side panel shows the JSON as a table
+      context.finalAnswer = JSON.stringify(result.data);
+      return true;
+    }
+
+    const errors = result.errors.join('; ');
+    logger.info(`Final answer does not match the answer schema: ${errors}`);
+    this.rejectFinalAnswer(
+      t('exec_errors_maxAnswerSchemaFailuresReached', [errors]),
+      `The final answer does not match the answer schema: ${errors}. Answer again with JSON that matches the schema, collect missing values first if needed.`,
+    );
+    return false;
+  }
+
+  /**
+   * Count a rejected final answer and tell the agents why it was rejected
+   * @param failureMessage - Error of the task when too many final answers were rejected
+   * @param reasonMessage - Message added to the history for the next steps
+   */
+  private rejectFinalAnswer(failureMessage: string, reasonMessage: string): void {
+    const context = this.context;
+    context.finalAnswer = null;
+    this.validatorFailures++;
+    if (this.validatorFailures >= context.options.maxValidatorFailures) {
+      throw new MaxFailuresReachedError(failureMessage);
+    }
+    // Keep the reasons before the state message, which is replaced after the next navigator step
+    const position = context.stateMessageAdded ? context.messageManager.length() - 1 : undefined;
+    context.messageManager.addMessageWithTokens(new HumanMessage(reasonMessage), null, position);
+  }
+
   /**
    * Helper method to run planner and store its output
    */
@@ -313,12 +837,59 @@ export class Executor {
     return false;
   }
 
+  /**
+   * Summarize the older steps into a progress memo once the history goes over its token budget.
+   * If the summary fails the history is left as it is.
+   */
+  private async compactHistory(): Promise<void> {
+    const compactor = this.compactor;
+    const messageManager = this.context.messageManager;
+    if (!compactor || !messageManager.needsCompaction()) {
+      return;
+    }
+
+    try {
+      const compacted = await messageManager.compactHistory(async messages => {
+        compactor.setMessages(messages);
+        const output = await compactor.execute();
+        if (!output.result) {
+          throw new Error(output.error ?? 'No progress memo');
+        }
+        return output.result.memo;
+      });
+      if (compacted > 0) {
+        this.context.emitEvent(
+          Actors.SYSTEM,
+          ExecutionState.TASK_COMPACT,
+          t('exec_history_compacted', [String(compacted)]),
+        );
+      }
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      logger.warning('Failed to compact the task history', error);
+    }
+  }
+
   private async shouldStop(): Promise<boolean> {
     if (this.context.stopped) {
       logger.info('Agent stopped');
       return true;
     }
 
+    const budgetError = this.budgetAcknowledged ? null : this.checkBudget();
+    if (budgetError) {
+      if (this.generalSettings?.budgetAction !== 'pause') {
+        throw budgetError;
+      }
+      // Resuming means the user accepts going over the budget for the rest of the task
+      logger.info(`Pausing task: ${budgetError.message}`);
+      this.budgetAcknowledged = true;
+      this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_PAUSE, t('exec_budget_paused', [budgetError.message]));
+      await this.context.pause();
+    }
+
     while (this.context.paused) {
       await new Promise(resolve => setTimeout(resolve, 200));
       if (this.context.stopped) {
@@ -334,8 +905,48 @@ export class Executor {
     return false;
   }
 
+  /**
+   * Check the token, cost and wall-clock budgets of the task set in the general settings
+   * @returns The error for the first limit that was reached, or null if the task is within its budget
+   */
+  private checkBudget(): BudgetExceededError | null {
+    const settings = this.generalSettings;
+    if (!settings) {
+      return null;
+    }
+
+    const usage = summarizeTokenUsage(this.context.tokenUsage);
+    const tokens = usage.inputTokens + usage.outputTokens;
+    if (settings.maxTokens > 0 && tokens >= settings.maxTokens) {
+      return new BudgetExceededError(
+        t('exec_errors_tokenBudgetReached', [tokens.toLocaleString(), settings.maxTokens.toLocaleString()]),
+        'tokens',
+      );
+    }
+
+    if (settings.maxCost > 0 && usage.cost !== null && usage.cost >= settings.maxCost) {
+      return new BudgetExceededError(
+        t('exec_errors_costBudgetReached', [`$${usage.cost.toFixed(4)}`, `$${settings.maxCost}`]),
+        'cost',
+      );
+    }
+
+    const minutes = (Date.now() - this.taskStartTime) / 60000;
+    if (settings.maxDuration > 0 && minutes >= settings.maxDuration) {
+      return new BudgetExceededError(
+        t('exec_errors_timeBudgetReached', [minutes.toFixed(1), String(settings.maxDuration)]),
+        'duration',
+      );
+    }
+
+    return null;
+  }
+
   async cancel(): Promise<void> {
     this.context.stop();
+    for (const context of this.subtaskContexts) {
+      context.stop();
+    }
   }
 
   async resume(): Promise<void> {
@@ -346,6 +957,25 @@ export class Executor {
     this.context.pause();
   }
 
+  /**
+   * Answers the navigator step waiting for the user's review in debug mode
+   * @param id Id of the step review request
+   * @param decision The user's decision
+   */
+  resolveStepReview(id: string, decision: StepReviewDecision): boolean {
+    return [this.context, ...this.subtaskContexts].some(context => context.resolveStepReview(id, decision));
+  }
+
+  /**
+   * Answers the action waiting for the user's approval
+   * @param id Id of the approval request
+   * @param decision The user's decision
+   */
+  resolveApproval(id: string, decision: ApprovalDecision): boolean {
+    // Subtasks ask for approval through their own context
+    return [this.context, ...this.subtaskContexts].some(context => context.resolveApproval(id, decision));
+  }
+
   async cleanup(): Promise<void> {
     try {
       await this.context.browserContext.cleanup();
@@ -431,4 +1061,135 @@ export class Executor {
 
     return results;
   }
+
+  /**
+   * Replay a recorded workflow step by step. Elements are re-located on the current page for every step,
+   * and the navigator LLM only takes over a step when its element can not be found.
+   * @param history The serialized AgentStepHistory of the workflow, with its parameter values applied
+   * @param maxRetries Attempts per step before falling back to the LLM
+   * @param delayBetweenActions Delay between steps in seconds
+   */
+  async replayWorkflow(history: string, maxRetries = 3, delayBetweenActions = 2.0): Promise<ActionResult[]> {
+    const results: ActionResult[] = [];
+    const replayLogger = createLogger('Executor:replayWorkflow');
+    this.context.tokenUsage = [];
+
+    try {
+      const steps = (JSON.parse(history) as AgentStepHistory).history;
+      if (steps.length === 0) {
+        throw new Error(t('exec_replay_historyEmpty'));
+      }
+      this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_START, this.context.taskId);
+
+      for (let i = 0; i < steps.length; i++) {
+        if (this.context.stopped) {
+          break;
+        }
+
+        try {
+          const stepResults = await this.navigator.executeHistoryStep(
+            steps[i],
+            i,
+            steps.length,
+            maxRetries,
+            delayBetweenActions * 1000,
+            false,
+          );
+          results.push(...stepResults);
+        } catch (error) {
+          // Only a step whose element moved out of reach is handed to the LLM, any other failure ends the replay
+          if (!(error instanceof ElementNotFoundError)) {
+            throw error;
+          }
+          replayLogger.warning(`Step ${i + 1} could not be replayed, falling back to the LLM:`, error);
+          const fallbackResults = await this.replayStepWithLLM(steps[i], i);
+          if (!fallbackResults) {
+            throw error;
+          }
+          if (isReplayEndedEarly(fallbackResults, i, steps.length)) {
+            throw new Error(t('exec_replay_diverged', [String(i + 1), String(steps.length)]));
+          }
+          results.push(...fallbackResults);
+        }
+      }
+
+      if (this.context.stopped) {
+        this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_CANCEL, t('exec_replay_cancel'));
+      } else {
+        const doneResult = results.find(result => result.isDone);
+        this.context.emitEvent(
+          Actors.SYSTEM,
+          ExecutionState.TASK_OK,
+          doneResult?.extractedContent || t('exec_replay_ok'),
+        );
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      replayLogger.error(`Workflow replay failed: ${errorMessage}`);
+      this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_FAIL, t('exec_replay_fail', [errorMessage]));
+    } finally {
+      // Steps the navigator had to take over used the LLM
+      await this.storeTaskUsage();
+    }
+
+    return results;
+  }
+
+  /**
+   * Let the navigator perform a single recorded step whose element could not be re-located
+   * @returns The results of the actions the navigator took, or null if it did not complete the step
+   */
+  private async replayStepWithLLM(historyItem: AgentStepRecord, stepIndex: number): Promise<ActionResult[] | null> {
+    let goal = '';
+    let actions = '';
+    try {
+      const modelOutput = JSON.parse(historyItem.modelOutput ?? '{}');
+      goal = modelOutput?.current_state?.next_goal ?? '';
+      actions = JSON.stringify(modelOutput?.action ?? []);
+    } catch {
+      return null;
+    }
+
+    this.context.messageManager.addNewTask(
+      `While replaying a recorded workflow, the element for step ${stepIndex + 1} could not be found on the page. ` +
+        `Perform only this step on the current page, then stop. Goal: ${goal}. Recorded actions: ${actions}`,
+    );
+    const failures = this.context.consecutiveFailures;
+    const steps = this.context.nSteps;
+    await this.navigate();
+    // A stopped replay is cancelled and not failed, the caller checks for it after the step
+    if (this.context.stopped) {
+      return [];
+    }
+    if (this.context.nSteps === steps || this.context.consecutiveFailures > failures) {
+      return null;
+    }
+    return this.context.actionResults;
+  }
+}
+
+/**
+ * Describe the files attached by the user to the agents, as context of the task
+ * @param attachments - The attached files, without their content
+ */
+function describeAttachments(attachments: FileAttachmentInfo[]): string | undefined {
+  if (attachments.length === 0) {
+    return undefined;
+  }
+  const files = attachments.map(file => `${file.name} (${file.mime}, ${formatBytes(file.size)})`);
+  return `Files attached by the user, which the upload_file action can upload by name: ${files.join(', ')}.`;
+}
+
+/**
+ * Describe the answer schema of a task to the agents, as context of the task
+ * @param schema - The JSON schema of the final answer, null when the answer is free text
+ */
+function describeAnswerSchema(schema: JsonSchemaObject | null): string | undefined {
+  if (!schema) {
+    return undefined;
+  }
+  return (
+    'The final answer must be JSON, without any other text, that matches this JSON schema: ' +
+    `${JSON.stringify(schema)}. Use this JSON as the text of the done action and as the final answer.`
+  );
 }
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { AIMessage, HumanMessage, SystemMessage, ToolMessage } from '@langchain/core/messages';
+import MessageManager, { MessageManagerSettings } from '../service';
+
+describe('MessageManager state', () => {
+  it('restores the history and tool ids from a serialized state', () => {
+    const manager = new MessageManager();
+    manager.initTaskMessages(new SystemMessage('You are a browser agent'), 'Find the opening hours');
+    manager.addModelOutput({ current_state: { next_goal: 'Open the page' }, action: [] });
+    manager.addStateMessage(new HumanMessage('Current page: https://example.com'));
+
+    const state = JSON.parse(JSON.stringify(manager.toState()));
+    const restored = new MessageManager();
+    restored.restoreState(state);
+
+    const messages = restored.getMessages();
+    expect(messages.map(message => message.constructor)).toEqual(
+      manager.getMessages().map(message => message.constructor),
+    );
+    expect(messages[0]).toBeInstanceOf(SystemMessage);
+    expect(messages.at(-1)?.content).toBe('Current page: https://example.com');
+
+    const modelOutput = messages.filter((message): message is AIMessage => message instanceof AIMessage).at(-1);
+    expect(modelOutput?.tool_calls?.[0].args).toEqual({ current_state: { next_goal: 'Open the page' }, action: [] });
+    const toolMessage = messages.filter((message): message is ToolMessage => message instanceof ToolMessage).at(-1);
+    expect(toolMessage?.tool_call_id).toBe(modelOutput?.tool_calls?.[0].id);
+
+    // The state message is still recognised as one and new tool calls continue the numbering
+    restored.removeLastStateMessage();
+    expect(restored.length()).toBe(manager.length() - 1);
+    expect(restored.nextToolId()).toBe(manager.nextToolId());
+  });
+});
+
+describe('MessageManager compaction', () => {
+  it('replaces older steps with a progress memo and pins action results word for word', async () => {
+    const manager = new MessageManager(new MessageManagerSettings({ maxInputTokens: 2000 }));
+    manager.initTaskMessages(new SystemMessage('You are a browser agent'), 'Check the patient folders');
+    for (let i = 1; i <= 8; i++) {
+      manager.addModelOutput({ current_state: { next_goal: `Open folder ${i} ${'x'.repeat(300)}` }, action: [] });
+      manager.addMessageWithTokens(new HumanMessage(`Action result: Folder ${i} is missing the consent form`));
+    }
+    expect(manager.needsCompaction()).toBe(true);
+
+    const before = manager.getMessages();
+    let summarized: string[] = [];
+    const compacted = await manager.compactHistory(async messages => {
+      summarized = messages.map(message => String(message.content));
+      return '- Checked the first folders';
+    });
+
+    const messages = manager.getMessages();
+    expect(compacted).toBe(summarized.length);
+    expect(messages.length).toBe(before.length - compacted + 1);
+    const memo = messages.find(message => String(message.content).startsWith('[Progress memo'));
+    expect(memo?.content).toContain('- Checked the first folders');
+    expect(memo?.content).toContain('1. Folder 1 is missing the consent form');
+    // The recent steps are kept as they are and the task instructions are never compacted
+    expect(messages.at(-1)?.content).toBe('Action result: Folder 8 is missing the consent form');
+    expect(summarized.some(content => content.includes('Check the patient folders'))).toBe(false);
+    // Every tool call is still followed by its tool message
+    messages.forEach((message, i) => {
+      if (message instanceof AIMessage && message.tool_calls?.length) {
+        expect(messages[i + 1]).toBeInstanceOf(ToolMessage);
+      }
+    });
+  });
+});
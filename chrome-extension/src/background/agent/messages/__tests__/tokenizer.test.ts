@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { HumanMessage } from '@langchain/core/messages';
+import { ProviderTypeEnum } from '@extension/storage';
+import { countImageTokens, countMessageTokens, getImageSize, getTokenizer } from '../tokenizer';
+
+// Data URL of a PNG with only the signature and the header chunk, enough to read its size
+const pngDataUrl = (width: number, height: number) => {
+  const header = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return `data:image/png;base64,${header.toString('base64')}`;
+};
+
+describe('tokenizer', () => {
+  it('counts image tokens with the formula of the provider', () => {
+    const size = getImageSize(pngDataUrl(1280, 800));
+    expect(size).toEqual({ width: 1280, height: 800 });
+
+    // Scaled to 1229x768, 3x2 tiles
+    expect(countImageTokens('openai', size)).toBe(85 + 170 * 6);
+    expect(countImageTokens('openai', size, 'low')).toBe(85);
+    expect(countImageTokens('anthropic', size)).toBe(Math.ceil((1280 * 800) / 750));
+    expect(countImageTokens('gemini', size)).toBe(258 * 2 * 2);
+    expect(countImageTokens('gemini', { width: 300, height: 200 })).toBe(258);
+    expect(countImageTokens('anthropic', null)).toBe(800);
+  });
+
+  it('estimates the tokens of models without a local encoding', async () => {
+    const claude = await getTokenizer('claude-sonnet-4-20250514', ProviderTypeEnum.Anthropic);
+    const llama = await getTokenizer('llama3.1:8b', ProviderTypeEnum.Ollama);
+    const text = 'a'.repeat(280);
+
+    expect(claude.countText(text)).toBe(100);
+    expect(llama.countText(text)).toBe(88);
+    // CJK characters are a token each
+    expect(claude.countText('營業時間')).toBe(4);
+
+    const message = new HumanMessage({
+      content: [
+        { type: 'text', text },
+        { type: 'image_url', image_url: { url: pngDataUrl(1280, 800) } },
+      ],
+    });
+    expect(countMessageTokens(claude, message)).toBe(100 + Math.ceil((1280 * 800) / 750));
+  });
+
+  it('counts the tokens of OpenAI models with the bundled encoding', async () => {
+    const gpt4o = await getTokenizer('gpt-4o-mini', ProviderTypeEnum.OpenAI);
+    const gpt4 = await getTokenizer('openai/gpt-4-turbo', ProviderTypeEnum.OpenRouter);
+
+    expect(gpt4o.name).toBe('o200k_base');
+    expect(gpt4.name).toBe('cl100k_base');
+    expect(gpt4o.countText('hello world')).toBe(2);
+    expect(gpt4.countText('hello world')).toBe(2);
+    // Special tokens in page text are counted as plain text
+    expect(gpt4o.countText('<|endoftext|>')).toBeGreaterThan(1);
+  });
+});
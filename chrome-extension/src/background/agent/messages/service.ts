@@ -1,14 +1,34 @@
-import { type BaseMessage, AIMessage, HumanMessage, type SystemMessage, ToolMessage } from '@langchain/core/messages';
+import {
+  type BaseMessage,
+  type StoredMessage,
+  AIMessage,
+  HumanMessage,
+  type SystemMessage,
+  ToolMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+} from '@langchain/core/messages';
 import { MessageHistory, MessageMetadata } from '@src/background/agent/messages/views';
 import { createLogger } from '@src/background/log';
 import { filterExternalContent, wrapUserRequest } from '@src/background/agent/messages/utils';
+import { countMessageTokens, DEFAULT_TOKENIZER, type Tokenizer } from '@src/background/agent/messages/tokenizer';
 
 const logger = createLogger('MessageManager');
 
+const HISTORY_START_MESSAGE = '[Your task history memory starts here]';
+// Type of the message that holds the progress memo of the compacted steps
+const MEMO_MESSAGE_TYPE = 'memo';
+// Results of actions kept in memory, e.g. cache_content, are pinned word for word when the history is compacted
+const ACTION_RESULT_PREFIX = 'Action result: ';
+// Share of maxInputTokens the history may use before it is compacted, the rest is left for the state message
+const COMPACTION_THRESHOLD = 0.7;
+// Most recent messages that are never compacted, about the last three steps
+const KEEP_RECENT_MESSAGES = 10;
+
 export class MessageManagerSettings {
   maxInputTokens = 128000;
-  estimatedCharactersPerToken = 3;
-  imageTokens = 800;
+  // Tokenizer of the model the history is sent to
+  tokenizer: Tokenizer = DEFAULT_TOKENIZER;
   includeAttributes: string[] = [];
   messageContext?: string;
   sensitiveData?: Record<string, string>;
@@ -17,8 +37,7 @@ export class MessageManagerSettings {
   constructor(
     options: {
       maxInputTokens?: number;
-      estimatedCharactersPerToken?: number;
-      imageTokens?: number;
+      tokenizer?: Tokenizer;
       includeAttributes?: string[];
       messageContext?: string;
       sensitiveData?: Record<string, string>;
@@ -26,9 +45,7 @@ export class MessageManagerSettings {
     } = {},
   ) {
     if (options.maxInputTokens !== undefined) this.maxInputTokens = options.maxInputTokens;
-    if (options.estimatedCharactersPerToken !== undefined)
-      this.estimatedCharactersPerToken = options.estimatedCharactersPerToken;
-    if (options.imageTokens !== undefined) this.imageTokens = options.imageTokens;
+    if (options.tokenizer !== undefined) this.tokenizer = options.tokenizer;
     if (options.includeAttributes !== undefined) this.includeAttributes = options.includeAttributes;
     if (options.messageContext !== undefined) this.messageContext = options.messageContext;
     if (options.sensitiveData !== undefined) this.sensitiveData = options.sensitiveData;
@@ -36,10 +53,20 @@ export class MessageManagerSettings {
   }
 }
 
+// Serializable state of the message manager, stored in task checkpoints
+export interface MessageManagerState {
+  messages: StoredMessage[];
+  metadata: MessageMetadata[];
+  toolId: number;
+  pinnedFindings?: string[];
+}
+
 export default class MessageManager {
   private history: MessageHistory;
   private toolId: number;
   private settings: MessageManagerSettings;
+  // Action results of the compacted steps, repeated word for word in every progress memo
+  private pinnedFindings: string[] = [];
 
   constructor(settings: MessageManagerSettings = new MessageManagerSettings()) {
     this.settings = settings;
@@ -114,7 +141,7 @@ export default class MessageManager {
 
     // Add history start marker
     const historyStartMessage = new HumanMessage({
-      content: '[Your task history memory starts here]',
+      content: HISTORY_START_MESSAGE,
     });
     this.addMessageWithTokens(historyStartMessage);
 
@@ -127,6 +154,34 @@ export default class MessageManager {
     }
   }
 
+  /**
+   * Serialize the message history so the task can be restored after the service worker restarts
+   * @returns The messages with their metadata and the next tool call id
+   */
+  public toState(): MessageManagerState {
+    return {
+      messages: mapChatMessagesToStoredMessages(this.history.messages.map(m => m.message)),
+      metadata: this.history.messages.map(m => m.metadata),
+      toolId: this.toolId,
+      pinnedFindings: [...this.pinnedFindings],
+    };
+  }
+
+  /**
+   * Replace the message history with a serialized one
+   * @param state - The state returned by toState
+   */
+  public restoreState(state: MessageManagerState): void {
+    const messages = mapStoredMessagesToChatMessages(state.messages);
+    this.history = new MessageHistory();
+    messages.forEach((message, i) => {
+      const metadata = state.metadata[i];
+      this.history.addMessage(message, new MessageMetadata(metadata?.tokens ?? 0, metadata?.message_type));
+    });
+    this.toolId = state.toolId;
+    this.pinnedFindings = [...(state.pinnedFindings ?? [])];
+  }
+
   public nextToolId(): number {
     const id = this.toolId;
     this.toolId += 1;
@@ -304,36 +359,7 @@ export default class MessageManager {
    * @returns The number of tokens in the message
    */
   private _countTokens(message: BaseMessage): number {
-    let tokens = 0;
-
-    if (Array.isArray(message.content)) {
-      for (const item of message.content) {
-        if ('image_url' in item) {
-          tokens += this.settings.imageTokens;
-        } else if (typeof item === 'object' && 'text' in item) {
-          tokens += this._countTextTokens(item.text);
-        }
-      }
-    } else {
-      let msg = message.content;
-      // Check if it's an AIMessage with tool_calls
-      if ('tool_calls' in message) {
-        msg += JSON.stringify(message.tool_calls);
-      }
-      tokens += this._countTextTokens(msg);
-    }
-
-    return tokens;
-  }
-
-  /**
-   * Counts the tokens in the text
-   * Rough estimate, no tokenizer provided for now
-   * @param text - The text to count the tokens
-   * @returns The number of tokens in the text
-   */
-  private _countTextTokens(text: string): number {
-    return Math.floor(text.length / this.settings.estimatedCharactersPerToken);
+    return countMessageTokens(this.settings.tokenizer, message);
   }
 
   /**
@@ -352,11 +378,13 @@ export default class MessageManager {
       let text = '';
       lastMsg.message.content = lastMsg.message.content.filter(item => {
         if ('image_url' in item) {
-          diff -= this.settings.imageTokens;
-          lastMsg.metadata.tokens -= this.settings.imageTokens;
-          this.history.totalTokens -= this.settings.imageTokens;
+          const image = typeof item.image_url === 'string' ? { url: item.image_url } : item.image_url;
+          const imageTokens = this.settings.tokenizer.countImage(image.url, image.detail);
+          diff -= imageTokens;
+          lastMsg.metadata.tokens -= imageTokens;
+          this.history.totalTokens -= imageTokens;
           logger.debug(
-            `Removed image with ${this.settings.imageTokens} tokens - total tokens now: ${this.history.totalTokens}/${this.settings.maxInputTokens}`,
+            `Removed image with ${imageTokens} tokens - total tokens now: ${this.history.totalTokens}/${this.settings.maxInputTokens}`,
           );
           return false;
         }
@@ -400,6 +428,65 @@ export default class MessageManager {
     );
   }
 
+  /**
+   * Whether the history has grown over its share of the input token budget and should be compacted
+   */
+  public needsCompaction(): boolean {
+    return this.history.totalTokens > this.settings.maxInputTokens * COMPACTION_THRESHOLD;
+  }
+
+  /**
+   * Replaces the older steps of the history with a progress memo. The initial messages and the most recent
+   * steps are kept, and the action results of the compacted steps are pinned word for word in the memo.
+   * @param summarize - Summarizes the compacted messages, the previous memo included
+   * @returns The number of messages that were compacted, 0 if there was nothing to compact
+   */
+  public async compactHistory(summarize: (messages: BaseMessage[]) => Promise<string>): Promise<number> {
+    const messages = this.history.messages;
+    const markerIndex = messages.findIndex(m => m.message.content === HISTORY_START_MESSAGE);
+    let start = markerIndex + 1;
+    // Skip the initial messages added after the marker, e.g. the file paths
+    while (start < messages.length && messages[start].metadata.message_type === 'init') {
+      start++;
+    }
+    // Never separate a tool call from its tool message
+    let end = messages.length - KEEP_RECENT_MESSAGES;
+    while (end > start && messages[end].message instanceof ToolMessage) {
+      end--;
+    }
+    // A lone memo has nothing left to compact
+    if (markerIndex === -1 || end - start < 2) {
+      return 0;
+    }
+
+    const compacted = messages.slice(start, end);
+    const summary = await summarize(compacted.map(m => m.message));
+    const findings = compacted
+      .filter(m => m.message instanceof HumanMessage && typeof m.message.content === 'string')
+      .map(m => m.message.content as string)
+      .filter(content => content.startsWith(ACTION_RESULT_PREFIX))
+      .map(content => content.slice(ACTION_RESULT_PREFIX.length));
+    this.pinnedFindings.push(...findings);
+
+    for (let i = end - 1; i >= start; i--) {
+      this.history.removeMessage(i);
+    }
+    this.addMessageWithTokens(new HumanMessage(this.buildProgressMemo(summary)), MEMO_MESSAGE_TYPE, start);
+    logger.info(
+      `Compacted ${compacted.length} messages into a progress memo - total tokens now: ${this.history.totalTokens}/${this.settings.maxInputTokens}`,
+    );
+    return compacted.length;
+  }
+
+  private buildProgressMemo(summary: string): string {
+    let memo = `[Progress memo of the earlier steps]\n${summary.trim()}`;
+    if (this.pinnedFindings.length > 0) {
+      const findings = this.pinnedFindings.map((finding, i) => `${i + 1}. ${finding}`).join('\n');
+      memo += `\n[Findings of the earlier steps, word for word]\n${findings}`;
+    }
+    return `${memo}\n[End of progress memo]`;
+  }
+
   /**
    * Adds a tool message to the history
    * @param content - The content of the tool message
@@ -0,0 +1,254 @@
+import type { BaseMessage } from '@langchain/core/messages';
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+import { ProviderTypeEnum } from '@extension/storage';
+
+// Encodings of the OpenAI models, the ranks are bundled with the extension so counting works offline
+type BpeEncoding = 'o200k_base' | 'cl100k_base';
+const BPE_RANKS: Record<BpeEncoding, TiktokenBPE> = { o200k_base, cl100k_base };
+// Providers with a known formula for the tokens of an image
+export type ImageTokenFormula = 'openai' | 'anthropic' | 'gemini' | 'fixed';
+
+// Tokens of an image when its size or the provider formula is unknown
+const DEFAULT_IMAGE_TOKENS = 800;
+// Only the head of a data URL is decoded to read the image size, the size is stored before the image data
+const IMAGE_HEADER_BASE64_LENGTH = 65536;
+// CJK characters are about one token each with every tokenizer
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+export interface Tokenizer {
+  // Name of the encoding or estimator, for logs
+  readonly name: string;
+  countText(text: string): number;
+  countImage(url: string, detail?: string): number;
+}
+
+interface TokenizerProfile {
+  name: string;
+  // Characters per token of the element lists, JSON and prose the agents send, approximate for estimators
+  charactersPerToken: number;
+  images: ImageTokenFormula;
+  encoding?: BpeEncoding;
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads the size of a base64 JPEG or PNG data URL from its header
+ * @param url - The data URL of the image
+ * @returns The size in pixels, null for other URLs or formats
+ */
+export function getImageSize(url: string): ImageSize | null {
+  const match = /^data:image\/(jpeg|jpg|png);base64,/.exec(url);
+  if (!match) {
+    return null;
+  }
+  let bytes: Uint8Array;
+  try {
+    const head = url.slice(match[0].length, match[0].length + IMAGE_HEADER_BASE64_LENGTH);
+    bytes = Uint8Array.from(atob(head.slice(0, head.length - (head.length % 4))), c => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+  const view = new DataView(bytes.buffer);
+
+  if (match[1] === 'png') {
+    // The IHDR chunk follows the 8 byte signature and the chunk length and type
+    return bytes.length >= 24 ? { width: view.getUint32(16), height: view.getUint32(20) } : null;
+  }
+
+  // Walk the JPEG segments up to the start of frame, which holds the size
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+/**
+ * Counts the input tokens of an image with the formula of the provider
+ * @param formula - The provider formula
+ * @param size - The image size, null when unknown
+ * @param detail - The detail level of OpenAI image inputs
+ * @returns The number of tokens
+ */
+export function countImageTokens(formula: ImageTokenFormula, size: ImageSize | null, detail?: string): number {
+  if (formula === 'openai' && detail === 'low') {
+    return 85;
+  }
+  if (!size || size.width <= 0 || size.height <= 0 || formula === 'fixed') {
+    return DEFAULT_IMAGE_TOKENS;
+  }
+  const { width, height } = size;
+
+  switch (formula) {
+    case 'openai': {
+      // Fit in 2048x2048, scale the shortest side down to 768, then 170 tokens per 512px tile plus 85
+      const fit = Math.min(1, 2048 / Math.max(width, height));
+      const shortest = Math.min(1, 768 / (Math.min(width, height) * fit));
+      const scale = fit * shortest;
+      return 85 + 170 * Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512);
+    }
+    case 'anthropic': {
+      // Images over 1568px on the long edge or about 1.15 megapixels are scaled down, then a token per 750 pixels
+      const scale = Math.min(1, 1568 / Math.max(width, height), Math.sqrt(1150000 / (width * height)));
+      return Math.ceil((width * scale * height * scale) / 750);
+    }
+    case 'gemini':
+      // 258 tokens for small images, larger images are cut into 768px tiles of 258 tokens
+      if (width <= 384 && height <= 384) {
+        return 258;
+      }
+      return 258 * Math.ceil(width / 768) * Math.ceil(height / 768);
+  }
+}
+
+class EstimatingTokenizer implements Tokenizer {
+  readonly name: string;
+
+  constructor(private readonly profile: TokenizerProfile) {
+    this.name = `${profile.name} estimate`;
+  }
+
+  countText(text: string): number {
+    const cjkCharacters = text.match(CJK_PATTERN)?.length ?? 0;
+    return Math.ceil((text.length - cjkCharacters) / this.profile.charactersPerToken) + cjkCharacters;
+  }
+
+  countImage(url: string, detail?: string): number {
+    return countImageTokens(this.profile.images, getImageSize(url), detail);
+  }
+}
+
+class BpeTokenizer extends EstimatingTokenizer {
+  readonly name: string;
+
+  constructor(
+    profile: TokenizerProfile,
+    private readonly encoding: Tiktoken,
+  ) {
+    super(profile);
+    this.name = profile.encoding ?? profile.name;
+  }
+
+  countText(text: string): number {
+    // Special tokens written in a page, e.g. <|endoftext|>, are encoded as plain text
+    return this.encoding.encode(text, [], []).length;
+  }
+}
+
+// Estimator used when nothing is known about the model
+export const DEFAULT_TOKENIZER: Tokenizer = new EstimatingTokenizer({
+  name: 'default',
+  charactersPerToken: 3,
+  images: 'fixed',
+});
+
+/**
+ * Picks the tokenizer of a model from its name, the provider decides when the name is not enough
+ * @param modelName - The model name, with or without a vendor prefix, e.g. openai/gpt-4o on OpenRouter
+ * @param provider - The provider type or chat model class of the model
+ */
+function getTokenizerProfile(modelName: string, provider: string): TokenizerProfile {
+  const model = modelName.toLowerCase().split('/').pop() ?? '';
+  const hint = `${provider} ${modelName}`.toLowerCase();
+
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|chatgpt|o[134](-|$))/.test(model)) {
+    return { name: 'openai', charactersPerToken: 3, images: 'openai', encoding: 'o200k_base' };
+  }
+  if (/^(gpt-4|gpt-3\.5)/.test(model)) {
+    return { name: 'openai', charactersPerToken: 3, images: 'openai', encoding: 'cl100k_base' };
+  }
+  if (hint.includes('claude') || hint.includes(ProviderTypeEnum.Anthropic)) {
+    return { name: 'anthropic', charactersPerToken: 2.8, images: 'anthropic' };
+  }
+  if (/gemini|gemma/.test(hint) || provider === ProviderTypeEnum.Gemini) {
+    return { name: 'gemini', charactersPerToken: 3.4, images: 'gemini' };
+  }
+  if (/mistral|mixtral|codestral|ministral/.test(model)) {
+    return { name: 'mistral', charactersPerToken: 2.6, images: 'fixed' };
+  }
+  if (/llama|qwen|deepseek|grok/.test(model)) {
+    return { name: 'llama', charactersPerToken: 3.2, images: 'fixed' };
+  }
+  return { name: 'default', charactersPerToken: 3, images: 'fixed' };
+}
+
+const tokenizers = new Map<string, Tokenizer>();
+// Encodings are built from their ranks on first use, and shared by every model that uses them
+const encodings = new Map<BpeEncoding, Tiktoken>();
+
+function getEncoding(name: BpeEncoding): Tiktoken {
+  let encoding = encodings.get(name);
+  if (!encoding) {
+    encoding = new Tiktoken(BPE_RANKS[name]);
+    encodings.set(name, encoding);
+  }
+  return encoding;
+}
+
+function createTokenizer(modelName: string, provider: string): Tokenizer {
+  const profile = getTokenizerProfile(modelName, provider);
+  if (!profile.encoding) {
+    return new EstimatingTokenizer(profile);
+  }
+  return new BpeTokenizer(profile, getEncoding(profile.encoding));
+}
+
+/**
+ * Gets the tokenizer of a model. OpenAI models are counted with their BPE encoding, other models
+ * with an estimate calibrated for their tokenizer. Tokenizers are cached by model.
+ * @param modelName - The model name
+ * @param provider - The provider type or chat model class, used when the model name is not enough
+ */
+export async function getTokenizer(modelName: string, provider = ''): Promise<Tokenizer> {
+  const key = `${provider}:${modelName}`;
+  let tokenizer = tokenizers.get(key);
+  if (!tokenizer) {
+    tokenizer = createTokenizer(modelName, provider);
+    tokenizers.set(key, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Counts the tokens of a message, text, images and tool calls included
+ * @param tokenizer - The tokenizer of the model
+ * @param message - The message to count
+ * @returns The number of tokens
+ */
+export function countMessageTokens(tokenizer: Tokenizer, message: BaseMessage): number {
+  let tokens = 0;
+
+  if (Array.isArray(message.content)) {
+    for (const item of message.content) {
+      if ('image_url' in item) {
+        const image = typeof item.image_url === 'string' ? { url: item.image_url } : item.image_url;
+        tokens += tokenizer.countImage(image.url, image.detail);
+      } else if (typeof item === 'object' && 'text' in item) {
+        tokens += tokenizer.countText(item.text);
+      }
+    }
+  } else {
+    let msg = message.content;
+    // Check if it's an AIMessage with tool_calls
+    if ('tool_calls' in message) {
+      msg += JSON.stringify(message.tool_calls);
+    }
+    tokens += tokenizer.countText(msg);
+  }
+
+  return tokens;
+}
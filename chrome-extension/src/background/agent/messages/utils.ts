@@ -14,6 +14,34 @@ export const UNTRUSTED_CONTENT_TAG_END = '</nano_untrusted_content>';
 export const USER_REQUEST_TAG_START = '<nano_user_request>';
 export const USER_REQUEST_TAG_END = '</nano_user_request>';
 
+/**
+ * Format messages as plain text, e.g. for a model that summarizes them
+ * @param messages - The messages to format
+ * @returns One paragraph per message, prefixed with its role
+ */
+export function formatMessagesAsText(messages: BaseMessage[]): string {
+  return messages
+    .map(message => {
+      const text =
+        typeof message.content === 'string'
+          ? message.content
+          : message.content
+              .map(part => ('text' in part && typeof part.text === 'string' ? part.text : ''))
+              .filter(Boolean)
+              .join('\n');
+      if (message instanceof AIMessage) {
+        const toolCalls = (message.tool_calls ?? []).map(toolCall => JSON.stringify(toolCall.args)).join('\n');
+        return `Agent: ${[text === 'tool call' ? '' : text, toolCalls].filter(Boolean).join('\n')}`;
+      }
+      if (message instanceof ToolMessage) {
+        return '';
+      }
+      return `${message instanceof SystemMessage ? 'System' : 'User'}: ${text}`;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
 /**
  * Remove think tags from model output
  * Some models use <think> tags for internal reasoning that should be removed
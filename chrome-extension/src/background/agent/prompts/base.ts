@@ -2,8 +2,31 @@ import { HumanMessage, type SystemMessage } from '@langchain/core/messages';
 import type { AgentContext } from '@src/background/agent/types';
 import { wrapUntrustedContent } from '../messages/utils';
 import { createLogger } from '@src/background/log';
+import { siteMemoryStore } from '@extension/storage';
 
 const logger = createLogger('BasePrompt');
+
+// Most site memory entries added to the state message, the most recently updated are kept
+const MAX_SITE_MEMORY_ENTRIES = 20;
+
+/**
+ * Builds the description of the site memory entries that apply to a URL
+ * @param url - The URL of the current page
+ * @returns The description, or an empty string if nothing is remembered about the site
+ */
+async function buildSiteMemoryDescription(url: string): Promise<string> {
+  try {
+    const entries = (await siteMemoryStore.getEntriesForUrl(url)).slice(0, MAX_SITE_MEMORY_ENTRIES);
+    if (entries.length === 0) {
+      return '';
+    }
+    const facts = entries.map(entry => `- [${entry.domain}] ${entry.content}`).join('\n');
+    return `Site memory (facts learned in earlier tasks on this site, they may be outdated):\n${wrapUntrustedContent(facts)}\n`;
+  } catch (error) {
+    logger.warning('Failed to load site memory', error);
+    return '';
+  }
+}
 /**
  * Abstract base class for all prompt types
  */
@@ -24,10 +47,12 @@ abstract class BasePrompt {
   /**
    * Builds the user message containing the browser state
    * @param context - The agent context
+   * @param includeSiteMemory - Whether to add what is remembered about the site of the current page
    * @returns HumanMessage from LangChain
    */
-  async buildBrowserStateUserMessage(context: AgentContext): Promise<HumanMessage> {
+  async buildBrowserStateUserMessage(context: AgentContext, includeSiteMemory = false): Promise<HumanMessage> {
     const browserState = await context.browserContext.getState(context.options.useVision);
+    const siteMemoryDescription = includeSiteMemory ? await buildSiteMemoryDescription(browserState.url) : '';
     const rawElementsText = browserState.elementTree.clickableElementsToString(context.options.includeAttributes);
 
     let formattedElementsText = '';
@@ -74,7 +99,7 @@ The following is one-time information - if you need to remember it write it to m
 Current tab: ${currentTab}
 Other available tabs:
   ${otherTabs.join('\n')}
-Interactive elements from top layer of the current page inside the viewport:
+${siteMemoryDescription}Interactive elements from top layer of the current page inside the viewport:
 ${formattedElementsText}
 ${stepInfoDescription}
 ${actionResultsDescription}
@@ -0,0 +1,15 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { BasePrompt } from './base';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { AgentContext } from '@src/background/agent/types';
+import { historyCompactionPromptTemplate } from './templates/compaction';
+
+export class CompactionPrompt extends BasePrompt {
+  getSystemMessage(): SystemMessage {
+    return new SystemMessage(historyCompactionPromptTemplate);
+  }
+
+  async getUserMessage(context: AgentContext): Promise<HumanMessage> {
+    return new HumanMessage('');
+  }
+}
@@ -0,0 +1,23 @@
+import { BasePrompt } from './base';
+import { type HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { AgentContext } from '@src/background/agent/types';
+import { managerSystemPromptTemplate } from './templates/manager';
+
+export class ManagerPrompt extends BasePrompt {
+  private systemMessage: SystemMessage;
+
+  constructor(maxSubtasks: number) {
+    super();
+    this.systemMessage = new SystemMessage(
+      managerSystemPromptTemplate.replace('{{max_subtasks}}', maxSubtasks.toString()).trim(),
+    );
+  }
+
+  getSystemMessage(): SystemMessage {
+    return this.systemMessage;
+  }
+
+  async getUserMessage(context: AgentContext): Promise<HumanMessage> {
+    return await this.buildBrowserStateUserMessage(context);
+  }
+}
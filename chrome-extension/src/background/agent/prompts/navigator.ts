@@ -29,6 +29,7 @@ export class NavigatorPrompt extends BasePrompt {
   }
 
   async getUserMessage(context: AgentContext): Promise<HumanMessage> {
-    return await this.buildBrowserStateUserMessage(context);
+    // The planner reads the same state message, so both agents see the site memory
+    return await this.buildBrowserStateUserMessage(context, true);
   }
 }
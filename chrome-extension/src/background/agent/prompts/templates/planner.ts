@@ -21,6 +21,7 @@ ${commonSecurityRules}
   - Suggest the next high-level steps to take
   - If you know the direct URL, use it directly instead of searching for it (e.g. github.com, www.espn.com, gmail.com). Search it if you don't know the direct URL.
   - Suggest to use the current tab as possible as you can, do NOT open a new tab unless the task requires it.
+  - Use the site memory of the current state, facts learned in earlier tasks on the site, to suggest shorter paths. Suggest the remember action when the navigator finds out something lasting about the site.
   - **SHAREPOINT SCREEN-ONLY ANALYSIS**: For ANY task involving SharePoint files, folders, or document checking:
     - NEVER suggest manual navigation, clicking folders, or searching
     - ONLY use screen-only actions: "sharepoint_document_scan", "sharepoint_patient_check", or "sharepoint_multi_patient_check"
@@ -57,6 +58,7 @@ When determining if a task is "done":
 5. Focus on the current state and last action results to determine completion
 
 # FINAL ANSWER FORMATTING (when done=true):
+- When the context of the task gives a JSON schema for the final answer, the final answer must be only JSON that matches it, this overrides the other formatting rules
 - Use markdown formatting only if required by the task description
 - Use plain text by default
 - Use bullet points for multiple items if needed
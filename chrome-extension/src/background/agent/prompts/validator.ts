@@ -0,0 +1,37 @@
+import { BasePrompt } from './base';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { AgentContext } from '@src/background/agent/types';
+import { wrapUntrustedContent } from '../messages/utils';
+import { validatorSystemPromptTemplate } from './templates/validator';
+
+// Most characters of collected action results sent to the validator, the latest results are kept
+const MAX_EVIDENCE_LENGTH = 30000;
+
+export class ValidatorPrompt extends BasePrompt {
+  getSystemMessage(): SystemMessage {
+    return new SystemMessage(validatorSystemPromptTemplate);
+  }
+
+  async getUserMessage(context: AgentContext): Promise<HumanMessage> {
+    return await this.buildBrowserStateUserMessage(context);
+  }
+
+  /**
+   * Builds the message with the content extracted by every step of the task
+   * @param context - The agent context
+   * @returns HumanMessage from LangChain
+   */
+  getEvidenceMessage(context: AgentContext): HumanMessage {
+    const results = [...context.history.history.flatMap(record => record.result), ...context.actionResults];
+    const extracted = [...new Set(results.map(result => result.extractedContent?.trim() ?? '').filter(Boolean))];
+    if (extracted.length === 0) {
+      return new HumanMessage('Collected action results: none');
+    }
+
+    let evidence = extracted.map((content, i) => `Action result ${i + 1}: ${content}`).join('\n');
+    if (evidence.length > MAX_EVIDENCE_LENGTH) {
+      evidence = `...${evidence.slice(-MAX_EVIDENCE_LENGTH)}`;
+    }
+    return new HumanMessage(`Collected action results:\n${wrapUntrustedContent(evidence)}`);
+  }
+}
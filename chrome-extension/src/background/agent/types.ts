@@ -1,10 +1,25 @@
 import { z } from 'zod';
+import {
+  type ApprovalDecision,
+  type ApprovalPolicy,
+  type ApprovalRequest,
+  type ModelPrice,
+  type ReportChecklistItem,
+  type ReportSection,
+  type ReportTable,
+  type StepReviewDecision,
+  type StepReviewRequest,
+  type TokenUsageRecord,
+  estimateTokenCost,
+} from '@extension/storage';
+import type { JsonSchemaObject } from '@extension/schema-utils';
 import type BrowserContext from '../browser/context';
 import { DEFAULT_INCLUDE_ATTRIBUTES } from '../browser/dom/views';
 import type { DOMHistoryElement } from '../browser/dom/history/view';
+import type { DownloadRecord } from '../browser/downloads';
 import type MessageManager from './messages/service';
 import type { EventManager } from './event/manager';
-import { type Actors, type ExecutionState, AgentEvent } from './event/types';
+import { Actors, ExecutionState, AgentEvent } from './event/types';
 import { AgentStepHistory } from './history';
 
 export interface AgentOptions {
@@ -18,6 +33,14 @@ export interface AgentOptions {
   useVisionForPlanner: boolean;
   includeAttributes: string[];
   planningInterval: number;
+  maxValidatorFailures: number;
+  approvalPolicies: ApprovalPolicy[];
+  // Plan the actions without performing them on the page
+  dryRun: boolean;
+  // Pause before the actions of every navigator step, so the user can review and edit them
+  stepThrough: boolean;
+  // JSON schema the final answer must match, the answer is then the JSON text of a matching value
+  answerSchema: JsonSchemaObject | null;
 }
 
 export const DEFAULT_AGENT_OPTIONS: AgentOptions = {
@@ -31,8 +54,25 @@ export const DEFAULT_AGENT_OPTIONS: AgentOptions = {
   useVisionForPlanner: true,
   includeAttributes: DEFAULT_INCLUDE_ATTRIBUTES,
   planningInterval: 3,
+  maxValidatorFailures: 3,
+  approvalPolicies: [],
+  dryRun: false,
+  stepThrough: false,
+  answerSchema: null,
 };
 
+// Action the navigator would have performed, recorded instead of running it in a dry run
+export interface DryRunAction {
+  step: number;
+  actionName: string;
+  args: Record<string, unknown>;
+  index: number | null;
+  elementText?: string;
+  url: string;
+  // Approval policy the action would have been paused for, if any
+  approvalPolicy?: string;
+}
+
 export class AgentContext {
   controller: AbortController;
   taskId: string;
@@ -49,6 +89,17 @@ export class AgentContext {
   stateMessageAdded: boolean;
   history: AgentStepHistory;
   finalAnswer: string | null;
+  reportSections: ReportSection[];
+  reportTables: ReportTable[];
+  // Downloads started by the task, the only downloaded files it may upload
+  downloadIds: number[];
+  tokenUsage: TokenUsageRecord[];
+  modelPrices: Record<string, ModelPrice>;
+  // Model that answered each agent in the current step, by agent id
+  stepModels: Record<string, string>;
+  pendingApproval: { request: ApprovalRequest; resolve: (decision: ApprovalDecision) => void } | null;
+  pendingStepReview: { request: StepReviewRequest; resolve: (decision: StepReviewDecision) => void } | null;
+  dryRunPlan: DryRunAction[];
 
   constructor(
     taskId: string,
@@ -56,6 +107,7 @@ export class AgentContext {
     messageManager: MessageManager,
     eventManager: EventManager,
     options: Partial<AgentOptions>,
+    modelPrices: Record<string, ModelPrice> = {},
   ) {
     this.controller = new AbortController();
     this.taskId = taskId;
@@ -73,6 +125,15 @@ export class AgentContext {
     this.stateMessageAdded = false;
     this.history = new AgentStepHistory();
     this.finalAnswer = null;
+    this.reportSections = [];
+    this.reportTables = [];
+    this.downloadIds = [];
+    this.tokenUsage = [];
+    this.modelPrices = modelPrices;
+    this.stepModels = {};
+    this.pendingApproval = null;
+    this.pendingStepReview = null;
+    this.dryRunPlan = [];
   }
 
   async emitEvent(actor: Actors, state: ExecutionState, eventDetails: string) {
@@ -85,6 +146,156 @@ export class AgentContext {
     await this.eventManager.emit(event);
   }
 
+  /**
+   * Add a section to the structured report of the task, stored with the chat session when the task ends
+   * @param title Section title, e.g. the folder that was checked
+   * @param source Name of the action producing the section
+   * @param items Checklist items of the section
+   * @param url Page the section was produced from, the evidence URL of the items that have evidence
+   */
+  addReportSection(
+    title: string,
+    source: string,
+    items: Omit<ReportChecklistItem, 'timestamp'>[],
+    url?: string,
+  ): ReportSection {
+    const createdAt = Date.now();
+    const section: ReportSection = {
+      id: crypto.randomUUID(),
+      title,
+      source,
+      url,
+      createdAt,
+      // Items without evidence, e.g. missing documents, were not found on the page
+      items: items.map(item => ({ ...(item.evidence ? { evidenceUrl: url } : {}), ...item, timestamp: createdAt })),
+    };
+    this.reportSections.push(section);
+    return section;
+  }
+
+  /**
+   * Keep a table read from a page with the report of the task, so it can be saved as CSV
+   * @param title Table title, e.g. its caption
+   * @param source Name of the action that read the table
+   * @param columns Column headers
+   * @param rows Cell texts of every row
+   * @param complete False when rows were left out
+   * @param url Page the table was read from
+   */
+  addReportTable(
+    title: string,
+    source: string,
+    columns: string[],
+    rows: string[][],
+    complete: boolean,
+    url?: string,
+  ): ReportTable {
+    const table: ReportTable = {
+      id: crypto.randomUUID(),
+      title,
+      source,
+      url,
+      createdAt: Date.now(),
+      columns,
+      rows,
+      complete,
+    };
+    this.reportTables.push(table);
+    return table;
+  }
+
+  /**
+   * Record the token usage of a model call made in the current step
+   * @param agent Id of the agent that made the call
+   * @param model Name of the model that was called
+   * @param inputTokens Input tokens reported by the provider
+   * @param outputTokens Output tokens reported by the provider
+   * @param estimated Whether the tokens were counted with the model tokenizer because the provider reported none
+   */
+  recordTokenUsage(
+    agent: string,
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+    estimated = false,
+  ): TokenUsageRecord {
+    const price = this.modelPrices[model];
+    const record: TokenUsageRecord = {
+      step: this.nSteps,
+      agent,
+      model,
+      inputTokens,
+      outputTokens,
+      cost: price ? estimateTokenCost(price, inputTokens, outputTokens) : null,
+      timestamp: Date.now(),
+      ...(estimated && { estimated }),
+    };
+    this.tokenUsage.push(record);
+    return record;
+  }
+
+  /**
+   * Pause the task until the user approves, edits or rejects an action
+   * @param request The action waiting for approval
+   * @returns The user's decision, a rejection if the task is stopped while waiting
+   */
+  async requestApproval(request: Omit<ApprovalRequest, 'id'>): Promise<ApprovalDecision> {
+    const pending = { ...request, id: crypto.randomUUID() };
+    this.paused = true;
+    const decision = await new Promise<ApprovalDecision>(resolve => {
+      this.pendingApproval = { request: pending, resolve };
+      this.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_APPROVAL, JSON.stringify(pending));
+    });
+    this.pendingApproval = null;
+    this.paused = false;
+    return decision;
+  }
+
+  /**
+   * Answer the pending approval request
+   * @param id Id of the approval request
+   * @param decision The user's decision
+   * @returns Whether the request was still pending
+   */
+  resolveApproval(id: string, decision: ApprovalDecision): boolean {
+    if (this.pendingApproval?.request.id !== id) {
+      return false;
+    }
+    this.pendingApproval.resolve(decision);
+    return true;
+  }
+
+  /**
+   * Pause the task until the user continues with the proposed actions of a navigator step, edited or not
+   * @param request The step waiting for review
+   * @returns The user's decision, no actions if the task is stopped while waiting
+   */
+  async requestStepReview(request: Omit<StepReviewRequest, 'id'>): Promise<StepReviewDecision> {
+    const pending = { ...request, id: crypto.randomUUID() };
+    this.paused = true;
+    const decision = await new Promise<StepReviewDecision>(resolve => {
+      this.pendingStepReview = { request: pending, resolve };
+      this.emitEvent(Actors.NAVIGATOR, ExecutionState.STEP_REVIEW, JSON.stringify(pending));
+    });
+    this.pendingStepReview = null;
+    this.paused = false;
+    return decision;
+  }
+
+  /**
+   * Answer the pending step review
+   * @param id Id of the step review request
+   * @param decision The user's decision
+   * @returns Whether the review was still pending
+   */
+  resolveStepReview(id: string, decision: StepReviewDecision): boolean {
+    if (this.pendingStepReview?.request.id !== id) {
+      return false;
+    }
+    this.pendingStepReview.resolve(decision);
+    return true;
+  }
+
   async pause() {
     this.paused = true;
   }
@@ -95,6 +306,8 @@ export class AgentContext {
 
   async stop() {
     this.stopped = true;
+    this.pendingApproval?.resolve({ approved: false, reason: 'Task stopped' });
+    this.pendingStepReview?.resolve({ actions: [] });
     setTimeout(() => this.controller.abort(), 300);
   }
 }
@@ -116,6 +329,7 @@ export class ActionResult {
   error: string | null;
   includeInMemory: boolean;
   interactedElement: DOMHistoryElement | null;
+  downloads: DownloadRecord[]; // Files the action downloaded or checked, kept in the step history
 
   constructor(params: Partial<ActionResult> = {}) {
     this.isDone = params.isDone ?? false;
@@ -124,6 +338,7 @@ export class ActionResult {
     this.extractedContent = params.extractedContent ?? null;
     this.error = params.error ?? null;
     this.includeInMemory = params.includeInMemory ?? false;
+    this.downloads = params.downloads ?? [];
   }
 }
 
@@ -136,12 +351,26 @@ export class StepMetadata {
   stepEndTime: number;
   inputTokens: number;
   stepNumber: number;
+  outputTokens: number;
+  cost: number | null;
+  models: Record<string, string>; // Model that answered each agent in the step, by agent id
 
-  constructor(stepStartTime: number, stepEndTime: number, inputTokens: number, stepNumber: number) {
+  constructor(
+    stepStartTime: number,
+    stepEndTime: number,
+    inputTokens: number,
+    stepNumber: number,
+    outputTokens = 0,
+    cost: number | null = null,
+    models: Record<string, string> = {},
+  ) {
     this.stepStartTime = stepStartTime;
     this.stepEndTime = stepEndTime;
     this.inputTokens = inputTokens;
     this.stepNumber = stepNumber;
+    this.outputTokens = outputTokens;
+    this.cost = cost;
+    this.models = models;
   }
 
   /**
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { describeDownload, isDownloadSaved, toDownloadRecord } from '../downloads';
+
+const item = (overrides: Partial<chrome.downloads.DownloadItem>): chrome.downloads.DownloadItem =>
+  ({
+    id: 12,
+    url: 'https://example.com/export?id=1',
+    finalUrl: 'https://cdn.example.com/report.pdf',
+    referrer: '',
+    filename: 'C:\\Users\\jane\\Downloads\\report.pdf',
+    incognito: false,
+    danger: 'safe',
+    mime: 'application/pdf',
+    startTime: '2026-10-19T09:00:00.000Z',
+    endTime: '2026-10-19T09:00:02.000Z',
+    state: 'complete',
+    paused: false,
+    canResume: false,
+    bytesReceived: 1258291,
+    totalBytes: 1258291,
+    fileSize: 1258291,
+    exists: true,
+    ...overrides,
+  }) as chrome.downloads.DownloadItem;
+
+describe('Download records', () => {
+  it('reports saved files with their name, type and size', () => {
+    const record = toDownloadRecord(item({}));
+
+    expect(record.filename).toBe('report.pdf');
+    expect(record.url).toBe('https://cdn.example.com/report.pdf');
+    expect(isDownloadSaved(record)).toBe(true);
+    expect(describeDownload(record)).toBe(
+      '[12] report.pdf (application/pdf, 1.2 MB): complete, saved to C:\\Users\\jane\\Downloads\\report.pdf',
+    );
+  });
+
+  it('reports failed, unfinished and deleted downloads as not saved', () => {
+    const failed = toDownloadRecord(
+      item({ state: 'interrupted', error: 'NETWORK_FAILED', fileSize: 0, bytesReceived: 300 }),
+    );
+    const flagged = toDownloadRecord(
+      item({ state: 'in_progress', danger: 'file', fileSize: 0, bytesReceived: 512, endTime: undefined }),
+    );
+    const deleted = toDownloadRecord(item({ exists: false }));
+
+    expect([failed, flagged, deleted].some(isDownloadSaved)).toBe(false);
+    expect(describeDownload(failed)).toBe('[12] report.pdf (application/pdf, 300 B): failed: NETWORK_FAILED');
+    expect(describeDownload(flagged)).toBe(
+      '[12] report.pdf (application/pdf, 512 B of 1.2 MB): waiting for the user to keep the file, flagged as file',
+    );
+    expect(describeDownload(deleted)).toBe(
+      '[12] report.pdf (application/pdf, 1.2 MB): complete, but the file was deleted',
+    );
+  });
+});
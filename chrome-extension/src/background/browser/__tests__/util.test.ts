@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import type { DomainActionPolicy } from '@extension/storage';
+import { findDomainPolicy, isActionAllowed } from '../util';
+import {
+  cacheContentActionSchema,
+  closeTabActionSchema,
+  inputTextActionSchema,
+  scrollToBottomActionSchema,
+  sendKeysActionSchema,
+} from '../../agent/actions/schemas';
+
+const readOnly: DomainActionPolicy = {
+  pattern: '*.sharepoint.com',
+  mode: 'deny',
+  actions: [inputTextActionSchema.name, sendKeysActionSchema.name, closeTabActionSchema.name],
+};
+const intranet: DomainActionPolicy = {
+  pattern: 'intranet.sharepoint.com',
+  mode: 'allow',
+  actions: [scrollToBottomActionSchema.name, cacheContentActionSchema.name],
+};
+
+describe('Domain action policies', () => {
+  it('finds the most specific policy for a URL', () => {
+    const policies = [readOnly, intranet];
+    expect(findDomainPolicy('https://contoso.sharepoint.com/sites/hr', policies)).toBe(readOnly);
+    expect(findDomainPolicy('https://sharepoint.com', policies)).toBe(readOnly);
+    expect(findDomainPolicy('https://intranet.sharepoint.com/home', policies)).toBe(intranet);
+    expect(findDomainPolicy('https://notsharepoint.com', policies)).toBeUndefined();
+    expect(findDomainPolicy('not a url', policies)).toBeUndefined();
+  });
+
+  it('allows or denies the listed actions, but always allows done', () => {
+    expect(isActionAllowed(readOnly, 'click_element')).toBe(true);
+    expect(isActionAllowed(readOnly, 'input_text')).toBe(false);
+    expect(isActionAllowed(intranet, 'cache_content')).toBe(true);
+    expect(isActionAllowed(intranet, 'click_element')).toBe(false);
+    expect(isActionAllowed(intranet, 'done')).toBe(true);
+  });
+});
@@ -9,6 +9,7 @@ import {
 import Page, { build_initial_state } from './page';
 import { createLogger } from '@src/background/log';
 import { isUrlAllowed } from './util';
+import { startDownload } from './downloads';
 import { analytics } from '../services/analytics';
 
 const logger = createLogger('BrowserContext');
@@ -260,18 +261,18 @@ export default class BrowserContext {
     this._currentTabId = tabId;
   }
 
-  public async openTab(url: string): Promise<Page> {
+  public async openTab(url: string, active = true): Promise<Page> {
     if (!isUrlAllowed(url, this._config.allowedUrls, this._config.deniedUrls)) {
       throw new URLNotAllowedError(`Open tab failed. URL: ${url} is not allowed`);
     }
 
     // Create the new tab
-    const tab = await chrome.tabs.create({ url, active: true });
+    const tab = await chrome.tabs.create({ url, active });
     if (!tab.id) {
       throw new Error('No tab ID available');
     }
     // Wait for tab events
-    await this.waitForTabEvents(tab.id);
+    await this.waitForTabEvents(tab.id, { waitForActivation: active });
 
     // Get updated tab information
     const updatedTab = await chrome.tabs.get(tab.id);
@@ -283,6 +284,19 @@ export default class BrowserContext {
     return page;
   }
 
+  /**
+   * Start downloading a file, the URL must be allowed like the pages the agent opens
+   * @param url - The URL of the file
+   * @param filename - Name to save the file as, empty for the name of the server
+   * @returns The id of the download
+   */
+  public async downloadFile(url: string, filename = ''): Promise<number> {
+    if (!isUrlAllowed(url, this._config.allowedUrls, this._config.deniedUrls)) {
+      throw new URLNotAllowedError(`Download failed. URL: ${url} is not allowed`);
+    }
+    return startDownload(url, filename);
+  }
+
   public async closeTab(tabId: number): Promise<void> {
     await this.detachPage(tabId);
     await chrome.tabs.remove(tabId);
@@ -357,4 +371,11 @@ export default class BrowserContext {
       await page.removeHighlight();
     }
   }
+
+  public async highlightElement(index: number): Promise<void> {
+    const page = await this.getCurrentPage();
+    if (page) {
+      await page.highlightElement(index);
+    }
+  }
 }
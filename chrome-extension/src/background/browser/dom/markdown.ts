@@ -0,0 +1,173 @@
+/**
+ * Converts the readable content of the page to markdown.
+ *
+ * Runs in the page through chrome.scripting.executeScript, so it must not use anything outside of its own body.
+ * Without a selector the main content is read, like a reader view: the main or article element when the page
+ * has one, and navigation, headers, footers, sidebars and hidden elements are left out.
+ *
+ * @param selector - CSS selector of the element to convert, the main content when empty
+ * @returns The markdown, empty when the selector matches nothing
+ */
+export function turn2Markdown(selector: string): string {
+  const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'SVG', 'TEMPLATE', 'IFRAME', 'CANVAS', 'BUTTON']);
+  // Page chrome that is not part of the content, only left out when reading the main content
+  const BOILERPLATE_TAGS = new Set(['NAV', 'HEADER', 'FOOTER', 'ASIDE']);
+  const BLOCK_TAGS = new Set([
+    'P',
+    'DIV',
+    'SECTION',
+    'ARTICLE',
+    'MAIN',
+    'FORM',
+    'FIELDSET',
+    'FIGURE',
+    'FIGCAPTION',
+    'DL',
+    'DT',
+    'DD',
+    'ADDRESS',
+    'DETAILS',
+    'SUMMARY',
+  ]);
+
+  const root = selector
+    ? document.querySelector(selector)
+    : (document.querySelector('main, [role="main"], article') ?? document.body);
+  if (!root) {
+    return '';
+  }
+
+  const collapse = (text: string) => text.replace(/\s+/g, ' ');
+  const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+
+  const isHidden = (element: Element): boolean => {
+    if (element.getAttribute('aria-hidden') === 'true' || element.hasAttribute('hidden')) {
+      return true;
+    }
+    const style = window.getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const convertChildren = (element: Element, depth: number): string =>
+    Array.from(element.childNodes)
+      .map(child => convert(child, depth))
+      .join('');
+
+  const convertList = (list: Element, depth: number): string => {
+    const ordered = list.tagName === 'OL';
+    const items = Array.from(list.children).filter(child => child.tagName === 'LI');
+    const lines = items.map((item, i) => {
+      const marker = ordered ? `${i + 1}.` : '-';
+      const text = convertChildren(item, depth + 1)
+        .trim()
+        .replace(/\n{2,}/g, '\n');
+      return `${'  '.repeat(depth)}${marker} ${text}`;
+    });
+    return `\n\n${lines.join('\n')}\n\n`;
+  };
+
+  const convertTable = (table: Element): string => {
+    const rows = Array.from(table.querySelectorAll('tr')).filter(row => !isHidden(row));
+    const cells = rows.map(row =>
+      Array.from(row.querySelectorAll('th, td')).map(cell => escapeCell(convertChildren(cell, 0))),
+    );
+    const width = Math.max(0, ...cells.map(row => row.length));
+    if (width === 0) {
+      return '';
+    }
+    const lines = cells.map(row => `| ${[...row, ...Array(width - row.length).fill('')].join(' | ')} |`);
+    lines.splice(1, 0, `|${' --- |'.repeat(width)}`);
+    return `\n\n${lines.join('\n')}\n\n`;
+  };
+
+  const convert = (node: Node, depth: number): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return collapse(node.textContent ?? '');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return '';
+    }
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tag) || (!selector && BOILERPLATE_TAGS.has(tag)) || isHidden(element)) {
+      return '';
+    }
+
+    switch (tag) {
+      case 'H1':
+      case 'H2':
+      case 'H3':
+      case 'H4':
+      case 'H5':
+      case 'H6': {
+        const text = collapse(element.textContent ?? '').trim();
+        return text ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : '';
+      }
+      case 'BR':
+        return '\n';
+      case 'HR':
+        return '\n\n---\n\n';
+      case 'A': {
+        const text = convertChildren(element, depth).trim();
+        const href = (element as HTMLAnchorElement).href;
+        return text && href.startsWith('http') ? `[${text}](${href})` : text;
+      }
+      case 'IMG': {
+        const alt = element.getAttribute('alt')?.trim();
+        return alt ? `![${alt}]` : '';
+      }
+      case 'STRONG':
+      case 'B': {
+        const text = convertChildren(element, depth).trim();
+        return text ? `**${text}**` : '';
+      }
+      case 'EM':
+      case 'I': {
+        const text = convertChildren(element, depth).trim();
+        return text ? `*${text}*` : '';
+      }
+      case 'CODE':
+        return `\`${element.textContent ?? ''}\``;
+      case 'PRE':
+        return `\n\n\`\`\`\n${element.textContent ?? ''}\n\`\`\`\n\n`;
+      case 'BLOCKQUOTE':
+        return `\n\n${convertChildren(element, depth)
+          .trim()
+          .split('\n')
+          .map(line => `> ${line}`)
+          .join('\n')}\n\n`;
+      case 'UL':
+      case 'OL':
+        return convertList(element, depth);
+      case 'TABLE':
+        return convertTable(element);
+      case 'INPUT': {
+        const input = element as HTMLInputElement;
+        if (['hidden', 'password', 'submit', 'button', 'image', 'reset', 'file'].includes(input.type)) {
+          return '';
+        }
+        if (input.type === 'checkbox' || input.type === 'radio') {
+          return input.checked ? ' [x] ' : ' [ ] ';
+        }
+        return input.value ? ` [${input.value}] ` : '';
+      }
+      case 'TEXTAREA':
+        return (element as HTMLTextAreaElement).value ? ` [${(element as HTMLTextAreaElement).value}] ` : '';
+      case 'SELECT': {
+        const option = (element as HTMLSelectElement).selectedOptions[0];
+        return option ? ` [${collapse(option.text).trim()}] ` : '';
+      }
+      default: {
+        const text = convertChildren(element, depth);
+        return BLOCK_TAGS.has(tag) || tag === 'LI' ? `\n\n${text.trim()}\n\n` : text;
+      }
+    }
+  };
+
+  return convert(root, 0)
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -1,6 +1,8 @@
 import { createLogger } from '@src/background/log';
 import type { BuildDomTreeArgs, RawDomTreeNode, RawDomElementNode, BuildDomTreeResult } from './raw_types';
 import { type DOMState, type DOMBaseNode, DOMElementNode, DOMTextNode } from './views';
+import { turn2Markdown } from './markdown';
+import { type PageTableData, type PageTableScan, type PageTableSummary, scanTables } from './tables';
 import type { ViewportInfo } from './history/view';
 import { isNewTabPage } from '../util';
 
@@ -35,7 +37,6 @@ export interface FrameInfo {
 declare global {
   interface Window {
     buildDomTree: (args: BuildDomTreeArgs) => RawDomTreeNode | null;
-    turn2Markdown: (selector?: string) => string;
     parserReadability: () => ReadabilityResult | null;
   }
 }
@@ -43,23 +44,79 @@ declare global {
 /**
  * Get the markdown content for the current page.
  * @param tabId - The ID of the tab to get the markdown content for.
- * @param selector - The selector to get the markdown content for. If not provided, the body of the entire page will be converted to markdown.
- * @returns The markdown content for the selected element on the current page.
+ * @param selector - The selector to get the markdown content for. If not provided, the main content of the page will be converted to markdown.
+ * @returns The markdown content for the selected element on the current page, empty when the selector matches nothing.
  */
 export async function getMarkdownContent(tabId: number, selector?: string): Promise<string> {
   const results = await chrome.scripting.executeScript({
     target: { tabId: tabId },
-    func: sel => {
-      return window.turn2Markdown(sel);
-    },
+    func: turn2Markdown,
     args: [selector || ''], // Pass the selector as an argument
   });
 
   const result = results[0]?.result;
-  if (!result) {
+  if (typeof result !== 'string') {
     throw new Error('Failed to get markdown content');
   }
-  return result as string;
+  return result;
+}
+
+// A table found in one of the frames of a page
+export interface FrameTableSummary extends PageTableSummary {
+  frameId: number;
+  frameUrl: string;
+}
+
+/**
+ * Find the tables and data grids of the page, including the ones inside iframes.
+ * @param tabId - The ID of the tab to search.
+ * @returns The tables of every frame, the tables of the main frame first.
+ */
+export async function findTables(tabId: number): Promise<FrameTableSummary[]> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId, allFrames: true },
+    func: scanTables,
+    args: [-1, 0],
+  });
+  const frames = (await chrome.webNavigation.getAllFrames({ tabId })) ?? [];
+  const frameUrls = new Map(frames.map(frame => [frame.frameId, frame.url]));
+
+  return results
+    .filter(result => result.result)
+    .sort((a, b) => a.frameId - b.frameId)
+    .flatMap(result =>
+      (result.result as PageTableScan).tables.map(table => ({
+        ...table,
+        frameId: result.frameId,
+        frameUrl: frameUrls.get(result.frameId) ?? '',
+      })),
+    );
+}
+
+/**
+ * Read the headers and rows of a table, scrolling virtualized grids until all their rows are loaded.
+ * @param tabId - The ID of the tab.
+ * @param frameId - The frame the table is in.
+ * @param index - Position of the table in its frame, as returned by findTables.
+ * @param maxRows - Most rows to read.
+ * @returns The table data, null when the table is gone from the page.
+ */
+export async function extractTable(
+  tabId: number,
+  frameId: number,
+  index: number,
+  maxRows: number,
+): Promise<PageTableData | null> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [frameId] },
+    func: scanTables,
+    args: [index, maxRows],
+  });
+  const scan = results[0]?.result as PageTableScan | undefined;
+  if (!scan) {
+    throw new Error('Failed to read the table');
+  }
+  return scan.data;
 }
 
 /**
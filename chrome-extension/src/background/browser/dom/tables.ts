@@ -0,0 +1,237 @@
+// A table or data grid found on the page
+export interface PageTableSummary {
+  index: number; // Position of the table in its frame
+  kind: 'table' | 'grid';
+  label: string; // Caption, aria-label or nearest heading
+  columns: string[];
+  rowCount: number; // Rows currently in the DOM
+  expectedRowCount: number | null; // Row count announced by the grid with aria-rowcount
+}
+
+// Headers and rows of one table
+export interface PageTableData {
+  columns: string[];
+  rows: string[][];
+  expectedRowCount: number | null;
+  complete: boolean; // False when the row limit was reached or a virtualized grid did not load every row
+}
+
+export interface PageTableScan {
+  tables: PageTableSummary[];
+  data: PageTableData | null;
+}
+
+/**
+ * Finds the tables and data grids of the page and reads one of them.
+ *
+ * Runs in the page through chrome.scripting.executeScript, so it must not use anything outside of its own body.
+ * Plain <table> elements and ARIA grids and tables are found, including the DetailsList grids of SharePoint.
+ * Virtualized grids only keep the visible rows in the DOM, so the grid is scrolled until no new rows load and the
+ * scroll position is restored afterwards.
+ *
+ * @param extractIndex - Position of the table to read, -1 to only list the tables
+ * @param maxRows - Most rows to read
+ * @returns The tables of the page, and the data of the table that was read
+ */
+export async function scanTables(extractIndex: number, maxRows: number): Promise<PageTableScan> {
+  const CANDIDATE_SELECTOR = 'table, [role="grid"], [role="treegrid"], [role="table"]';
+  const ROW_SELECTOR = '[role="row"], [data-automationid="DetailsRow"]';
+  const CELL_SELECTOR = '[role="gridcell"], [role="cell"], [role="rowheader"], [data-automationid="DetailsRowCell"]';
+  const HEADER_SELECTOR = '[role="columnheader"], [data-automationid="ColumnsHeaderColumn"]';
+  // Time for a virtualized grid to render the rows scrolled into view
+  const SCROLL_SETTLE_MS = 400;
+  const MAX_SCROLLS = 200;
+
+  const cellText = (element: Element) =>
+    ((element as HTMLElement).innerText ?? element.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+  const isHidden = (element: Element): boolean => {
+    if (element.getAttribute('aria-hidden') === 'true') {
+      return true;
+    }
+    const rect = element.getBoundingClientRect();
+    const style = window.getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden' || (rect.width === 0 && rect.height === 0);
+  };
+
+  const isGrid = (element: Element) => element.tagName !== 'TABLE' || element.hasAttribute('role');
+
+  // Tables inside a grid cell belong to the grid, tables inside a layout table are listed on their own
+  const candidates = Array.from(document.querySelectorAll(CANDIDATE_SELECTOR)).filter(element => {
+    const role = element.getAttribute('role');
+    const outer = element.parentElement?.closest(CANDIDATE_SELECTOR);
+    return role !== 'presentation' && role !== 'none' && !(outer && isGrid(outer)) && !isHidden(element);
+  });
+
+  // Rows and headers of a grid, without the ones of grids nested in it
+  const ownedBy = (container: Element, element: Element) => element.closest(CANDIDATE_SELECTOR) === container;
+
+  const spannedCells = (cell: HTMLTableCellElement) => [
+    cellText(cell),
+    ...Array(Math.max(cell.colSpan, 1) - 1).fill(''),
+  ];
+
+  const tableHeaders = (table: HTMLTableElement): string[] => {
+    const headerRow =
+      table.tHead?.rows[0] ??
+      Array.from(table.rows).find(
+        row => row.cells.length > 0 && Array.from(row.cells).every(cell => cell.tagName === 'TH'),
+      );
+    if (!headerRow) {
+      return [];
+    }
+    return Array.from(headerRow.cells).flatMap(spannedCells);
+  };
+
+  const tableRows = (table: HTMLTableElement): string[][] => {
+    const headerRow = table.tHead?.rows[0];
+    return Array.from(table.rows)
+      .filter(row => row.parentElement !== table.tHead && row !== headerRow)
+      .filter(row => !Array.from(row.cells).every(cell => cell.tagName === 'TH') && !isHidden(row))
+      .map(row => Array.from(row.cells).flatMap(spannedCells))
+      .filter(cells => cells.some(Boolean));
+  };
+
+  const gridHeaders = (grid: Element): string[] =>
+    Array.from(grid.querySelectorAll(HEADER_SELECTOR))
+      .filter(header => ownedBy(grid, header))
+      .map(cellText);
+
+  // Rows keyed by aria-rowindex when the grid sets it, so rows seen twice while scrolling are kept once
+  const gridRows = (grid: Element): [string, string[]][] =>
+    Array.from(grid.querySelectorAll(ROW_SELECTOR))
+      .filter(row => ownedBy(grid, row))
+      .map(row => {
+        const cells = Array.from(row.querySelectorAll(CELL_SELECTOR))
+          .filter(cell => cell.closest(ROW_SELECTOR) === row)
+          .map(cellText);
+        return [row.getAttribute('aria-rowindex') ?? '', cells] as [string, string[]];
+      })
+      .filter(([, cells]) => cells.some(Boolean))
+      .map(([index, cells]) => [index || cells.join('\u0000'), cells]);
+
+  const expectedRows = (element: Element): number | null => {
+    const count = Number(element.getAttribute('aria-rowcount'));
+    if (!count || count < 0) {
+      return null;
+    }
+    // The header row is counted too
+    return gridHeaders(element).length > 0 ? count - 1 : count;
+  };
+
+  const label = (element: Element): string => {
+    const caption = element.tagName === 'TABLE' ? (element as HTMLTableElement).caption : null;
+    const labelledBy = element.getAttribute('aria-labelledby');
+    const labelElement = labelledBy ? document.getElementById(labelledBy.split(' ')[0]) : null;
+    const text = caption
+      ? cellText(caption)
+      : (element.getAttribute('aria-label') ?? (labelElement ? cellText(labelElement) : ''));
+    if (text) {
+      return text;
+    }
+    // Fall back to the heading closest before the table
+    const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6')).filter(
+      heading => heading.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING,
+    );
+    return headings.length > 0 ? cellText(headings[headings.length - 1]) : '';
+  };
+
+  const scrollContainer = (grid: Element): Element | null => {
+    const scrollable = (element: Element) => {
+      const overflow = window.getComputedStyle(element).overflowY;
+      return (overflow === 'auto' || overflow === 'scroll') && element.scrollHeight > element.clientHeight;
+    };
+    // The body of the grid, not a cell with a scrollbar of its own
+    const inner = Array.from(grid.querySelectorAll('*'))
+      .filter(scrollable)
+      .sort((a, b) => b.clientHeight - a.clientHeight)[0];
+    if (inner) {
+      return inner;
+    }
+    for (let element: Element | null = grid; element; element = element.parentElement) {
+      if (scrollable(element)) {
+        return element;
+      }
+    }
+    return document.scrollingElement;
+  };
+
+  const readGrid = async (grid: Element): Promise<PageTableData> => {
+    const rows = new Map<string, string[]>();
+    const collect = () => {
+      for (const [key, cells] of gridRows(grid)) {
+        rows.set(key, cells);
+      }
+    };
+    collect();
+
+    const expectedRowCount = expectedRows(grid);
+    const scroller = scrollContainer(grid);
+    if (scroller && scroller.scrollHeight > scroller.clientHeight) {
+      const start = scroller.scrollTop;
+      let idleScrolls = 0;
+      for (let i = 0; i < MAX_SCROLLS && rows.size < maxRows; i++) {
+        if (expectedRowCount !== null && rows.size >= expectedRowCount) {
+          break;
+        }
+        const before = rows.size;
+        const atBottom = scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - 1;
+        scroller.scrollTop += Math.max(scroller.clientHeight * 0.8, 100);
+        await new Promise(resolve => setTimeout(resolve, SCROLL_SETTLE_MS));
+        collect();
+        // Lists that load more rows at the bottom need a couple of tries before they are done
+        idleScrolls = rows.size === before ? idleScrolls + 1 : 0;
+        if (atBottom && idleScrolls >= 2) {
+          break;
+        }
+      }
+      scroller.scrollTop = start;
+    }
+
+    // Keep the order of the grid when rows have an index, the order they were seen in otherwise
+    const entries = Array.from(rows.entries());
+    if (entries.every(([key]) => /^\d+$/.test(key))) {
+      entries.sort(([a], [b]) => Number(a) - Number(b));
+    }
+    const allRows = entries.map(([, cells]) => cells);
+    return {
+      columns: gridHeaders(grid),
+      rows: allRows.slice(0, maxRows),
+      expectedRowCount,
+      complete: allRows.length <= maxRows && (expectedRowCount === null || allRows.length >= expectedRowCount),
+    };
+  };
+
+  const tables: PageTableSummary[] = candidates
+    .map((element, index) => {
+      const grid = isGrid(element);
+      return {
+        index,
+        kind: grid ? ('grid' as const) : ('table' as const),
+        label: label(element),
+        columns: grid ? gridHeaders(element) : tableHeaders(element as HTMLTableElement),
+        rowCount: grid ? gridRows(element).length : tableRows(element as HTMLTableElement).length,
+        expectedRowCount: grid ? expectedRows(element) : null,
+      };
+    })
+    .filter(table => table.rowCount > 0 || (table.expectedRowCount ?? 0) > 0);
+
+  const target = tables.find(table => table.index === extractIndex);
+  if (!target) {
+    return { tables, data: null };
+  }
+  const element = candidates[target.index];
+  if (target.kind === 'grid') {
+    return { tables, data: await readGrid(element) };
+  }
+  const rows = tableRows(element as HTMLTableElement);
+  return {
+    tables,
+    data: {
+      columns: target.columns,
+      rows: rows.slice(0, maxRows),
+      expectedRowCount: null,
+      complete: rows.length <= maxRows,
+    },
+  };
+}
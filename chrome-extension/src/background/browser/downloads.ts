@@ -0,0 +1,195 @@
+import { createLogger } from '@src/background/log';
+
+const logger = createLogger('Downloads');
+
+export type DownloadStatus = 'in_progress' | 'complete' | 'interrupted';
+
+// A file downloaded by the browser, as reported by chrome.downloads
+export interface DownloadRecord {
+  id: number;
+  url: string;
+  filename: string; // Name of the file, without its folder
+  path: string; // Full path on disk, empty until Chrome has picked it
+  mime: string;
+  bytes: number; // Size of the file, or the bytes received so far while in progress
+  totalBytes: number | null; // Expected size, null when the server did not send it
+  state: DownloadStatus;
+  error: string | null; // Why the download was interrupted, e.g. NETWORK_FAILED
+  danger: string | null; // Chrome flagged the file, it is only kept once the user accepts it
+  exists: boolean; // The file is still on disk
+  startTime: string; // ISO 8601
+  endTime: string | null; // ISO 8601
+}
+
+/**
+ * Convert a chrome.downloads item to a download record
+ */
+export function toDownloadRecord(item: chrome.downloads.DownloadItem): DownloadRecord {
+  const received = item.fileSize > 0 ? item.fileSize : item.bytesReceived;
+  return {
+    id: item.id,
+    url: item.finalUrl || item.url,
+    filename: item.filename.split(/[\\/]/).pop() ?? '',
+    path: item.filename,
+    mime: item.mime,
+    bytes: received,
+    totalBytes: item.totalBytes > 0 ? item.totalBytes : null,
+    state: item.state as DownloadStatus,
+    error: item.error ?? null,
+    danger: item.danger && item.danger !== 'safe' && item.danger !== 'accepted' ? item.danger : null,
+    exists: item.exists,
+    startTime: item.startTime,
+    endTime: item.endTime ?? null,
+  };
+}
+
+/**
+ * Format a file size for people, e.g. "1.2 MB"
+ */
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * Describe a download in one line, e.g. "[12] report.pdf (application/pdf, 1.2 MB): complete, saved to ..."
+ */
+export function describeDownload(record: DownloadRecord): string {
+  const name = record.filename || record.url;
+  const size =
+    record.state === 'in_progress' && record.totalBytes !== null
+      ? `${formatBytes(record.bytes)} of ${formatBytes(record.totalBytes)}`
+      : formatBytes(record.bytes);
+  const details = [record.mime, size].filter(Boolean).join(', ');
+  let status: string;
+  if (record.state === 'interrupted') {
+    status = `failed${record.error ? `: ${record.error}` : ''}`;
+  } else if (record.state === 'in_progress') {
+    status = record.danger ? `waiting for the user to keep the file, flagged as ${record.danger}` : 'in progress';
+  } else {
+    status = record.exists ? `complete, saved to ${record.path}` : 'complete, but the file was deleted';
+  }
+  return `[${record.id}] ${name} (${details}): ${status}`;
+}
+
+/**
+ * Check that a download ended with its file on disk
+ */
+export function isDownloadSaved(record: DownloadRecord): boolean {
+  return record.state === 'complete' && record.exists;
+}
+
+async function getDownload(id: number): Promise<DownloadRecord | null> {
+  const [item] = await chrome.downloads.search({ id });
+  return item ? toDownloadRecord(item) : null;
+}
+
+/**
+ * Get downloads by id, downloads removed from the download list are left out
+ * @param ids - The ids of the downloads
+ */
+export async function getDownloads(ids: number[]): Promise<DownloadRecord[]> {
+  const records = await Promise.all(ids.map(getDownload));
+  return records.filter((record): record is DownloadRecord => record !== null);
+}
+
+/**
+ * Start downloading a URL to the default download folder
+ * @param url - The URL of the file
+ * @param filename - Name to save the file as, relative to the download folder, empty for the name of the server
+ * @returns The id of the download
+ */
+export async function startDownload(url: string, filename = ''): Promise<number> {
+  return chrome.downloads.download({
+    url,
+    filename: filename || undefined,
+    conflictAction: 'uniquify',
+    saveAs: false,
+  });
+}
+
+/**
+ * Wait until a download completes or fails
+ * @param id - The id of the download
+ * @param timeoutMs - How long to wait, the download is returned in progress after that
+ * @returns The download, null when it does not exist
+ */
+export async function waitForDownload(id: number, timeoutMs: number): Promise<DownloadRecord | null> {
+  await new Promise<void>(resolve => {
+    const finish = () => {
+      clearTimeout(timer);
+      chrome.downloads.onChanged.removeListener(onChanged);
+      resolve();
+    };
+    const onChanged = (delta: chrome.downloads.DownloadDelta) => {
+      if (delta.id === id && delta.state && delta.state.current !== 'in_progress') {
+        finish();
+      }
+    };
+    const timer = setTimeout(finish, timeoutMs);
+    chrome.downloads.onChanged.addListener(onChanged);
+    // The download may have ended before the listener was added
+    getDownload(id).then(record => {
+      if (!record || record.state !== 'in_progress') {
+        finish();
+      }
+    });
+  });
+  return getDownload(id);
+}
+
+/**
+ * Wait for the downloads started since a given time, e.g. by clicking a download button, to end.
+ * When none was started yet, wait for the next one.
+ * @param since - Unix timestamp in milliseconds
+ * @param timeoutMs - How long to wait in total
+ * @returns The downloads, empty when none started in time
+ */
+export async function waitForNewDownloads(since: number, timeoutMs: number): Promise<DownloadRecord[]> {
+  const deadline = Date.now() + timeoutMs;
+  let items = await chrome.downloads.search({ startedAfter: new Date(since).toISOString() });
+
+  if (items.length === 0) {
+    const created = await new Promise<chrome.downloads.DownloadItem | null>(resolve => {
+      const onCreated = (item: chrome.downloads.DownloadItem) => {
+        clearTimeout(timer);
+        chrome.downloads.onCreated.removeListener(onCreated);
+        resolve(item);
+      };
+      const timer = setTimeout(() => {
+        chrome.downloads.onCreated.removeListener(onCreated);
+        resolve(null);
+      }, timeoutMs);
+      chrome.downloads.onCreated.addListener(onCreated);
+    });
+    items = created ? [created] : [];
+  }
+
+  const records: DownloadRecord[] = [];
+  for (const item of items) {
+    const record = await waitForDownload(item.id, Math.max(deadline - Date.now(), 0));
+    if (record) {
+      records.push(record);
+    }
+  }
+  logger.info('Downloads since', new Date(since).toISOString(), records);
+  return records;
+}
+
+/**
+ * List the most recent downloads of the browser
+ * @param limit - Most downloads to list
+ */
+export async function listDownloads(limit: number): Promise<DownloadRecord[]> {
+  const items = await chrome.downloads.search({ orderBy: ['-startTime'], limit });
+  return items.map(toDownloadRecord);
+}
@@ -15,9 +15,21 @@ import {
   getClickableElements as _getClickableElements,
   removeHighlights as _removeHighlights,
   getScrollInfo as _getScrollInfo,
+  getMarkdownContent as _getMarkdownContent,
+  findTables as _findTables,
+  extractTable as _extractTable,
+  type FrameTableSummary,
 } from './dom/service';
+import type { PageTableData } from './dom/tables';
 import { DOMElementNode, type DOMState } from './dom/views';
-import { type BrowserContextConfig, DEFAULT_BROWSER_CONTEXT_CONFIG, type PageState, URLNotAllowedError } from './views';
+import {
+  type BrowserContextConfig,
+  DEFAULT_BROWSER_CONTEXT_CONFIG,
+  type PageState,
+  type UploadFile,
+  type UploadedFileInfo,
+  URLNotAllowedError,
+} from './views';
 import { createLogger } from '@src/background/log';
 import { ClickableElementProcessor } from './dom/clickable/service';
 import { isUrlAllowed } from './util';
@@ -65,6 +77,8 @@ export default class Page {
   private _config: BrowserContextConfig;
   private _state: PageState;
   private _validWebPage = false;
+  // A single element was highlighted while highlights are not displayed
+  private _elementHighlighted = false;
   private _cachedState: PageState | null = null;
   private _cachedStateClickableElementsHashes: CachedStateClickableElementsHashes | null = null;
 
@@ -173,9 +187,24 @@ export default class Page {
   }
 
   async removeHighlight(): Promise<void> {
-    if (this._config.displayHighlights && this._validWebPage) {
+    if ((this._config.displayHighlights || this._elementHighlighted) && this._validWebPage) {
       await _removeHighlights(this._tabId);
+      this._elementHighlighted = false;
+    }
+  }
+
+  /**
+   * Highlight only the element with the given index, even when highlights are not displayed,
+   * e.g. the target of an action the user reviews. Removed with the other highlights.
+   * @param index - Highlight index of the element in the current state of the page
+   */
+  async highlightElement(index: number): Promise<void> {
+    if (!this._validWebPage) {
+      return;
     }
+    await _removeHighlights(this._tabId);
+    await this.getClickableElements(true, index);
+    this._elementHighlighted = true;
   }
 
   async getClickableElements(showHighlightElements: boolean, focusElement: number): Promise<DOMState | null> {
@@ -334,6 +363,40 @@ export default class Page {
     return await this._puppeteerPage.content();
   }
 
+  /**
+   * Get the readable content of the page as markdown, hidden elements are left out
+   * @param selector - CSS selector of the part of the page to read, the main content when empty
+   */
+  async getMarkdownContent(selector?: string): Promise<string> {
+    if (!this._validWebPage) {
+      return '';
+    }
+    return _getMarkdownContent(this._tabId, selector);
+  }
+
+  /**
+   * Find the tables and data grids of the page, in every frame
+   */
+  async findTables(): Promise<FrameTableSummary[]> {
+    if (!this._validWebPage) {
+      return [];
+    }
+    return _findTables(this._tabId);
+  }
+
+  /**
+   * Read the headers and rows of a table found by findTables
+   * @param table - The table to read
+   * @param maxRows - Most rows to read
+   * @returns The table data, null when the table is gone from the page
+   */
+  async extractTable(table: FrameTableSummary, maxRows: number): Promise<PageTableData | null> {
+    if (!this._validWebPage) {
+      return null;
+    }
+    return _extractTable(this._tabId, table.frameId, table.index, maxRows);
+  }
+
   getCachedState(): PageState | null {
     return this._cachedState;
   }
@@ -1061,6 +1124,70 @@ export default class Page {
     }
   }
 
+  /**
+   * Set files on a file input: the element itself, the input of a label, or a file input inside the element,
+   * e.g. the drop zone of an uploader. Files on disk are set through CDP with DOM.setFileInputFiles, files held
+   * in memory through a DataTransfer.
+   * @param elementNode - The file input or the element that contains it
+   * @param files - The files to set, they replace the files of the input
+   * @returns The files of the input afterwards
+   */
+  async uploadFiles(elementNode: DOMElementNode, files: UploadFile[]): Promise<UploadedFileInfo[]> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer is not connected');
+    }
+    const elementHandle = await this.locateElement(elementNode);
+    if (!elementHandle) {
+      throw new Error(`Element: ${elementNode} not found`);
+    }
+
+    const inputHandle = (
+      await elementHandle.evaluateHandle(element => {
+        const isFileInput = (node: unknown): node is HTMLInputElement =>
+          node instanceof HTMLInputElement && node.type === 'file';
+        if (isFileInput(element)) {
+          return element;
+        }
+        if (element instanceof HTMLLabelElement && isFileInput(element.control)) {
+          return element.control;
+        }
+        return element.querySelector('input[type="file"]');
+      })
+    ).asElement() as ElementHandle<HTMLInputElement> | null;
+    if (!inputHandle) {
+      throw new Error('The element is not a file input and has no file input inside it');
+    }
+
+    const multiple = await inputHandle.evaluate(input => input.multiple);
+    if (files.length > 1 && !multiple) {
+      throw new Error('The file input only accepts one file');
+    }
+
+    const paths = files.map(file => file.path ?? '');
+    if (paths.every(Boolean)) {
+      await inputHandle.uploadFile(...paths);
+    } else if (!files.every(file => file.data !== undefined)) {
+      // A DataTransfer cannot read files from disk
+      throw new Error('Files on disk and attached files cannot be uploaded together');
+    } else {
+      await inputHandle.evaluate((input, contents) => {
+        const transfer = new DataTransfer();
+        for (const file of contents) {
+          const bytes = Uint8Array.from(atob(file.data ?? ''), char => char.charCodeAt(0));
+          transfer.items.add(new File([bytes], file.name, { type: file.mime }));
+        }
+        input.files = transfer.files;
+        // Pages listen for these events to pick up the files, like after a user selected them
+        input.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+        input.dispatchEvent(new Event('change', { bubbles: true }));
+      }, files);
+    }
+
+    return inputHandle.evaluate(input =>
+      Array.from(input.files ?? []).map(file => ({ name: file.name, size: file.size, type: file.type })),
+    );
+  }
+
   async locateElement(element: DOMElementNode): Promise<ElementHandle | null> {
     if (!this._puppeteerPage) {
       // throw new Error('Puppeteer page is not connected');
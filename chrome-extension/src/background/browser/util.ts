@@ -1,3 +1,5 @@
+import type { DomainActionPolicy } from '@extension/storage';
+
 /**
  * Checks if a URL is allowed based on firewall configuration
  * @param url The URL to check
@@ -92,6 +94,47 @@ export function isUrlAllowed(url: string, allowList: string[], denyList: string[
   }
 }
 
+/**
+ * Finds the domain action policy that applies to a URL, the most specific pattern wins
+ * @param url The page URL
+ * @param policies The domain action policies
+ * @returns The policy, or undefined if no policy covers the URL
+ */
+export function findDomainPolicy(url: string, policies: DomainActionPolicy[]): DomainActionPolicy | undefined {
+  let domain: string;
+  try {
+    domain = new URL(url.trim()).hostname.toLowerCase();
+  } catch (error) {
+    return undefined;
+  }
+
+  let match: DomainActionPolicy | undefined;
+  let matchLength = -1;
+  for (const policy of policies) {
+    // "*.example.com" and "example.com" both cover the domain and its subdomains
+    const entry = policy.pattern.replace(/^\*\./, '').replace(/\/.*$/, '');
+    if ((domain === entry || domain.endsWith(`.${entry}`)) && entry.length > matchLength) {
+      match = policy;
+      matchLength = entry.length;
+    }
+  }
+  return match;
+}
+
+/**
+ * Checks if a domain action policy allows an action. done is always allowed so the task can finish.
+ * @param policy The domain action policy
+ * @param actionName The action name
+ * @returns True if the action is allowed, false otherwise
+ */
+export function isActionAllowed(policy: DomainActionPolicy, actionName: string): boolean {
+  if (actionName === 'done') {
+    return true;
+  }
+  const listed = policy.actions.includes(actionName);
+  return policy.mode === 'allow' ? listed : !listed;
+}
+
 // Check if a URL is a new tab page (about:blank or chrome://new-tab-page).
 export function isNewTabPage(url: string): boolean {
   return url === 'about:blank' || url === 'chrome://new-tab-page' || url === 'chrome://new-tab-page/';
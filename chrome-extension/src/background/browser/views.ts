@@ -108,6 +108,21 @@ export interface TabInfo {
   title: string;
 }
 
+// A file to set on a file input, either on disk or held in memory
+export interface UploadFile {
+  name: string;
+  mime: string;
+  path?: string; // Full path on disk, e.g. of a downloaded file
+  data?: string; // Base64 content, for files that are not on disk
+}
+
+// A file of a file input, as the page sees it
+export interface UploadedFileInfo {
+  name: string;
+  size: number;
+  type: string;
+}
+
 export interface BrowserState extends PageState {
   tabs: TabInfo[];
   // browser_errors: string[];
@@ -149,3 +164,13 @@ export class URLNotAllowedError extends BrowserError {
     this.name = 'URLNotAllowedError';
   }
 }
+
+export class ActionNotAllowedError extends BrowserError {
+  /**
+   * Error raised when a domain action policy does not allow an action
+   */
+  constructor(message?: string) {
+    super(message);
+    this.name = 'ActionNotAllowedError';
+  }
+}
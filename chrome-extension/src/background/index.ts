@@ -2,22 +2,34 @@ import 'webextension-polyfill';
 import {
   agentModelStore,
   AgentNameEnum,
+  approvalStore,
   firewallStore,
   generalSettingsStore,
   llmProviderStore,
   analyticsSettingsStore,
+  checklistTemplateStore,
+  attachmentStore,
+  customActionStore,
+  getDefaultAgentModelParams,
+  type ModelConfig,
+  type ModelPrice,
 } from '@extension/storage';
+import { chatHistoryStore } from '@extension/storage/lib/chat';
 import { t } from '@extension/i18n';
+import { checkJsonSchema } from '@extension/schema-utils';
 import BrowserContext from './browser/context';
-import { Executor } from './agent/executor';
+import { Executor, type TaskCheckpoint } from './agent/executor';
 import { createLogger } from './log';
 import { ExecutionState } from './agent/event/types';
 import { createChatModel } from './agent/helper';
+import { getTokenizer } from './agent/messages/tokenizer';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import { DEFAULT_AGENT_OPTIONS } from './agent/types';
+import { type AgentOptions, DEFAULT_AGENT_OPTIONS } from './agent/types';
 import { SpeechToTextService } from './services/speechToText';
 import { injectBuildDomTreeScripts } from './browser/dom/service';
 import { analytics } from './services/analytics';
+import { TaskQueueManager } from './task/manager';
+import { TaskScheduler } from './task/scheduler';
 
 const logger = createLogger('background');
 
@@ -58,6 +70,18 @@ analytics.init().catch(error => {
   logger.error('Failed to initialize analytics:', error);
 });
 
+// Resume the background task queue, including tasks interrupted by a service worker restart
+const taskQueueManager = new TaskQueueManager(setupExecutor);
+taskQueueManager.init().catch(error => {
+  logger.error('Failed to initialize task queue:', error);
+});
+
+// Run scheduled tasks from chrome.alarms
+const taskScheduler = new TaskScheduler(setupExecutor);
+taskScheduler.init().catch(error => {
+  logger.error('Failed to initialize task scheduler:', error);
+});
+
 // Listen for analytics settings changes
 analyticsSettingsStore.subscribe(() => {
   analytics.updateSettings().catch(error => {
@@ -89,8 +113,12 @@ chrome.runtime.onConnect.addListener(port => {
             if (!message.task) return port.postMessage({ type: 'error', error: t('bg_cmd_newTask_noTask') });
             if (!message.tabId) return port.postMessage({ type: 'error', error: t('bg_errors_noTabId') });
 
-            logger.info('new_task', message.tabId, message.task);
-            currentExecutor = await setupExecutor(message.taskId, message.task, browserContext);
+            logger.info('new_task', message.tabId, message.task, message.dryRun ? '(dry run)' : '');
+            currentExecutor = await setupExecutor(message.taskId, message.task, browserContext, {
+              dryRun: message.dryRun === true,
+              stepThrough: message.stepThrough === true,
+              answerSchema: message.answerSchema ? checkJsonSchema(message.answerSchema) : null,
+            });
             subscribeToExecutorEvents(currentExecutor);
 
             const result = await currentExecutor.execute();
@@ -131,6 +159,42 @@ chrome.runtime.onConnect.addListener(port => {
             return port.postMessage({ type: 'success' });
           }
 
+          case 'resume_checkpoint': {
+            if (!message.tabId) return port.postMessage({ type: 'error', error: t('bg_errors_noTabId') });
+            if (!message.taskId) return port.postMessage({ type: 'error', error: t('bg_errors_noTaskId') });
+
+            const checkpoint = await chatHistoryStore.loadTaskCheckpoint(message.taskId);
+            if (!checkpoint) return port.postMessage({ type: 'error', error: t('bg_cmd_resumeCheckpoint_notFound') });
+            logger.info('resume_checkpoint', message.tabId, message.taskId, checkpoint.step);
+
+            // Rebuild the executor of the interrupted task, with the modes it was started with,
+            // and continue after its last completed step
+            const { answerSchema = null, stepThrough = false } = JSON.parse(checkpoint.state) as TaskCheckpoint;
+            await browserContext.switchTab(message.tabId);
+            currentExecutor = await setupExecutor(message.taskId, checkpoint.task, browserContext, {
+              answerSchema,
+              stepThrough,
+            });
+            await currentExecutor.restoreCheckpoint(checkpoint.state);
+            subscribeToExecutorEvents(currentExecutor);
+
+            const result = await currentExecutor.execute();
+            logger.info('resume_checkpoint execution result', message.tabId, result);
+            break;
+          }
+
+          case 'step_review_response': {
+            if (!currentExecutor) return port.postMessage({ type: 'error', error: t('bg_errors_noRunningTask') });
+            currentExecutor.resolveStepReview(message.id, message.decision);
+            return port.postMessage({ type: 'success' });
+          }
+
+          case 'approval_response': {
+            if (!currentExecutor) return port.postMessage({ type: 'error', error: t('bg_errors_noRunningTask') });
+            currentExecutor.resolveApproval(message.id, message.decision);
+            return port.postMessage({ type: 'success' });
+          }
+
           case 'pause_task': {
             if (!currentExecutor) return port.postMessage({ type: 'error', error: t('bg_errors_noRunningTask') });
             await currentExecutor.pause();
@@ -255,16 +319,18 @@ chrome.runtime.onConnect.addListener(port => {
   }
 });
 
-async function setupExecutor(taskId: string, task: string, browserContext: BrowserContext) {
+async function setupExecutor(
+  taskId: string,
+  task: string,
+  browserContext: BrowserContext,
+  modes: Partial<Pick<AgentOptions, 'dryRun' | 'stepThrough' | 'answerSchema'>> = {},
+) {
   const providers = await llmProviderStore.getAllProviders();
   // if no providers, need to display the options page
   if (Object.keys(providers).length === 0) {
     throw new Error(t('bg_setup_noApiKeys'));
   }
 
-  // Clean up any legacy validator settings for backward compatibility
-  await agentModelStore.cleanupLegacyValidatorSettings();
-
   const agentModels = await agentModelStore.getAllAgentModels();
   // verify if every provider used in the agent models exists in the providers
   for (const agentModel of Object.values(agentModels)) {
@@ -273,6 +339,17 @@ async function setupExecutor(taskId: string, task: string, browserContext: Brows
     }
   }
 
+  // Fallback models of an agent use its default parameters, models of removed providers are skipped
+  const createFallbackLLMs = (agent: AgentNameEnum, modelConfig: ModelConfig) =>
+    (modelConfig.fallbacks ?? [])
+      .filter(fallback => providers[fallback.provider])
+      .map(fallback =>
+        createChatModel(providers[fallback.provider], {
+          ...fallback,
+          parameters: getDefaultAgentModelParams(fallback.provider, agent),
+        }),
+      );
+
   const navigatorModel = agentModels[AgentNameEnum.Navigator];
   if (!navigatorModel) {
     throw new Error(t('bg_setup_noNavigatorModel'));
@@ -289,6 +366,20 @@ async function setupExecutor(taskId: string, task: string, browserContext: Brows
     plannerLLM = createChatModel(plannerProviderConfig, plannerModel);
   }
 
+  let validatorLLM: BaseChatModel | null = null;
+  const validatorModel = agentModels[AgentNameEnum.Validator];
+  if (validatorModel) {
+    // Log the provider config being used for the validator
+    const validatorProviderConfig = providers[validatorModel.provider];
+    validatorLLM = createChatModel(validatorProviderConfig, validatorModel);
+  }
+
+  let compactorLLM: BaseChatModel | null = null;
+  const compactorModel = agentModels[AgentNameEnum.Compactor];
+  if (compactorModel) {
+    compactorLLM = createChatModel(providers[compactorModel.provider], compactorModel);
+  }
+
   // Apply firewall settings to browser context
   const firewall = await firewallStore.getFirewall();
   if (firewall.enabled) {
@@ -309,8 +400,38 @@ async function setupExecutor(taskId: string, task: string, browserContext: Brows
     displayHighlights: generalSettings.displayHighlights,
   });
 
+  const customActions = await customActionStore.getConfig();
+  const checklistTemplates = await checklistTemplateStore.getAllTemplates();
+  const attachments = await attachmentStore.getAttachments();
+  const approval = await approvalStore.getConfig();
+
+  // Prices of the selected models and their fallbacks, by model name, to estimate the cost of the task
+  const modelPrices: Record<string, ModelPrice> = {};
+  for (const agentModel of Object.values(agentModels)) {
+    for (const model of [agentModel, ...(agentModel.fallbacks ?? [])]) {
+      const price = providers[model.provider]?.modelPrices?.[model.modelName];
+      if (price) {
+        modelPrices[model.modelName] = price;
+      }
+    }
+  }
+
   const executor = new Executor(task, taskId, browserContext, navigatorLLM, {
     plannerLLM: plannerLLM ?? navigatorLLM,
+    validatorLLM: validatorLLM ?? undefined,
+    compactorLLM: compactorLLM ?? undefined,
+    fallbackLLMs: {
+      [AgentNameEnum.Navigator]: createFallbackLLMs(AgentNameEnum.Navigator, navigatorModel),
+      // The planner runs on the navigator model when it has none of its own
+      [AgentNameEnum.Planner]: plannerModel
+        ? createFallbackLLMs(AgentNameEnum.Planner, plannerModel)
+        : createFallbackLLMs(AgentNameEnum.Navigator, navigatorModel),
+      [AgentNameEnum.Validator]: validatorModel ? createFallbackLLMs(AgentNameEnum.Validator, validatorModel) : [],
+      // The compactor runs on the navigator model when it has none of its own
+      [AgentNameEnum.Compactor]: compactorModel
+        ? createFallbackLLMs(AgentNameEnum.Compactor, compactorModel)
+        : createFallbackLLMs(AgentNameEnum.Navigator, navigatorModel),
+    },
     agentOptions: {
       maxSteps: generalSettings.maxSteps,
       maxFailures: generalSettings.maxFailures,
@@ -318,8 +439,16 @@ async function setupExecutor(taskId: string, task: string, browserContext: Brows
       useVision: generalSettings.useVision,
       useVisionForPlanner: true,
       planningInterval: generalSettings.planningInterval,
+      approvalPolicies: approval.enabled ? approval.policies.filter(policy => policy.enabled) : [],
+      ...modes,
     },
     generalSettings: generalSettings,
+    customActions,
+    checklistTemplates,
+    modelPrices,
+    domainPolicies: firewall.enabled ? firewall.domainPolicies : [],
+    tokenizer: await getTokenizer(navigatorModel.modelName, navigatorProviderConfig.type),
+    attachments,
   });
 
   return executor;
@@ -343,7 +472,8 @@ async function subscribeToExecutorEvents(executor: Executor) {
     if (
       event.state === ExecutionState.TASK_OK ||
       event.state === ExecutionState.TASK_FAIL ||
-      event.state === ExecutionState.TASK_CANCEL
+      event.state === ExecutionState.TASK_CANCEL ||
+      event.state === ExecutionState.TASK_BUDGET_EXCEEDED
     ) {
       await currentExecutor?.cleanup();
     }
@@ -22,6 +22,7 @@ export class AnalyticsService {
     ChatModelForbiddenError: 'llm_forbidden_error',
     ResponseParseError: 'llm_response_parse_error',
     URLNotAllowedError: 'url_blocked_error',
+    ActionNotAllowedError: 'action_blocked_error',
     RequestCancelledError: 'request_cancelled_error',
     ExtensionConflictError: 'extension_conflict_error',
     InvalidInputError: 'invalid_input_error',
@@ -32,6 +33,7 @@ export class AnalyticsService {
     SyntaxError: 'syntax_error',
     MaxStepsReachedError: 'max_steps_reached',
     MaxFailuresReachedError: 'max_failures_reached',
+    BudgetExceededError: 'budget_exceeded',
   } as const;
 
   private static readonly MESSAGE_PATTERNS: Array<[RegExp, string]> = [
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_APPROVAL_CONFIG, type ApprovalPolicy } from '@extension/storage';
+import { classifyAction, matchesUrlPattern, ThreatType } from '../index';
+
+const policies = DEFAULT_APPROVAL_CONFIG.policies;
+
+const click = (text: string, attributes: Record<string, string> = {}, url = 'https://shop.example.com/cart') => ({
+  actionName: 'click_element',
+  args: { index: 3 },
+  url,
+  element: { text, attributes },
+});
+
+describe('Action approval - classifyAction', () => {
+  it('matches keywords in the element text as whole words', () => {
+    const result = classifyAction(policies, click('Delete account'));
+    expect(result?.threat).toBe(ThreatType.DANGEROUS_ACTION);
+    expect(result?.policy.id).toBe('delete');
+
+    expect(classifyAction(policies, click('Sender details'))).toBeNull();
+    expect(classifyAction(policies, click('Buyer reviews'))).toBeNull();
+  });
+
+  it('matches keywords in descriptive attributes and multi-word keywords', () => {
+    expect(classifyAction(policies, click('', { id: 'btn-remove_row' }))?.policy.id).toBe('delete');
+    expect(classifyAction(policies, click('Place   order'))?.policy.id).toBe('submit');
+    expect(classifyAction(policies, click('', { type: 'submit' }))?.policy.id).toBe('submit');
+    expect(classifyAction(policies, click('Continue', { class: 'delete' }))).toBeNull();
+  });
+
+  it('matches keywords in languages other than English', () => {
+    const localized = policies.map(policy =>
+      policy.id === 'delete' ? { ...policy, keywords: [...policy.keywords, 'excluir', 'exclusão', '刪除'] } : policy,
+    );
+    expect(classifyAction(localized, click('Confirmar exclusão'))?.policy.id).toBe('delete');
+    expect(classifyAction(localized, click('Excluir_arquivo'))?.policy.id).toBe('delete');
+    expect(classifyAction(localized, click('刪除檔案'))?.policy.id).toBe('delete');
+    expect(classifyAction(localized, click('Exclusões recentes'))).toBeNull();
+    expect(classifyAction(localized, click('檔案列表'))).toBeNull();
+  });
+
+  it('filters by action name and skips disabled policies', () => {
+    const sendKeys = { actionName: 'send_keys', args: { keys: 'Enter' }, url: 'https://example.com' };
+    expect(classifyAction(policies, sendKeys)).toBeNull();
+
+    const enabled = policies.map(policy => ({ ...policy, enabled: true }));
+    expect(classifyAction(enabled, sendKeys)?.policy.id).toBe('enter');
+    expect(classifyAction(enabled, { ...click('Enter the draw'), actionName: 'go_to_url' })).toBeNull();
+  });
+
+  it('requires every non-empty criterion to match', () => {
+    const bank: ApprovalPolicy = {
+      id: 'bank',
+      name: 'Bank',
+      enabled: true,
+      actions: [],
+      keywords: [],
+      urlPatterns: ['mybank.com/transfer*'],
+    };
+    expect(classifyAction([bank], click('Next', {}, 'https://online.mybank.com/transfer/new'))?.policy.id).toBe('bank');
+    expect(classifyAction([bank], click('Next', {}, 'https://mybank.com/accounts'))).toBeNull();
+    expect(
+      classifyAction([{ ...bank, keywords: ['confirm'] }], click('Next', {}, 'https://mybank.com/transfer')),
+    ).toBeNull();
+  });
+
+  it('matches URL patterns against the URL an action goes to', () => {
+    const bank: ApprovalPolicy = {
+      id: 'bank',
+      name: 'Bank',
+      enabled: true,
+      actions: [],
+      keywords: [],
+      urlPatterns: ['mybank.com/transfer*'],
+    };
+    const goTo = (actionName: string, url: string) => ({
+      actionName,
+      args: { url },
+      url: 'https://www.google.com/search?q=mybank',
+    });
+    expect(classifyAction([bank], goTo('go_to_url', 'https://mybank.com/transfer/new'))?.policy.id).toBe('bank');
+    expect(classifyAction([bank], goTo('open_tab', 'https://online.mybank.com/transfer'))?.policy.id).toBe('bank');
+    expect(classifyAction([bank], goTo('download_file', 'https://mybank.com/transfer.pdf'))?.policy.id).toBe('bank');
+    expect(classifyAction([bank], goTo('go_to_url', 'https://mybank.com/accounts'))).toBeNull();
+    expect(classifyAction([bank], goTo('cache_content', 'https://mybank.com/transfer'))).toBeNull();
+  });
+});
+
+describe('Action approval - matchesUrlPattern', () => {
+  it('matches hosts, subdomains and wildcards', () => {
+    expect(matchesUrlPattern('https://mail.google.com/mail/u/0', 'google.com')).toBe(true);
+    expect(matchesUrlPattern('https://notgoogle.com', 'google.com')).toBe(false);
+    expect(matchesUrlPattern('https://admin.example.com/users', '*.example.com/users')).toBe(true);
+    expect(matchesUrlPattern('http://example.com/a', 'https://example.com')).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Classification of navigator actions that need the user's approval
+ */
+
+import type { ApprovalPolicy } from '@extension/storage';
+import { ThreatType } from './types';
+
+// Element attributes that describe what an element does
+const DESCRIPTIVE_ATTRIBUTES = ['type', 'name', 'value', 'id', 'role', 'title', 'alt', 'aria-label', 'placeholder'];
+// Actions that go to the URL in their url argument, URL patterns are matched against it too
+const URL_ARGUMENT_ACTIONS = ['go_to_url', 'open_tab', 'download_file'];
+
+/**
+ * What the navigator is about to do
+ */
+export interface ActionApprovalSubject {
+  actionName: string;
+  args: Record<string, unknown>;
+  url: string;
+  element?: {
+    text: string;
+    attributes: Record<string, string>;
+  };
+}
+
+/**
+ * Classification result
+ */
+export interface ActionClassification {
+  threat: ThreatType.DANGEROUS_ACTION;
+  policy: ApprovalPolicy;
+}
+
+// Built from strings, the type-check targets ES5 which has no unicode flag for regex literals
+const SEPARATORS = new RegExp('[^\\p{L}\\p{M}\\p{N}]+', 'gu');
+// Scripts written without spaces between words, their keywords match anywhere in the text
+const UNSPACED_SCRIPT = new RegExp('[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Thai}]', 'u');
+
+// Lowercase and collapse separators so "btn-delete_row" contains the word "delete", letters of any language are kept
+const normalizeWords = (value: string) => ` ${value.toLowerCase().replace(SEPARATORS, ' ').trim()} `;
+
+const containsKeyword = (words: string, keyword: string) => {
+  const term = normalizeWords(keyword);
+  if (term.trim() === '') {
+    return false;
+  }
+  return UNSPACED_SCRIPT.test(term) ? words.includes(term.trim()) : words.includes(term);
+};
+
+const globToRegExp = (pattern: string) => {
+  const escaped = pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  // Patterns without a scheme match the host and its subdomains
+  return new RegExp(`^(?:[^/]*\\.)?${escaped}`);
+};
+
+/**
+ * Checks whether a URL matches an approval policy URL pattern
+ * @param url The page URL
+ * @param pattern The pattern, e.g. "mail.google.com" or "*.bank.com/transfer*"
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(url.toLowerCase().replace(/^https?:\/\//, ''));
+}
+
+/**
+ * Describes an action as words that policy keywords are matched against.
+ * Actions on an element are described by the element, other actions by their string arguments.
+ */
+function describeSubject(subject: ActionApprovalSubject): string {
+  if (subject.element) {
+    const attributes = DESCRIPTIVE_ATTRIBUTES.map(name => subject.element?.attributes[name] ?? '');
+    return normalizeWords([subject.element.text, ...attributes].join(' '));
+  }
+  const values = Object.values(subject.args).filter(value => typeof value === 'string');
+  return normalizeWords(values.join(' '));
+}
+
+/**
+ * The URLs an action concerns, the page it runs on and the URL it goes to
+ */
+function subjectUrls(subject: ActionApprovalSubject): string[] {
+  const target = subject.args.url;
+  return URL_ARGUMENT_ACTIONS.includes(subject.actionName) && typeof target === 'string' && target.trim() !== ''
+    ? [subject.url, target]
+    : [subject.url];
+}
+
+/**
+ * Finds the first enabled policy that requires approval for an action
+ * @param policies The approval policies
+ * @param subject The action about to run
+ * @returns The classification, or null if the action can run without approval
+ */
+export function classifyAction(
+  policies: ApprovalPolicy[],
+  subject: ActionApprovalSubject,
+): ActionClassification | null {
+  const words = describeSubject(subject);
+  const urls = subjectUrls(subject);
+  const policy = policies.find(
+    policy =>
+      policy.enabled &&
+      (policy.actions.length === 0 || policy.actions.includes(subject.actionName)) &&
+      (policy.keywords.length === 0 || policy.keywords.some(keyword => containsKeyword(words, keyword))) &&
+      (policy.urlPatterns.length === 0 ||
+        policy.urlPatterns.some(pattern => urls.some(url => matchesUrlPattern(url, pattern)))),
+  );
+  return policy ? { threat: ThreatType.DANGEROUS_ACTION, policy } : null;
+}
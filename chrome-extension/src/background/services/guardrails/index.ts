@@ -171,6 +171,7 @@ export class SecurityGuardrails {
 export * from './types';
 export * from './patterns';
 export * from './sanitizer';
+export * from './approval';
 
 // Create a default instance
 export const guardrails = new SecurityGuardrails();
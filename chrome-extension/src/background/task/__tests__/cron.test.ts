@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { getNextRunTime, InvalidCronExpressionError, parseCronExpression } from '../cron';
+
+// Local time helper, cron expressions are evaluated in local time
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+describe('Task Scheduler - Cron', () => {
+  it('parses lists, ranges and steps', () => {
+    const schedule = parseCronExpression('*/15 8-10 1,15 * 1-5');
+    expect([...schedule.minutes.values]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours.values]).toEqual([8, 9, 10]);
+    expect([...schedule.daysOfMonth.values]).toEqual([1, 15]);
+    expect(schedule.months.wildcard).toBe(true);
+    expect([...schedule.daysOfWeek.values]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow(InvalidCronExpressionError);
+    expect(() => parseCronExpression('60 * * * *')).toThrow(InvalidCronExpressionError);
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow(InvalidCronExpressionError);
+    expect(() => parseCronExpression('a * * * *')).toThrow(InvalidCronExpressionError);
+  });
+
+  it('returns the next matching minute strictly after the reference time', () => {
+    expect(getNextRunTime('0 8 * * *', at(2024, 3, 4, 7, 59))).toBe(at(2024, 3, 4, 8, 0));
+    expect(getNextRunTime('0 8 * * *', at(2024, 3, 4, 8, 0))).toBe(at(2024, 3, 5, 8, 0));
+  });
+
+  it('skips weekends for weekday schedules', () => {
+    // 2024-03-08 is a Friday
+    expect(getNextRunTime('30 6 * * 1-5', at(2024, 3, 8, 7, 0))).toBe(at(2024, 3, 11, 6, 30));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2024-03-01 is a Friday, the next Monday is 2024-03-04
+    expect(getNextRunTime('0 0 15 * 1', at(2024, 3, 1, 12, 0))).toBe(at(2024, 3, 4, 0, 0));
+  });
+
+  it('supports aliases and rolls over months and years', () => {
+    expect(getNextRunTime('@monthly', at(2024, 12, 15, 10, 0))).toBe(at(2025, 1, 1, 0, 0));
+    expect(getNextRunTime('0 0 29 2 *', at(2024, 3, 1))).toBe(at(2028, 2, 29, 0, 0));
+  });
+});
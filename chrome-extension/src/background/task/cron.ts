@@ -0,0 +1,151 @@
+/**
+ * Minimal cron expression support for scheduled tasks.
+ *
+ * Supports the standard five fields (minute hour day-of-month month day-of-week) with
+ * `*`, lists (`1,15`), ranges (`1-5`) and steps (`*\/15`, `0-30/10`), plus the
+ * `@hourly`, `@daily`, `@weekly` and `@monthly` shortcuts. Times are evaluated in local time.
+ */
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface CronSchedule {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+export class InvalidCronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCronExpressionError';
+  }
+}
+
+function parseField(field: string, min: number, max: number, name: string): CronField {
+  const values = new Set<number>();
+  const wildcard = field === '*';
+
+  for (const part of field.split(',')) {
+    const [range, stepStr] = part.split('/');
+    const step = stepStr === undefined ? 1 : Number(stepStr);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new InvalidCronExpressionError(`Invalid step "${stepStr}" in ${name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = Number(from);
+      end = Number(to);
+    } else {
+      start = Number(range);
+      // "5/10" means every 10 starting at 5
+      end = stepStr === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new InvalidCronExpressionError(`Invalid value "${part}" in ${name} field`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard };
+}
+
+/**
+ * Parse a cron expression
+ * @param expression The cron expression, e.g. "0 8 * * 1-5"
+ * @returns The parsed schedule
+ * @throws InvalidCronExpressionError if the expression is not valid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = CRON_ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new InvalidCronExpressionError(`Expected 5 fields but got ${fields.length}`);
+  }
+
+  const daysOfWeek = parseField(fields[4], 0, 7, 'day-of-week');
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.values.has(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  return {
+    minutes: parseField(fields[0], 0, 59, 'minute'),
+    hours: parseField(fields[1], 0, 23, 'hour'),
+    daysOfMonth: parseField(fields[2], 1, 31, 'day-of-month'),
+    months: parseField(fields[3], 1, 12, 'month'),
+    daysOfWeek,
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.values.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.values.has(date.getDay());
+  // As in cron, when both day fields are restricted a match on either is enough
+  if (!schedule.daysOfMonth.wildcard && !schedule.daysOfWeek.wildcard) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the next time a cron expression fires, strictly after the given time
+ * @param expression The cron expression
+ * @param from The reference time in milliseconds
+ * @returns The next run time in milliseconds
+ * @throws InvalidCronExpressionError if the expression is not valid or never fires
+ */
+export function getNextRunTime(expression: string, from: number = Date.now()): number {
+  const schedule = parseCronExpression(expression);
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Look ahead up to five years, which covers expressions such as "0 0 29 2 *"
+  const limit = new Date(date);
+  limit.setFullYear(limit.getFullYear() + 5);
+
+  while (date < limit) {
+    if (!schedule.months.values.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.values.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.values.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+    return date.getTime();
+  }
+
+  throw new InvalidCronExpressionError(`Expression "${expression}" never fires`);
+}
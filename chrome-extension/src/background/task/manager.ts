@@ -0,0 +1,143 @@
+import {
+  applyWorkflowParameters,
+  type QueuedTask,
+  QueuedTaskStatus,
+  taskQueueStore,
+  workflowStore,
+} from '@extension/storage';
+import type { Executor } from '../agent/executor';
+import { createLogger } from '../log';
+import { BackgroundTaskStatus, type ExecutorFactory, runBackgroundTask } from './runner';
+
+const logger = createLogger('TaskQueue');
+
+const QUEUE_STATUS: Record<BackgroundTaskStatus, QueuedTaskStatus> = {
+  [BackgroundTaskStatus.COMPLETED]: QueuedTaskStatus.COMPLETED,
+  [BackgroundTaskStatus.FAILED]: QueuedTaskStatus.FAILED,
+  [BackgroundTaskStatus.CANCELLED]: QueuedTaskStatus.CANCELLED,
+};
+
+/**
+ * Runs queued tasks from storage in the background, each in its own tab and BrowserContext.
+ * The queue state lives in storage, so tasks that were running when the service worker
+ * stopped are picked up again on the next start.
+ */
+export class TaskQueueManager {
+  private readonly createExecutor: ExecutorFactory;
+  // ids of the tasks that currently hold a slot
+  private readonly active = new Set<string>();
+  private readonly executors = new Map<string, Executor>();
+  private processing = false;
+  private processAgain = false;
+
+  constructor(createExecutor: ExecutorFactory) {
+    this.createExecutor = createExecutor;
+  }
+
+  async init(): Promise<void> {
+    const requeued = await taskQueueStore.requeueInterrupted();
+    if (requeued > 0) {
+      logger.info(`Requeued ${requeued} interrupted task(s)`);
+    }
+    // The side panel edits the queue through storage, so react to every change
+    taskQueueStore.subscribe(() => {
+      void this.processQueue();
+    });
+    await this.processQueue();
+  }
+
+  hasRunningTasks(): boolean {
+    return this.active.size > 0;
+  }
+
+  /**
+   * Fill the free slots with pending tasks and stop executors whose task was cancelled
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing) {
+      this.processAgain = true;
+      return;
+    }
+    this.processing = true;
+
+    try {
+      do {
+        this.processAgain = false;
+        const state = await taskQueueStore.getState();
+
+        for (const task of state.tasks) {
+          if (task.status === QueuedTaskStatus.CANCELLED) {
+            await this.executors.get(task.id)?.cancel();
+          }
+        }
+
+        const freeSlots = state.concurrency - this.active.size;
+        const pending = state.tasks
+          .filter(task => task.status === QueuedTaskStatus.PENDING && !this.active.has(task.id))
+          .slice(0, Math.max(0, freeSlots));
+        for (const task of pending) {
+          this.active.add(task.id);
+          void this.runTask(task);
+        }
+      } while (this.processAgain);
+    } catch (error) {
+      logger.error('Failed to process task queue:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Build the replay of a queued workflow run with its parameter values applied
+   */
+  private async createWorkflowRun(queuedTask: QueuedTask): Promise<(executor: Executor) => Promise<unknown>> {
+    const workflow = await workflowStore.getWorkflow(queuedTask.workflowId!);
+    if (!workflow) {
+      throw new Error(`Workflow ${queuedTask.workflowId} not found`);
+    }
+    const history = applyWorkflowParameters(workflow.history, workflow.parameters, queuedTask.parameters ?? {});
+    return executor => executor.replayWorkflow(history);
+  }
+
+  private async runTask(queuedTask: QueuedTask): Promise<void> {
+    logger.info('Running queued task', queuedTask.id, queuedTask.task);
+    try {
+      const outcome = await runBackgroundTask(this.createExecutor, queuedTask.task, {
+        sessionId: queuedTask.sessionId,
+        run: queuedTask.workflowId ? await this.createWorkflowRun(queuedTask) : undefined,
+        onStart: async ({ sessionId, tabId, executor }) => {
+          this.executors.set(queuedTask.id, executor);
+          // The task may have been cancelled while its tab and executor were being set up
+          const state = await taskQueueStore.getState();
+          if (state.tasks.find(task => task.id === queuedTask.id)?.status === QueuedTaskStatus.CANCELLED) {
+            await executor.cancel();
+            return;
+          }
+          await taskQueueStore.updateTask(queuedTask.id, {
+            status: QueuedTaskStatus.RUNNING,
+            sessionId,
+            tabId,
+            startedAt: Date.now(),
+          });
+        },
+      });
+      await taskQueueStore.updateTask(queuedTask.id, {
+        status: QUEUE_STATUS[outcome.status],
+        sessionId: outcome.sessionId,
+        result: outcome.result,
+        finishedAt: Date.now(),
+      });
+    } catch (error) {
+      logger.error('Failed to run queued task:', error);
+      await taskQueueStore.updateTask(queuedTask.id, {
+        status: QueuedTaskStatus.FAILED,
+        result: error instanceof Error ? error.message : String(error),
+        finishedAt: Date.now(),
+      });
+    } finally {
+      this.executors.delete(queuedTask.id);
+      this.active.delete(queuedTask.id);
+      void this.processQueue();
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { Actors, type ApprovalRequest, chatHistoryStore } from '@extension/storage';
+import BrowserContext from '../browser/context';
+import type { Executor } from '../agent/executor';
+import { ExecutionState } from '../agent/event/types';
+import { createLogger } from '../log';
+
+const logger = createLogger('TaskRunner');
+
+export type ExecutorFactory = (taskId: string, task: string, browserContext: BrowserContext) => Promise<Executor>;
+
+export enum BackgroundTaskStatus {
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface BackgroundTaskOutcome {
+  status: BackgroundTaskStatus;
+  result: string; // Final answer or error message
+  sessionId?: string; // Chat session the task was recorded in
+}
+
+export interface BackgroundTaskOptions {
+  sessionId?: string; // Reuse an existing chat session instead of creating one
+  sessionTitle?: string;
+  onStart?: (info: { sessionId: string; tabId: number; executor: Executor }) => void | Promise<void>;
+  run?: (executor: Executor) => Promise<unknown>; // Drive the executor instead of executor.execute(), e.g. to replay
+}
+
+/**
+ * Run a task without the side panel, in a new background tab with its own BrowserContext.
+ * The task and its final answer are recorded in chat history.
+ */
+export async function runBackgroundTask(
+  createExecutor: ExecutorFactory,
+  task: string,
+  options: BackgroundTaskOptions = {},
+): Promise<BackgroundTaskOutcome> {
+  const browserContext = new BrowserContext({});
+  let sessionId = options.sessionId;
+
+  try {
+    if (!sessionId) {
+      const session = await chatHistoryStore.createSession(options.sessionTitle || task);
+      sessionId = session.id;
+      await chatHistoryStore.addMessage(sessionId, {
+        actor: Actors.USER,
+        content: task,
+        timestamp: Date.now(),
+      });
+    }
+
+    // Every task gets its own tab so tasks can run side by side
+    const tab = await chrome.tabs.create({ url: browserContext.getConfig().homePageUrl, active: false });
+    if (!tab.id) {
+      throw new Error('No tab ID available');
+    }
+    browserContext.updateCurrentTabId(tab.id);
+
+    const executor = await createExecutor(sessionId, task, browserContext);
+    await options.onStart?.({ sessionId, tabId: tab.id, executor });
+    const outcome = await execute(executor, options.run);
+
+    await chatHistoryStore.addMessage(sessionId, {
+      actor: Actors.SYSTEM,
+      content: outcome.result,
+      timestamp: Date.now(),
+    });
+    return { ...outcome, sessionId };
+  } catch (error) {
+    logger.error('Background task failed:', error);
+    return {
+      status: BackgroundTaskStatus.FAILED,
+      result: error instanceof Error ? error.message : String(error),
+      sessionId,
+    };
+  } finally {
+    try {
+      await browserContext.cleanup();
+    } catch (error) {
+      logger.error('Failed to cleanup browser context:', error);
+    }
+  }
+}
+
+/**
+ * Execute the task and resolve with the outcome reported by the last task event
+ */
+async function execute(
+  executor: Executor,
+  run: (executor: Executor) => Promise<unknown> = executor => executor.execute(),
+): Promise<BackgroundTaskOutcome> {
+  let outcome: BackgroundTaskOutcome = { status: BackgroundTaskStatus.FAILED, result: 'Task ended without a result' };
+  let budgetPaused = false;
+
+  executor.subscribeExecutionEvents(async event => {
+    switch (event.state) {
+      case ExecutionState.TASK_OK:
+        outcome = { status: BackgroundTaskStatus.COMPLETED, result: event.data.details };
+        break;
+      case ExecutionState.TASK_FAIL:
+      case ExecutionState.TASK_BUDGET_EXCEEDED:
+        outcome = { status: BackgroundTaskStatus.FAILED, result: event.data.details };
+        break;
+      case ExecutionState.TASK_PAUSE:
+        // Nobody can resume a background task, so a task paused for its budget is stopped instead
+        budgetPaused = true;
+        outcome = { status: BackgroundTaskStatus.FAILED, result: event.data.details };
+        await executor.cancel();
+        break;
+      case ExecutionState.ACT_APPROVAL: {
+        // Nobody can approve an action of a background task either, so the navigator has to do without it
+        const request: ApprovalRequest = JSON.parse(event.data.details);
+        executor.resolveApproval(request.id, {
+          approved: false,
+          reason: 'actions that need approval can not run in background tasks',
+        });
+        break;
+      }
+      case ExecutionState.TASK_CANCEL:
+        if (!budgetPaused) {
+          outcome = { status: BackgroundTaskStatus.CANCELLED, result: event.data.details };
+        }
+        break;
+      default:
+        break;
+    }
+  });
+
+  try {
+    await run(executor);
+  } finally {
+    executor.clearExecutionEvents();
+  }
+  return outcome;
+}
@@ -0,0 +1,138 @@
+import { type ScheduledTask, scheduledTaskStore } from '@extension/storage';
+import { createLogger } from '../log';
+import { getNextRunTime } from './cron';
+import { type ExecutorFactory, runBackgroundTask } from './runner';
+
+const logger = createLogger('TaskScheduler');
+
+const ALARM_PREFIX = 'scheduled-task:';
+const MAX_NOTIFICATION_LENGTH = 200;
+
+const normalizeResult = (result?: string) => (result ?? '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Runs scheduled task definitions from storage on their cron schedule.
+ * Every definition is backed by a chrome.alarms alarm, which also wakes the service worker.
+ */
+export class TaskScheduler {
+  private readonly createExecutor: ExecutorFactory;
+  private readonly running = new Set<string>();
+
+  constructor(createExecutor: ExecutorFactory) {
+    this.createExecutor = createExecutor;
+  }
+
+  async init(): Promise<void> {
+    // Register the listener before any await so alarms can wake the service worker
+    chrome.alarms.onAlarm.addListener(alarm => {
+      if (alarm.name.startsWith(ALARM_PREFIX)) {
+        void this.runScheduledTask(alarm.name.slice(ALARM_PREFIX.length));
+      }
+    });
+    scheduledTaskStore.subscribe(() => {
+      void this.syncAlarms();
+    });
+    await this.syncAlarms();
+  }
+
+  /**
+   * Make the alarms match the stored definitions
+   */
+  private async syncAlarms(): Promise<void> {
+    try {
+      const tasks = await scheduledTaskStore.getAllTasks();
+      const alarms = (await chrome.alarms.getAll()).filter(alarm => alarm.name.startsWith(ALARM_PREFIX));
+      const enabledIds = new Set(tasks.filter(task => task.enabled).map(task => task.id));
+
+      for (const alarm of alarms) {
+        if (!enabledIds.has(alarm.name.slice(ALARM_PREFIX.length))) {
+          await chrome.alarms.clear(alarm.name);
+        }
+      }
+
+      for (const task of tasks) {
+        if (!task.enabled || this.running.has(task.id)) {
+          continue;
+        }
+        const alarm = alarms.find(item => item.name === ALARM_PREFIX + task.id);
+        if (alarm && task.nextRunAt && alarm.scheduledTime === task.nextRunAt) {
+          continue;
+        }
+        await this.scheduleNextRun(task);
+      }
+    } catch (error) {
+      logger.error('Failed to sync scheduled task alarms:', error);
+    }
+  }
+
+  private async scheduleNextRun(task: ScheduledTask): Promise<void> {
+    try {
+      const nextRunAt = getNextRunTime(task.cron);
+      await chrome.alarms.create(ALARM_PREFIX + task.id, { when: nextRunAt });
+      if (task.nextRunAt !== nextRunAt || task.error) {
+        await scheduledTaskStore.updateTask(task.id, { nextRunAt, error: undefined });
+      }
+      logger.info(`Scheduled "${task.name}" at ${new Date(nextRunAt).toISOString()}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to schedule "${task.name}":`, message);
+      await chrome.alarms.clear(ALARM_PREFIX + task.id);
+      if (task.error !== message || task.nextRunAt) {
+        await scheduledTaskStore.updateTask(task.id, { nextRunAt: undefined, error: message });
+      }
+    }
+  }
+
+  private async runScheduledTask(id: string): Promise<void> {
+    const task = await scheduledTaskStore.getTask(id);
+    if (!task?.enabled || this.running.has(id)) {
+      return;
+    }
+
+    this.running.add(id);
+    try {
+      // Schedule the next occurrence first so a failing run does not stop the recurrence
+      await this.scheduleNextRun(task);
+
+      logger.info(`Running scheduled task "${task.name}"`);
+      const startedAt = Date.now();
+      const outcome = await runBackgroundTask(this.createExecutor, task.task, {
+        sessionTitle: `${task.name} (${new Date(startedAt).toLocaleString()})`,
+      });
+
+      const changed =
+        task.lastRunAt !== undefined &&
+        (task.lastStatus !== outcome.status || normalizeResult(task.lastResult) !== normalizeResult(outcome.result));
+
+      await scheduledTaskStore.updateTask(id, {
+        lastRunAt: startedAt,
+        lastStatus: outcome.status,
+        lastResult: outcome.result,
+        lastSessionId: outcome.sessionId,
+      });
+
+      if (changed && task.notifyOnChange) {
+        await this.notifyResultChanged(task, outcome.result);
+      }
+    } catch (error) {
+      logger.error(`Scheduled task "${task.name}" failed:`, error);
+    } finally {
+      this.running.delete(id);
+    }
+  }
+
+  private async notifyResultChanged(task: ScheduledTask, result: string): Promise<void> {
+    const message =
+      result.length > MAX_NOTIFICATION_LENGTH ? `${result.slice(0, MAX_NOTIFICATION_LENGTH - 1)}…` : result;
+    try {
+      await chrome.notifications.create(`${ALARM_PREFIX}${task.id}:${Date.now()}`, {
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('icon-128.png'),
+        title: `${task.name}: result changed`,
+        message,
+      });
+    } catch (error) {
+      logger.error('Failed to show notification:', error);
+    }
+  }
+}
@@ -1,2 +1,3 @@
 export * from './lib/json_schema';
 export * from './lib/helper';
+export * from './lib/validation';
@@ -0,0 +1,228 @@
+import { z } from 'zod';
+import { dereferenceJsonSchema, type JsonSchemaObject } from './helper';
+
+/**
+ * Result of validating a value against a JSON schema
+ */
+export type JsonSchemaValidationResult = { success: true; data: unknown } | { success: false; errors: string[] };
+
+const JSON_SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'null', 'array', 'object'];
+
+/**
+ * Converts a JSON schema to a zod schema that validates the same values
+ *
+ * Supported keywords: type (also as a list of types), properties, required, additionalProperties, items,
+ * enum, const, anyOf, oneOf, allOf, nullable, minLength, maxLength, pattern, minimum, maximum,
+ * minItems and maxItems. $ref fields pointing to $defs are resolved first, other keywords are ignored.
+ *
+ * @param schema The JSON schema to convert
+ * @returns A zod schema
+ * @throws Error if the schema uses an unknown type
+ */
+export function jsonSchemaToZod(schema: JsonSchemaObject): z.ZodTypeAny {
+  return convertNode(dereferenceJsonSchema(schema), '');
+}
+
+/**
+ * Convert a dereferenced schema node, the path is only used in error messages
+ */
+function convertNode(node: JsonSchemaObject, path: string): z.ZodTypeAny {
+  if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+    throw new Error(`Schema at ${path || '(root)'} must be an object`);
+  }
+
+  let result: z.ZodTypeAny;
+  if (node.const !== undefined) {
+    result = literalOrAny(node.const);
+  } else if (Array.isArray(node.enum)) {
+    result = enumOf(node.enum);
+  } else if (Array.isArray(node.anyOf) || Array.isArray(node.oneOf)) {
+    const options = (node.anyOf ?? node.oneOf) as JsonSchemaObject[];
+    result = unionOf(options.map((option, i) => convertNode(option, `${path}/anyOf/${i}`)));
+  } else if (Array.isArray(node.allOf)) {
+    const parts = (node.allOf as JsonSchemaObject[]).map((part, i) => convertNode(part, `${path}/allOf/${i}`));
+    result = parts.reduce((acc, part) => z.intersection(acc, part));
+  } else if (Array.isArray(node.type)) {
+    result = unionOf(node.type.map(type => convertTyped({ ...node, type }, path)));
+  } else {
+    result = convertTyped(node, path);
+  }
+
+  if (node.nullable === true) {
+    result = result.nullable();
+  }
+  if (typeof node.description === 'string') {
+    result = result.describe(node.description);
+  }
+  return result;
+}
+
+/**
+ * Convert a node with a single type, nodes without a type accept any value
+ */
+function convertTyped(node: JsonSchemaObject, path: string): z.ZodTypeAny {
+  if (node.type === undefined) {
+    return z.unknown();
+  }
+  if (typeof node.type !== 'string' || !JSON_SCHEMA_TYPES.includes(node.type)) {
+    throw new Error(`Unknown type ${JSON.stringify(node.type)} at ${path || '(root)'}`);
+  }
+
+  switch (node.type) {
+    case 'string': {
+      let schema = z.string();
+      if (typeof node.minLength === 'number') schema = schema.min(node.minLength);
+      if (typeof node.maxLength === 'number') schema = schema.max(node.maxLength);
+      if (typeof node.pattern === 'string') schema = schema.regex(new RegExp(node.pattern));
+      return schema;
+    }
+    case 'number':
+    case 'integer': {
+      let schema = node.type === 'integer' ? z.number().int() : z.number();
+      if (typeof node.minimum === 'number') schema = schema.gte(node.minimum);
+      if (typeof node.maximum === 'number') schema = schema.lte(node.maximum);
+      return schema;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array': {
+      const items = node.items ? convertNode(node.items, `${path}/items`) : z.unknown();
+      let schema = z.array(items);
+      if (typeof node.minItems === 'number') schema = schema.min(node.minItems);
+      if (typeof node.maxItems === 'number') schema = schema.max(node.maxItems);
+      return schema;
+    }
+    default: {
+      const required = new Set(node.required ?? []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, property] of Object.entries(node.properties ?? {})) {
+        const value = convertNode(property, `${path}/properties/${key}`);
+        shape[key] = required.has(key) ? value : value.optional();
+      }
+      const schema = z.object(shape);
+      if (node.additionalProperties === false) {
+        return schema.strict();
+      }
+      if (typeof node.additionalProperties === 'object' && node.additionalProperties !== null) {
+        return schema.catchall(convertNode(node.additionalProperties, `${path}/additionalProperties`));
+      }
+      return schema.passthrough();
+    }
+  }
+}
+
+function literalOrAny(value: unknown): z.ZodTypeAny {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+    return z.literal(value as string | number | boolean | null);
+  }
+  // Object and array constants are compared by their JSON text
+  return z.unknown().refine(item => JSON.stringify(item) === JSON.stringify(value), {
+    message: `Expected ${JSON.stringify(value)}`,
+  });
+}
+
+function enumOf(values: unknown[]): z.ZodTypeAny {
+  if (values.length > 0 && values.every(value => typeof value === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  // Unions of literals only report an invalid input, list the allowed values instead
+  return z.unknown().refine(item => values.some(value => JSON.stringify(item) === JSON.stringify(value)), {
+    message: `Expected one of ${values.map(value => JSON.stringify(value)).join(', ')}`,
+  });
+}
+
+function unionOf(options: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (options.length === 0) {
+    return z.never();
+  }
+  if (options.length === 1) {
+    return options[0];
+  }
+  return z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * Formats the issues of a failed validation as one line per issue, prefixed with the path of the value
+ *
+ * @param error The zod error
+ * @returns The issues, e.g. "[0].status: Invalid enum value"
+ */
+export function formatValidationErrors(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.map(key => (typeof key === 'number' ? `[${key}]` : `.${key}`)).join('');
+    return `${path.replace(/^\./, '') || '(root)'}: ${issue.message}`;
+  });
+}
+
+/**
+ * Parses the text of a JSON schema, e.g. one entered by a user, and checks that it can be converted
+ *
+ * @param text The JSON text of the schema
+ * @returns The parsed schema
+ * @throws Error with a readable message if the text is not JSON or not a supported schema
+ */
+export function parseJsonSchema(text: string): JsonSchemaObject {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The schema is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return checkJsonSchema(schema);
+}
+
+/**
+ * Checks that a value received from elsewhere, e.g. in a message, is a JSON schema that can be converted
+ *
+ * @param schema The value to check
+ * @returns The value as a JSON schema
+ * @throws Error with a readable message if the value is not a supported schema
+ */
+export function checkJsonSchema(schema: unknown): JsonSchemaObject {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error('The schema must be a JSON object');
+  }
+  jsonSchemaToZod(schema as JsonSchemaObject);
+  return schema as JsonSchemaObject;
+}
+
+/**
+ * Validates the JSON text of an answer against a JSON schema. Markdown code fences around the JSON are removed.
+ *
+ * @param schema The JSON schema of the answer
+ * @param text The answer
+ * @returns The parsed value, or the reasons it does not match the schema
+ */
+export function validateJsonText(schema: JsonSchemaObject, text: string): JsonSchemaValidationResult {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [`The answer is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  return validateJsonValue(schema, value);
+}
+
+/**
+ * Validates a value against a JSON schema
+ *
+ * @param schema The JSON schema
+ * @param value The value to validate
+ * @returns The validated value, or the reasons it does not match the schema
+ */
+export function validateJsonValue(schema: JsonSchemaObject, value: unknown): JsonSchemaValidationResult {
+  const result = jsonSchemaToZod(schema).safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, errors: formatValidationErrors(result.error) };
+}
@@ -0,0 +1,92 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { FileAttachment, FileAttachmentInfo, FileAttachmentStorage } from './types';
+
+// Largest file that can be attached, the content is passed to the page when it is uploaded
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// The list is kept apart from the content, so listing attachments does not load every file
+const attachmentListStorage = createStorage<FileAttachmentInfo[]>('file_attachments', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+const getAttachmentContentStorage = (id: string) =>
+  createStorage<string>(`file_attachment_${id}`, '', {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: false,
+  });
+
+/**
+ * Computes the size in bytes of base64 content
+ * @param data The base64 content
+ */
+export function base64Size(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.max(Math.floor((data.length * 3) / 4) - padding, 0);
+}
+
+/**
+ * Creates a storage for the files users attach for the agents to upload
+ */
+export function createFileAttachmentStorage(): FileAttachmentStorage {
+  const findByName = async (name: string) => {
+    const normalized = name.trim().toLowerCase();
+    const attachments = (await attachmentListStorage.get()) ?? [];
+    return attachments.find(attachment => attachment.name.toLowerCase() === normalized) ?? null;
+  };
+
+  const removeAttachment = async (id: string): Promise<void> => {
+    await attachmentListStorage.set(prev => (prev ?? []).filter(attachment => attachment.id !== id));
+    await getAttachmentContentStorage(id).set('');
+  };
+
+  return {
+    getAttachments: async (): Promise<FileAttachmentInfo[]> => {
+      const attachments = (await attachmentListStorage.get()) ?? [];
+      return [...attachments].sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    getAttachmentByName: async (name: string): Promise<FileAttachment | null> => {
+      const info = await findByName(name);
+      if (!info) {
+        return null;
+      }
+      const data = await getAttachmentContentStorage(info.id).get();
+      return data ? { ...info, data } : null;
+    },
+
+    addAttachment: async (name: string, mime: string, data: string): Promise<FileAttachmentInfo> => {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        throw new Error('Attachment name cannot be empty');
+      }
+      const size = base64Size(data);
+      if (size > MAX_ATTACHMENT_SIZE) {
+        throw new Error(`${trimmedName} is larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`);
+      }
+
+      const existing = await findByName(trimmedName);
+      if (existing) {
+        await removeAttachment(existing.id);
+      }
+      const info: FileAttachmentInfo = {
+        id: crypto.randomUUID(),
+        name: trimmedName,
+        mime: mime || 'application/octet-stream',
+        size,
+        createdAt: Date.now(),
+      };
+      await getAttachmentContentStorage(info.id).set(data);
+      await attachmentListStorage.set(prev => [...(prev ?? []), info]);
+      return info;
+    },
+
+    removeAttachment,
+
+    subscribe: (listener: () => void) => attachmentListStorage.subscribe(listener),
+  };
+}
+
+// Export the storage instance for direct use
+export const attachmentStore = createFileAttachmentStorage();
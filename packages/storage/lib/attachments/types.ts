@@ -0,0 +1,29 @@
+// A file the user keeps for the agents to upload to web forms
+export interface FileAttachment {
+  id: string;
+  name: string; // File name, unique case-insensitively
+  mime: string;
+  size: number; // Bytes
+  data: string; // Base64 content of the file
+  createdAt: number; // Unix timestamp in milliseconds
+}
+
+// An attachment without its content, to list attachments without loading every file
+export type FileAttachmentInfo = Omit<FileAttachment, 'data'>;
+
+export interface FileAttachmentStorage {
+  // Get the attachments without their content, newest first
+  getAttachments: () => Promise<FileAttachmentInfo[]>;
+
+  // Get an attachment with its content by file name, ignoring case
+  getAttachmentByName: (name: string) => Promise<FileAttachment | null>;
+
+  // Add a file, a file with the same name is replaced
+  addAttachment: (name: string, mime: string, data: string) => Promise<FileAttachmentInfo>;
+
+  // Delete an attachment and its content
+  removeAttachment: (id: string) => Promise<void>;
+
+  // Subscribe to changes of the attachment list
+  subscribe: (listener: () => void) => () => void;
+}
@@ -7,6 +7,12 @@ import type {
   Message,
   ChatSessionMetadata,
   ChatAgentStepHistory,
+  ChatTaskReport,
+  ChatTaskUsage,
+  ChatTaskCheckpoint,
+  ReportSection,
+  ReportTable,
+  TokenUsageRecord,
 } from './types';
 
 // Key for storing chat session metadata
@@ -48,6 +54,64 @@ const getSessionAgentStepHistoryStorage = (sessionId: string) => {
   );
 };
 
+// Helper function to get storage key for a specific session's task report
+const getSessionTaskReportKey = (sessionId: string) => `chat_report_${sessionId}`;
+
+// Helper function to get storage for a specific session's task report
+const getSessionTaskReportStorage = (sessionId: string) => {
+  return createStorage<ChatTaskReport>(
+    getSessionTaskReportKey(sessionId),
+    {
+      task: '',
+      sections: [],
+      timestamp: 0,
+    },
+    {
+      storageEnum: StorageEnum.Local,
+      liveUpdate: true,
+    },
+  );
+};
+
+// Helper function to get storage key for a specific session's token usage
+const getSessionTaskUsageKey = (sessionId: string) => `chat_usage_${sessionId}`;
+
+// Helper function to get storage for a specific session's token usage
+const getSessionTaskUsageStorage = (sessionId: string) => {
+  return createStorage<ChatTaskUsage>(
+    getSessionTaskUsageKey(sessionId),
+    {
+      task: '',
+      records: [],
+      timestamp: 0,
+    },
+    {
+      storageEnum: StorageEnum.Local,
+      liveUpdate: true,
+    },
+  );
+};
+
+// Helper function to get storage key for a specific session's task checkpoint
+const getSessionTaskCheckpointKey = (sessionId: string) => `chat_checkpoint_${sessionId}`;
+
+// Helper function to get storage for a specific session's task checkpoint
+const getSessionTaskCheckpointStorage = (sessionId: string) => {
+  return createStorage<ChatTaskCheckpoint>(
+    getSessionTaskCheckpointKey(sessionId),
+    {
+      task: '',
+      step: 0,
+      state: '',
+      timestamp: 0,
+    },
+    {
+      storageEnum: StorageEnum.Local,
+      liveUpdate: true,
+    },
+  );
+};
+
 // Helper function to get current timestamp in milliseconds
 const getCurrentTimestamp = (): number => Date.now();
 
@@ -72,6 +136,9 @@ export function createChatHistoryStorage(): ChatHistoryStorage {
       for (const sessionMeta of sessionsMeta) {
         const messagesStorage = getSessionMessagesStorage(sessionMeta.id);
         await messagesStorage.set([]);
+        await getSessionTaskReportStorage(sessionMeta.id).set({ task: '', sections: [], timestamp: 0 });
+        await getSessionTaskUsageStorage(sessionMeta.id).set({ task: '', records: [], timestamp: 0 });
+        await getSessionTaskCheckpointStorage(sessionMeta.id).set({ task: '', step: 0, state: '', timestamp: 0 });
       }
       await chatSessionsMetaStorage.set([]);
     },
@@ -160,6 +227,15 @@ export function createChatHistoryStorage(): ChatHistoryStorage {
       // Remove the session's messages
       const messagesStorage = getSessionMessagesStorage(sessionId);
       await messagesStorage.set([]);
+
+      // Remove the session's task report
+      await getSessionTaskReportStorage(sessionId).set({ task: '', sections: [], timestamp: 0 });
+
+      // Remove the session's token usage
+      await getSessionTaskUsageStorage(sessionId).set({ task: '', records: [], timestamp: 0 });
+
+      // Remove the session's task checkpoint
+      await getSessionTaskCheckpointStorage(sessionId).set({ task: '', step: 0, state: '', timestamp: 0 });
     },
 
     addMessage: async (sessionId: string, message: Message): Promise<ChatMessage> => {
@@ -248,6 +324,96 @@ export function createChatHistoryStorage(): ChatHistoryStorage {
         return null;
       return history;
     },
+
+    storeTaskReport: async (
+      sessionId: string,
+      task: string,
+      sections: ReportSection[],
+      tables: ReportTable[] = [],
+    ): Promise<void> => {
+      // Check if session exists
+      const sessionsMeta = await chatSessionsMetaStorage.get();
+      const sessionMeta = sessionsMeta.find(session => session.id === sessionId);
+      if (!sessionMeta) {
+        throw new Error(`Session with ID ${sessionId} not found`);
+      }
+
+      const taskReportStorage = getSessionTaskReportStorage(sessionId);
+      await taskReportStorage.set({
+        task,
+        sections,
+        tables,
+        timestamp: getCurrentTimestamp(),
+      });
+    },
+
+    loadTaskReport: async (sessionId: string): Promise<ChatTaskReport | null> => {
+      const taskReportStorage = getSessionTaskReportStorage(sessionId);
+      const report = await taskReportStorage.get();
+      if (!report || !report.timestamp || !report.sections) return null;
+      if (report.sections.length === 0 && (report.tables ?? []).length === 0) return null;
+      return report;
+    },
+
+    subscribeTaskReport: (sessionId: string, listener: () => void): (() => void) => {
+      return getSessionTaskReportStorage(sessionId).subscribe(listener);
+    },
+
+    storeTaskUsage: async (sessionId: string, task: string, records: TokenUsageRecord[]): Promise<void> => {
+      // Check if session exists
+      const sessionsMeta = await chatSessionsMetaStorage.get();
+      const sessionMeta = sessionsMeta.find(session => session.id === sessionId);
+      if (!sessionMeta) {
+        throw new Error(`Session with ID ${sessionId} not found`);
+      }
+
+      // Follow-up tasks in the same session add to the usage of the earlier ones
+      const taskUsageStorage = getSessionTaskUsageStorage(sessionId);
+      await taskUsageStorage.set(prev => ({
+        task: prev?.task || task,
+        records: [...(prev?.records ?? []), ...records],
+        timestamp: getCurrentTimestamp(),
+      }));
+    },
+
+    loadTaskUsage: async (sessionId: string): Promise<ChatTaskUsage | null> => {
+      const taskUsageStorage = getSessionTaskUsageStorage(sessionId);
+      const usage = await taskUsageStorage.get();
+      if (!usage || !usage.timestamp || !usage.records || usage.records.length === 0) return null;
+      return usage;
+    },
+
+    subscribeTaskUsage: (sessionId: string, listener: () => void): (() => void) => {
+      return getSessionTaskUsageStorage(sessionId).subscribe(listener);
+    },
+
+    storeTaskCheckpoint: async (sessionId: string, task: string, step: number, state: string): Promise<void> => {
+      // Check if session exists
+      const sessionsMeta = await chatSessionsMetaStorage.get();
+      const sessionMeta = sessionsMeta.find(session => session.id === sessionId);
+      if (!sessionMeta) {
+        throw new Error(`Session with ID ${sessionId} not found`);
+      }
+
+      const taskCheckpointStorage = getSessionTaskCheckpointStorage(sessionId);
+      await taskCheckpointStorage.set({
+        task,
+        step,
+        state,
+        timestamp: getCurrentTimestamp(),
+      });
+    },
+
+    loadTaskCheckpoint: async (sessionId: string): Promise<ChatTaskCheckpoint | null> => {
+      const taskCheckpointStorage = getSessionTaskCheckpointStorage(sessionId);
+      const checkpoint = await taskCheckpointStorage.get();
+      if (!checkpoint || !checkpoint.timestamp || !checkpoint.state) return null;
+      return checkpoint;
+    },
+
+    clearTaskCheckpoint: async (sessionId: string): Promise<void> => {
+      await getSessionTaskCheckpointStorage(sessionId).set({ task: '', step: 0, state: '', timestamp: 0 });
+    },
   };
 }
 
@@ -4,6 +4,7 @@ export enum Actors {
   PLANNER = 'planner',
   NAVIGATOR = 'navigator',
   VALIDATOR = 'validator',
+  MANAGER = 'manager',
 }
 
 export interface Message {
@@ -36,6 +37,88 @@ export interface ChatAgentStepHistory {
   timestamp: number; // Unix timestamp in milliseconds
 }
 
+export enum ReportItemStatus {
+  FOUND = 'found',
+  MISSING = 'missing',
+}
+
+// A single checklist line of a task report, e.g. one required document
+export interface ReportChecklistItem {
+  name: string;
+  status: ReportItemStatus;
+  optional?: boolean; // Optional items do not count towards completion
+  subject?: string; // What the item belongs to, e.g. a patient folder
+  evidence?: string; // What satisfied the item, e.g. the matched file name
+  evidenceUrl?: string; // Page the evidence was found on
+  timestamp: number; // Unix timestamp in milliseconds
+}
+
+// A group of checklist items produced by one action run
+export interface ReportSection {
+  id: string;
+  title: string;
+  source: string; // Name of the action that produced the section
+  url?: string; // Page the section was produced from
+  createdAt: number; // Unix timestamp in milliseconds
+  items: ReportChecklistItem[];
+}
+
+// A table read from a page, e.g. a list of documents, kept so it can be saved as CSV
+export interface ReportTable {
+  id: string;
+  title: string;
+  source: string; // Name of the action that produced the table
+  url?: string; // Page the table was read from
+  createdAt: number; // Unix timestamp in milliseconds
+  columns: string[];
+  rows: string[][];
+  complete: boolean; // False when rows were left out, e.g. past the row limit
+}
+
+// ChatTaskReport is the structured result of a task, stored alongside the chat session
+export interface ChatTaskReport {
+  task: string;
+  sections: ReportSection[];
+  tables?: ReportTable[]; // Missing in reports stored before tables were kept
+  timestamp: number; // Unix timestamp in milliseconds
+}
+
+// Token usage of one model call, as reported by the provider
+export interface TokenUsageRecord {
+  step: number; // Executor step the call was made in
+  agent: string; // Id of the agent that made the call, e.g. navigator or planner
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null; // Estimated cost in USD, null when the model has no price
+  timestamp: number; // Unix timestamp in milliseconds
+  estimated?: boolean; // The provider reported no usage, the tokens were counted with the model tokenizer
+}
+
+// Token usage added up over a group of model calls
+export interface TokenUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number | null; // Sum of the priced calls, null when none of the calls has a price
+  estimated: boolean; // Some of the calls have counted instead of reported tokens
+}
+
+// ChatTaskUsage is the token usage of every model call of a task, stored alongside the chat session
+export interface ChatTaskUsage {
+  task: string;
+  records: TokenUsageRecord[];
+  timestamp: number; // Unix timestamp in milliseconds
+}
+
+// ChatTaskCheckpoint is the state of a running task after its last completed step, kept until the task ends
+export interface ChatTaskCheckpoint {
+  task: string;
+  step: number; // Number of completed steps
+  state: string; // Serialized executor state
+  timestamp: number; // Unix timestamp in milliseconds
+}
+
 export interface ChatHistoryStorage {
   // Get all chat sessions (with empty message arrays for listing)
   getAllSessions: () => Promise<ChatSession[]>;
@@ -69,4 +152,36 @@ export interface ChatHistoryStorage {
 
   // Load the history of the agent's state
   loadAgentStepHistory: (sessionId: string) => Promise<ChatAgentStepHistory | null>;
+
+  // Store the structured report of a task
+  storeTaskReport: (
+    sessionId: string,
+    task: string,
+    sections: ReportSection[],
+    tables?: ReportTable[],
+  ) => Promise<void>;
+
+  // Load the structured report of a task
+  loadTaskReport: (sessionId: string) => Promise<ChatTaskReport | null>;
+
+  // Subscribe to changes of the structured report of a task, returns the unsubscribe function
+  subscribeTaskReport: (sessionId: string, listener: () => void) => () => void;
+
+  // Store the token usage of a task
+  storeTaskUsage: (sessionId: string, task: string, records: TokenUsageRecord[]) => Promise<void>;
+
+  // Load the token usage of a task
+  loadTaskUsage: (sessionId: string) => Promise<ChatTaskUsage | null>;
+
+  // Subscribe to changes of the token usage of a task, returns the unsubscribe function
+  subscribeTaskUsage: (sessionId: string, listener: () => void) => () => void;
+
+  // Store the checkpoint of a running task
+  storeTaskCheckpoint: (sessionId: string, task: string, step: number, state: string) => Promise<void>;
+
+  // Load the checkpoint of a task that was interrupted before it ended
+  loadTaskCheckpoint: (sessionId: string) => Promise<ChatTaskCheckpoint | null>;
+
+  // Remove the checkpoint of a task
+  clearTaskCheckpoint: (sessionId: string) => Promise<void>;
 }
@@ -0,0 +1,37 @@
+import type { TokenUsageRecord, TokenUsageTotals } from './types';
+
+/**
+ * Adds up the token usage of a list of model calls
+ * @param records The usage records to add up
+ * @returns The totals, the cost only includes calls with a known price
+ */
+export function summarizeTokenUsage(records: TokenUsageRecord[]): TokenUsageTotals {
+  return records.reduce<TokenUsageTotals>(
+    (totals, record) => ({
+      calls: totals.calls + 1,
+      inputTokens: totals.inputTokens + record.inputTokens,
+      outputTokens: totals.outputTokens + record.outputTokens,
+      cost: record.cost === null ? totals.cost : (totals.cost ?? 0) + record.cost,
+      estimated: totals.estimated || record.estimated === true,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, cost: null, estimated: false },
+  );
+}
+
+/**
+ * Adds up the token usage of a list of model calls per agent, step or model
+ * @param records The usage records to add up
+ * @param by The record field to group by
+ * @returns The totals by group, in order of the first call of each group
+ */
+export function groupTokenUsage(
+  records: TokenUsageRecord[],
+  by: 'agent' | 'step' | 'model',
+): Record<string, TokenUsageTotals> {
+  const groups = new Map<string, TokenUsageRecord[]>();
+  for (const record of records) {
+    const key = String(record[by]);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return Object.fromEntries([...groups].map(([key, group]) => [key, summarizeTokenUsage(group)]));
+}
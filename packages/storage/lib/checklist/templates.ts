@@ -0,0 +1,146 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { ChecklistTemplate, ChecklistTemplateItem, ChecklistTemplateStorage } from './types';
+
+const checklistTemplatesStorage = createStorage<ChecklistTemplate[]>('checklist_templates', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+/**
+ * Compiles a checklist pattern into a case-insensitive regular expression.
+ * Patterns written as "/.../flags" are regular expressions, anything else is a glob
+ * matched against the whole file name, where "*" matches any run of characters and "?" a single one.
+ * @param pattern The pattern to compile
+ * @returns The compiled regular expression
+ * @throws Error if the regular expression is not valid
+ */
+export function compileChecklistPattern(pattern: string): RegExp {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    // The g and y flags make test() continue from the last match, so later file names could be missed
+    const flags = regexMatch[2].replace(/[gy]/g, '');
+    return new RegExp(regexMatch[1], flags.includes('i') ? flags : `${flags}i`);
+  }
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Checks that a template can be used by the checklist actions
+ * @param template The template to validate
+ * @throws Error describing the first problem found
+ */
+export function validateChecklistTemplate(template: Pick<ChecklistTemplate, 'name' | 'items'>): void {
+  if (!template.name.trim()) {
+    throw new Error('Template name cannot be empty');
+  }
+  if (template.items.length === 0) {
+    throw new Error('Template must contain at least one item');
+  }
+  if (!template.items.some(item => item.required)) {
+    throw new Error('Template must contain at least one required item');
+  }
+
+  const names = new Set<string>();
+  for (const item of template.items) {
+    const name = item.name.trim().toLowerCase();
+    if (!name) {
+      throw new Error('Item name cannot be empty');
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate item "${item.name}"`);
+    }
+    names.add(name);
+
+    for (const pattern of item.patterns) {
+      try {
+        compileChecklistPattern(pattern);
+      } catch (error) {
+        throw new Error(`Invalid pattern "${pattern}" in item "${item.name}": ${(error as Error).message}`);
+      }
+    }
+  }
+}
+
+const normalizeItem = (item: ChecklistTemplateItem): ChecklistTemplateItem => ({
+  name: item.name.trim(),
+  aliases: item.aliases.map(alias => alias.trim()).filter(Boolean),
+  patterns: item.patterns.map(pattern => pattern.trim()).filter(Boolean),
+  required: item.required,
+  fileTypes: item.fileTypes.map(type => type.trim().replace(/^\./, '').toLowerCase()).filter(Boolean),
+});
+
+/**
+ * Creates a storage for reusable document checklist templates
+ */
+export function createChecklistTemplateStorage(): ChecklistTemplateStorage {
+  return {
+    getAllTemplates: async (): Promise<ChecklistTemplate[]> => {
+      return (await checklistTemplatesStorage.get()) ?? [];
+    },
+
+    getTemplate: async (id: string): Promise<ChecklistTemplate | null> => {
+      const templates = (await checklistTemplatesStorage.get()) ?? [];
+      return templates.find(template => template.id === id) ?? null;
+    },
+
+    createTemplate: async (
+      template: Omit<ChecklistTemplate, 'id' | 'createdAt' | 'updatedAt'>,
+    ): Promise<ChecklistTemplate> => {
+      const items = template.items.map(normalizeItem);
+      validateChecklistTemplate({ name: template.name, items });
+
+      const now = Date.now();
+      const newTemplate: ChecklistTemplate = {
+        ...template,
+        name: template.name.trim(),
+        items,
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await checklistTemplatesStorage.set(prev => [...(prev ?? []), newTemplate]);
+      return newTemplate;
+    },
+
+    updateTemplate: async (
+      id: string,
+      changes: Partial<Omit<ChecklistTemplate, 'id' | 'createdAt'>>,
+    ): Promise<void> => {
+      const templates = (await checklistTemplatesStorage.get()) ?? [];
+      const existing = templates.find(template => template.id === id);
+      if (!existing) {
+        throw new Error(`Checklist template with ID ${id} not found`);
+      }
+
+      const updated: ChecklistTemplate = {
+        ...existing,
+        ...changes,
+        name: (changes.name ?? existing.name).trim(),
+        items: (changes.items ?? existing.items).map(normalizeItem),
+        updatedAt: Date.now(),
+      };
+      validateChecklistTemplate(updated);
+      await checklistTemplatesStorage.set(prev =>
+        (prev ?? []).map(template => (template.id === id ? updated : template)),
+      );
+    },
+
+    deleteTemplate: async (id: string): Promise<void> => {
+      await checklistTemplatesStorage.set(prev => (prev ?? []).filter(template => template.id !== id));
+    },
+
+    subscribe: (listener: () => void) => checklistTemplatesStorage.subscribe(listener),
+  };
+}
+
+// Export the storage instance for direct use
+export const checklistTemplateStore = createChecklistTemplateStorage();
@@ -0,0 +1,38 @@
+// A document expected by a checklist template
+export interface ChecklistTemplateItem {
+  name: string; // Display name, also matched against file names
+  aliases: string[]; // Alternative names, e.g. "ICF" for "Informed Consent Form"
+  patterns: string[]; // Glob patterns such as "*consent*.pdf", or regular expressions written as "/.../flags"
+  required: boolean; // Optional items are reported but do not count towards completion
+  fileTypes: string[]; // Accepted file extensions without the dot, empty for any
+}
+
+// A named, reusable document checklist
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  description: string;
+  items: ChecklistTemplateItem[];
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface ChecklistTemplateStorage {
+  // Get all checklist templates
+  getAllTemplates: () => Promise<ChecklistTemplate[]>;
+
+  // Get a checklist template by id
+  getTemplate: (id: string) => Promise<ChecklistTemplate | null>;
+
+  // Create a checklist template
+  createTemplate: (template: Omit<ChecklistTemplate, 'id' | 'createdAt' | 'updatedAt'>) => Promise<ChecklistTemplate>;
+
+  // Update a checklist template
+  updateTemplate: (id: string, changes: Partial<Omit<ChecklistTemplate, 'id' | 'createdAt'>>) => Promise<void>;
+
+  // Delete a checklist template
+  deleteTemplate: (id: string) => Promise<void>;
+
+  // Subscribe to changes
+  subscribe: (listener: () => void) => () => void;
+}
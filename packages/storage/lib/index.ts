@@ -1,7 +1,12 @@
 export type { BaseStorage } from './base/types';
 export * from './settings';
 export * from './chat';
+export * from './task';
+export * from './checklist';
+export * from './memory';
+export * from './workflow';
 export * from './profile';
+export * from './attachments';
 export * from './prompt/favorites';
 
 // Re-export the favorites instance for direct use
@@ -0,0 +1,147 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { SiteMemoryEntry, SiteMemorySource, SiteMemoryStorage } from './types';
+
+// Longest content of an entry, memory is for short facts and not for page content
+export const MAX_SITE_MEMORY_ENTRY_LENGTH = 500;
+// Most entries kept for a domain, the least recently updated entries written by agents are dropped first
+export const MAX_SITE_MEMORY_ENTRIES_PER_DOMAIN = 50;
+
+const siteMemoryStorage = createStorage<SiteMemoryEntry[]>('site_memory', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+/**
+ * Normalizes a domain or URL to the host that site memory entries are stored under
+ * @param value A domain such as "www.example.com" or a URL such as "https://example.com/path"
+ * @returns The lowercase host without "www.", or an empty string if there is no host
+ */
+export function normalizeSiteMemoryDomain(value: string): string {
+  const trimmed = value.trim().toLowerCase();
+  let host: string;
+  try {
+    host = new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).hostname;
+  } catch (error) {
+    return '';
+  }
+  return host.replace(/^www\./, '');
+}
+
+/**
+ * Checks whether entries stored under a domain apply to a host, which is the case for the domain itself and its subdomains
+ * @param domain A normalized site memory domain such as "sharepoint.com"
+ * @param host A normalized host such as "contoso.sharepoint.com"
+ * @returns True if the domain is the host or one of its parent domains
+ */
+export function isSiteMemoryDomainOf(domain: string, host: string): boolean {
+  return !!domain && (host === domain || host.endsWith(`.${domain}`));
+}
+
+const sortByUpdatedAt = (entries: SiteMemoryEntry[]) => [...entries].sort((a, b) => b.updatedAt - a.updatedAt);
+
+function validateEntry(domain: string, content: string): void {
+  if (!domain) {
+    throw new Error('Site memory domain is not valid');
+  }
+  if (!content) {
+    throw new Error('Site memory content cannot be empty');
+  }
+  if (content.length > MAX_SITE_MEMORY_ENTRY_LENGTH) {
+    throw new Error(`Site memory content cannot be longer than ${MAX_SITE_MEMORY_ENTRY_LENGTH} characters`);
+  }
+}
+
+// Keep the newest entries of a domain, entries written by the user are dropped last
+function capDomainEntries(entries: SiteMemoryEntry[], domain: string): SiteMemoryEntry[] {
+  const domainEntries = entries.filter(entry => entry.domain === domain);
+  if (domainEntries.length <= MAX_SITE_MEMORY_ENTRIES_PER_DOMAIN) {
+    return entries;
+  }
+  const dropped = new Set(
+    [...domainEntries]
+      .sort((a, b) => (a.source === b.source ? a.updatedAt - b.updatedAt : a.source === 'agent' ? -1 : 1))
+      .slice(0, domainEntries.length - MAX_SITE_MEMORY_ENTRIES_PER_DOMAIN)
+      .map(entry => entry.id),
+  );
+  return entries.filter(entry => !dropped.has(entry.id));
+}
+
+/**
+ * Creates a storage for facts about sites that agents and users want to keep across tasks
+ */
+export function createSiteMemoryStorage(): SiteMemoryStorage {
+  return {
+    getAllEntries: async (): Promise<SiteMemoryEntry[]> => {
+      return sortByUpdatedAt((await siteMemoryStorage.get()) ?? []);
+    },
+
+    getEntriesForUrl: async (url: string): Promise<SiteMemoryEntry[]> => {
+      const host = normalizeSiteMemoryDomain(url);
+      if (!host) {
+        return [];
+      }
+      const entries = (await siteMemoryStorage.get()) ?? [];
+      return sortByUpdatedAt(entries.filter(entry => isSiteMemoryDomainOf(entry.domain, host)));
+    },
+
+    addEntry: async (domain: string, content: string, source: SiteMemorySource): Promise<SiteMemoryEntry> => {
+      const normalizedDomain = normalizeSiteMemoryDomain(domain);
+      const trimmedContent = content.trim();
+      validateEntry(normalizedDomain, trimmedContent);
+
+      const now = Date.now();
+      const entries = (await siteMemoryStorage.get()) ?? [];
+      const existing = entries.find(
+        entry => entry.domain === normalizedDomain && entry.content.toLowerCase() === trimmedContent.toLowerCase(),
+      );
+      if (existing) {
+        const refreshed = { ...existing, updatedAt: now };
+        await siteMemoryStorage.set(prev => (prev ?? []).map(entry => (entry.id === existing.id ? refreshed : entry)));
+        return refreshed;
+      }
+
+      const newEntry: SiteMemoryEntry = {
+        id: crypto.randomUUID(),
+        domain: normalizedDomain,
+        content: trimmedContent,
+        source,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await siteMemoryStorage.set(prev => capDomainEntries([...(prev ?? []), newEntry], normalizedDomain));
+      return newEntry;
+    },
+
+    updateEntry: async (id: string, changes: Partial<Pick<SiteMemoryEntry, 'domain' | 'content'>>): Promise<void> => {
+      const entries = (await siteMemoryStorage.get()) ?? [];
+      const existing = entries.find(entry => entry.id === id);
+      if (!existing) {
+        throw new Error(`Site memory entry with ID ${id} not found`);
+      }
+
+      const updated: SiteMemoryEntry = {
+        ...existing,
+        domain: changes.domain !== undefined ? normalizeSiteMemoryDomain(changes.domain) : existing.domain,
+        content: (changes.content ?? existing.content).trim(),
+        updatedAt: Date.now(),
+      };
+      validateEntry(updated.domain, updated.content);
+      await siteMemoryStorage.set(prev => (prev ?? []).map(entry => (entry.id === id ? updated : entry)));
+    },
+
+    deleteEntry: async (id: string): Promise<void> => {
+      await siteMemoryStorage.set(prev => (prev ?? []).filter(entry => entry.id !== id));
+    },
+
+    clearDomain: async (domain: string): Promise<void> => {
+      const normalizedDomain = normalizeSiteMemoryDomain(domain);
+      await siteMemoryStorage.set(prev => (prev ?? []).filter(entry => entry.domain !== normalizedDomain));
+    },
+
+    subscribe: (listener: () => void) => siteMemoryStorage.subscribe(listener),
+  };
+}
+
+// Export the storage instance for direct use
+export const siteMemoryStore = createSiteMemoryStorage();
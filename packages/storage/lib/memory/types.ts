@@ -0,0 +1,35 @@
+// Who wrote a site memory entry
+export type SiteMemorySource = 'agent' | 'user';
+
+// A lasting fact about a site, e.g. where patient folders live or which search box works
+export interface SiteMemoryEntry {
+  id: string;
+  domain: string; // Host without "www.", also covers its subdomains, e.g. "contoso.sharepoint.com"
+  content: string;
+  source: SiteMemorySource;
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface SiteMemoryStorage {
+  // Get all entries, most recently updated first
+  getAllEntries: () => Promise<SiteMemoryEntry[]>;
+
+  // Get the entries of the domain of a URL and of its parent domains, most recently updated first
+  getEntriesForUrl: (url: string) => Promise<SiteMemoryEntry[]>;
+
+  // Add an entry, an entry with the same domain and content is refreshed instead of duplicated
+  addEntry: (domain: string, content: string, source: SiteMemorySource) => Promise<SiteMemoryEntry>;
+
+  // Update the domain or content of an entry
+  updateEntry: (id: string, changes: Partial<Pick<SiteMemoryEntry, 'domain' | 'content'>>) => Promise<void>;
+
+  // Delete an entry
+  deleteEntry: (id: string) => Promise<void>;
+
+  // Delete every entry of a domain
+  clearDomain: (domain: string) => Promise<void>;
+
+  // Subscribe to changes
+  subscribe: (listener: () => void) => () => void;
+}
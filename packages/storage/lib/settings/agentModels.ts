@@ -3,6 +3,12 @@ import { createStorage } from '../base/base';
 import type { BaseStorage } from '../base/types';
 import { AgentNameEnum, llmProviderParameters } from './types';
 
+// A model tried in order when the models before it in the chain fail, it uses the default parameters of the agent
+export interface FallbackModelConfig {
+  provider: string;
+  modelName: string;
+}
+
 // Interface for a single model configuration
 export interface ModelConfig {
   // providerId, the key of the provider in the llmProviderStore, not the provider name
@@ -10,6 +16,7 @@ export interface ModelConfig {
   modelName: string;
   parameters?: Record<string, unknown>;
   reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high'; // For o-series models (OpenAI and Azure)
+  fallbacks?: FallbackModelConfig[]; // Tried when the provider fails with an auth, forbidden, rate limit or timeout error
 }
 
 // Interface for storing multiple agent model configurations
@@ -19,12 +26,12 @@ export interface AgentModelRecord {
 
 export type AgentModelStorage = BaseStorage<AgentModelRecord> & {
   setAgentModel: (agent: AgentNameEnum, config: ModelConfig) => Promise<void>;
+  setFallbackModels: (agent: AgentNameEnum, fallbacks: FallbackModelConfig[]) => Promise<void>;
   getAgentModel: (agent: AgentNameEnum) => Promise<ModelConfig | undefined>;
   resetAgentModel: (agent: AgentNameEnum) => Promise<void>;
   hasAgentModel: (agent: AgentNameEnum) => Promise<boolean>;
   getConfiguredAgents: () => Promise<AgentNameEnum[]>;
   getAllAgentModels: () => Promise<Record<AgentNameEnum, ModelConfig>>;
-  cleanupLegacyValidatorSettings: () => Promise<void>;
 };
 
 const storage = createStorage<AgentModelRecord>(
@@ -36,7 +43,7 @@ const storage = createStorage<AgentModelRecord>(
   },
 );
 
-function validateModelConfig(config: ModelConfig) {
+function validateModelConfig(config: FallbackModelConfig) {
   if (!config.provider || !config.modelName) {
     throw new Error('Provider and model name must be specified');
   }
@@ -53,17 +60,31 @@ export const agentModelStore: AgentModelStorage = {
     validateModelConfig(config);
     // Merge default parameters with provided parameters
     const defaultParams = getModelParameters(agent, config.provider);
-    const mergedConfig = {
-      ...config,
-      parameters: {
-        ...defaultParams,
-        ...config.parameters,
+    await storage.set(current => ({
+      agents: {
+        ...current.agents,
+        [agent]: {
+          ...config,
+          parameters: {
+            ...defaultParams,
+            ...config.parameters,
+          },
+          // Changing the model or its parameters keeps the fallback chain
+          fallbacks: config.fallbacks ?? current.agents[agent]?.fallbacks,
+        },
       },
-    };
+    }));
+  },
+  setFallbackModels: async (agent: AgentNameEnum, fallbacks: FallbackModelConfig[]) => {
+    fallbacks.forEach(validateModelConfig);
+    const data = await storage.get();
+    if (!data.agents[agent]) {
+      throw new Error(`Choose a model for the ${agent} before adding fallback models`);
+    }
     await storage.set(current => ({
       agents: {
         ...current.agents,
-        [agent]: mergedConfig,
+        [agent]: { ...current.agents[agent], fallbacks },
       },
     }));
   },
@@ -95,27 +116,20 @@ export const agentModelStore: AgentModelStorage = {
   },
   getConfiguredAgents: async () => {
     const data = await storage.get();
-    // Filter out any legacy validator entries for backward compatibility
-    return Object.keys(data.agents).filter(
-      agentKey => agentKey !== 'validator' && Object.values(AgentNameEnum).includes(agentKey as AgentNameEnum),
+    // Filter out entries of agents that no longer exist
+    return Object.keys(data.agents).filter(agentKey =>
+      Object.values(AgentNameEnum).includes(agentKey as AgentNameEnum),
     ) as AgentNameEnum[];
   },
   getAllAgentModels: async () => {
     const data = await storage.get();
-    // Filter out any legacy validator entries for backward compatibility
+    // Filter out entries of agents that no longer exist
     const filteredAgents: Partial<Record<AgentNameEnum, ModelConfig>> = {};
     for (const [agentKey, config] of Object.entries(data.agents)) {
-      if (agentKey !== 'validator' && Object.values(AgentNameEnum).includes(agentKey as AgentNameEnum)) {
+      if (Object.values(AgentNameEnum).includes(agentKey as AgentNameEnum)) {
         filteredAgents[agentKey as AgentNameEnum] = config;
       }
     }
     return filteredAgents as Record<AgentNameEnum, ModelConfig>;
   },
-  cleanupLegacyValidatorSettings: async () => {
-    await storage.set(current => {
-      const newAgents = { ...current.agents };
-      delete newAgents['validator' as keyof typeof newAgents];
-      return { agents: newAgents };
-    });
-  },
 };
@@ -0,0 +1,77 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// A JSON schema saved by the user for the final answer of a task
+export interface SavedAnswerSchema {
+  id: string;
+  name: string; // Name used to pick the schema, e.g. "patient-documents"
+  description: string;
+  schema: Record<string, unknown>; // JSON schema of the final answer
+  updatedAt: number;
+}
+
+export interface AnswerSchemasConfig {
+  schemas: SavedAnswerSchema[];
+}
+
+export type AnswerSchemaStorage = BaseStorage<AnswerSchemasConfig> & {
+  getSchemas: () => Promise<SavedAnswerSchema[]>;
+  getSchemaByName: (name: string) => Promise<SavedAnswerSchema | undefined>;
+  saveSchema: (schema: Omit<SavedAnswerSchema, 'updatedAt'>) => Promise<void>;
+  removeSchema: (id: string) => Promise<void>;
+};
+
+export const DEFAULT_ANSWER_SCHEMAS: AnswerSchemasConfig = {
+  schemas: [],
+};
+
+/**
+ * Normalizes a schema name so it can be typed after the /schema command
+ * @param name The raw schema name
+ * @returns The normalized name
+ */
+export function normalizeAnswerSchemaName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+const storage = createStorage<AnswerSchemasConfig>('answer-schemas', DEFAULT_ANSWER_SCHEMAS, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const answerSchemaStore: AnswerSchemaStorage = {
+  ...storage,
+  async getSchemas() {
+    const config = await storage.get();
+    return config?.schemas ?? [];
+  },
+  async getSchemaByName(name: string) {
+    const normalizedName = normalizeAnswerSchemaName(name);
+    return (await this.getSchemas()).find(item => item.name === normalizedName);
+  },
+  async saveSchema(schema: Omit<SavedAnswerSchema, 'updatedAt'>) {
+    const name = normalizeAnswerSchemaName(schema.name);
+    if (!name) {
+      throw new Error('Schema name cannot be empty');
+    }
+    const schemas = await this.getSchemas();
+    if (schemas.some(item => item.name === name && item.id !== schema.id)) {
+      throw new Error(`A schema named "${name}" already exists`);
+    }
+
+    const saved = { ...schema, name, updatedAt: Date.now() };
+    const exists = schemas.some(item => item.id === schema.id);
+    await storage.set({
+      schemas: exists ? schemas.map(item => (item.id === schema.id ? saved : item)) : [...schemas, saved],
+    });
+  },
+  async removeSchema(id: string) {
+    const schemas = await this.getSchemas();
+    await storage.set({ schemas: schemas.filter(item => item.id !== id) });
+  },
+};
@@ -0,0 +1,144 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// A rule that makes the navigator ask the user before running a matching action.
+// Empty lists match anything, so a policy with only keywords applies to every action and page.
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  enabled: boolean;
+  actions: string[]; // Action names, e.g. "click_element"
+  keywords: string[]; // Whole words matched against the element text and attributes, or the action arguments
+  urlPatterns: string[]; // Page URL patterns, "*" matches any characters
+}
+
+// Interface for the approval gate configuration
+export interface ApprovalConfig {
+  enabled: boolean;
+  policies: ApprovalPolicy[];
+}
+
+// An action waiting for the user's decision, shown in the side panel
+export interface ApprovalRequest {
+  id: string;
+  actionName: string;
+  args: Record<string, unknown>;
+  url: string;
+  elementText?: string; // Text of the element the action targets, if any
+  policy: string; // Name of the policy that matched
+}
+
+// The user's answer to an approval request. Approved requests may carry edited arguments.
+export interface ApprovalDecision {
+  approved: boolean;
+  args?: Record<string, unknown>;
+  reason?: string;
+}
+
+// An action proposed by the navigator, as shown for review in debug mode
+export interface StepReviewAction {
+  name: string;
+  args: Record<string, unknown>;
+  index: number | null; // Index of the target element, if any
+  elementText?: string;
+}
+
+// A navigator step paused in debug mode before its actions run, shown in the side panel
+export interface StepReviewRequest {
+  id: string;
+  step: number;
+  url: string;
+  currentState: Record<string, string>; // Evaluation, memory and next goal of the model
+  actions: StepReviewAction[];
+  availableActions: string[]; // Names of the registered actions, to replace a proposed one
+}
+
+// The user's answer to a step review: the actions to run, edited or replaced, none to skip the step
+export interface StepReviewDecision {
+  actions: { name: string; args: Record<string, unknown> }[];
+}
+
+export type ApprovalStorage = BaseStorage<ApprovalConfig> & {
+  getConfig: () => Promise<ApprovalConfig>;
+  setEnabled: (enabled: boolean) => Promise<void>;
+  savePolicy: (policy: ApprovalPolicy) => Promise<void>;
+  removePolicy: (id: string) => Promise<void>;
+  resetToDefaults: () => Promise<void>;
+};
+
+// Default settings
+export const DEFAULT_APPROVAL_CONFIG: ApprovalConfig = {
+  enabled: true,
+  policies: [
+    {
+      id: 'delete',
+      name: 'Delete or remove',
+      enabled: true,
+      actions: ['click_element'],
+      keywords: ['delete', 'remove', 'erase', 'discard', 'destroy', 'deactivate', 'unsubscribe'],
+      urlPatterns: [],
+    },
+    {
+      id: 'submit',
+      name: 'Submit, pay or send',
+      enabled: true,
+      actions: ['click_element'],
+      keywords: ['submit', 'send', 'pay', 'purchase', 'buy', 'checkout', 'place order', 'transfer', 'confirm'],
+      urlPatterns: [],
+    },
+    {
+      id: 'enter',
+      name: 'Submit with the Enter key',
+      enabled: false,
+      actions: ['send_keys'],
+      keywords: ['enter'],
+      urlPatterns: [],
+    },
+  ],
+};
+
+const storage = createStorage<ApprovalConfig>('approval-settings', DEFAULT_APPROVAL_CONFIG, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const approvalStore: ApprovalStorage = {
+  ...storage,
+  async getConfig() {
+    const config = await storage.get();
+    return { ...DEFAULT_APPROVAL_CONFIG, ...config };
+  },
+  async setEnabled(enabled: boolean) {
+    const config = await this.getConfig();
+    await storage.set({ ...config, enabled });
+  },
+  async savePolicy(policy: ApprovalPolicy) {
+    if (!policy.name.trim()) {
+      throw new Error('Policy name cannot be empty');
+    }
+    if (policy.actions.length === 0 && policy.keywords.length === 0 && policy.urlPatterns.length === 0) {
+      throw new Error('A policy needs at least one action, keyword or URL pattern');
+    }
+
+    const config = await this.getConfig();
+    const saved = { ...policy, name: policy.name.trim() };
+    const exists = config.policies.some(item => item.id === policy.id);
+    await storage.set({
+      ...config,
+      policies: exists
+        ? config.policies.map(item => (item.id === policy.id ? saved : item))
+        : [...config.policies, saved],
+    });
+  },
+  async removePolicy(id: string) {
+    const config = await this.getConfig();
+    await storage.set({
+      ...config,
+      policies: config.policies.filter(item => item.id !== id),
+    });
+  },
+  async resetToDefaults() {
+    await storage.set(DEFAULT_APPROVAL_CONFIG);
+  },
+};
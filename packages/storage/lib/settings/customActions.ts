@@ -0,0 +1,171 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// A single field extracted by a selector-based custom action
+export interface CustomActionSelector {
+  key: string; // Property name in the resulting JSON object
+  selector: string; // CSS selector evaluated against the current page
+  attribute?: string; // Attribute to read instead of the text content
+  multiple: boolean; // Collect every match instead of only the first one
+}
+
+// Interface for a user-defined action that is turned into a navigator action at runtime
+export interface CustomActionDefinition {
+  id: string;
+  name: string; // Action name exposed to the navigator, e.g. "extract_invoice_fields"
+  description: string; // Description shown to the model
+  kind: string; // Plugin kind used to build the handler, e.g. "extract_selectors"
+  enabled: boolean;
+  selectors: CustomActionSelector[];
+}
+
+// Interface for the action registry configuration
+export interface CustomActionsConfig {
+  actions: CustomActionDefinition[];
+  disabledActions: string[]; // Names of built-in actions that should not be registered
+}
+
+export type CustomActionStorage = BaseStorage<CustomActionsConfig> & {
+  getConfig: () => Promise<CustomActionsConfig>;
+  saveAction: (action: CustomActionDefinition) => Promise<void>;
+  removeAction: (id: string) => Promise<void>;
+  setActionEnabled: (id: string, enabled: boolean) => Promise<void>;
+  disableBuiltInAction: (name: string) => Promise<void>;
+  enableBuiltInAction: (name: string) => Promise<void>;
+  resetToDefaults: () => Promise<void>;
+};
+
+// Names of the built-in navigator actions that can be disabled, in the order they are offered to the navigator.
+// The done action is not listed, it is required to finish a task.
+export const BUILT_IN_ACTION_NAMES: readonly string[] = [
+  'search_google',
+  'search_google_drive',
+  'google_drive_direct_access',
+  'sharepoint_document_scan',
+  'sharepoint_patient_check',
+  'sharepoint_multi_patient_check',
+  'search_in_page',
+  'go_to_url',
+  'go_back',
+  'wait',
+  'click_element',
+  'double_click_element',
+  'input_text',
+  'switch_tab',
+  'open_tab',
+  'close_tab',
+  'extract_structured',
+  'extract_table',
+  'download_file',
+  'wait_for_download',
+  'list_downloads',
+  'cache_content',
+  'remember',
+  'scroll_to_percent',
+  'scroll_to_top',
+  'scroll_to_bottom',
+  'previous_page',
+  'next_page',
+  'scroll_to_text',
+  'smart_scroll_search',
+  'send_keys',
+  'get_dropdown_options',
+  'select_dropdown_option',
+  'upload_file',
+  'scan_folder_for_documents',
+  'verify_document_checklist',
+  'navigate_to_folder',
+  'extract_document_list',
+  'generate_missing_documents_report',
+  'visual_click',
+  'visual_scroll',
+  'smart_click',
+  'smart_input',
+];
+
+// Default settings
+export const DEFAULT_CUSTOM_ACTIONS: CustomActionsConfig = {
+  actions: [],
+  disabledActions: [],
+};
+
+/**
+ * Normalizes an action name so it can be used as a key in the navigator output schema
+ * @param name The raw action name
+ * @returns The normalized action name
+ */
+export function normalizeActionName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+const storage = createStorage<CustomActionsConfig>('custom-actions', DEFAULT_CUSTOM_ACTIONS, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const customActionStore: CustomActionStorage = {
+  ...storage,
+  async getConfig() {
+    const config = await storage.get();
+    return { ...DEFAULT_CUSTOM_ACTIONS, ...config };
+  },
+  async saveAction(action: CustomActionDefinition) {
+    const name = normalizeActionName(action.name);
+    if (!name) {
+      throw new Error('Action name cannot be empty');
+    }
+    const config = await this.getConfig();
+    if (config.actions.some(item => item.name === name && item.id !== action.id)) {
+      throw new Error(`An action named "${name}" already exists`);
+    }
+
+    const saved = { ...action, name };
+    const exists = config.actions.some(item => item.id === action.id);
+    await storage.set({
+      ...config,
+      actions: exists ? config.actions.map(item => (item.id === action.id ? saved : item)) : [...config.actions, saved],
+    });
+  },
+  async removeAction(id: string) {
+    const config = await this.getConfig();
+    await storage.set({
+      ...config,
+      actions: config.actions.filter(item => item.id !== id),
+    });
+  },
+  async setActionEnabled(id: string, enabled: boolean) {
+    const config = await this.getConfig();
+    await storage.set({
+      ...config,
+      actions: config.actions.map(item => (item.id === id ? { ...item, enabled } : item)),
+    });
+  },
+  async disableBuiltInAction(name: string) {
+    const normalizedName = normalizeActionName(name);
+    const config = await this.getConfig();
+    // The done action is required to finish a task
+    if (!normalizedName || normalizedName === 'done' || config.disabledActions.includes(normalizedName)) {
+      return;
+    }
+    await storage.set({
+      ...config,
+      disabledActions: [...config.disabledActions, normalizedName],
+    });
+  },
+  async enableBuiltInAction(name: string) {
+    const normalizedName = normalizeActionName(name);
+    const config = await this.getConfig();
+    await storage.set({
+      ...config,
+      disabledActions: config.disabledActions.filter(item => item !== normalizedName),
+    });
+  },
+  async resetToDefaults() {
+    await storage.set(DEFAULT_CUSTOM_ACTIONS);
+  },
+};
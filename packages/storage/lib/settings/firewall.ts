@@ -2,10 +2,18 @@ import { StorageEnum } from '../base/enums';
 import { createStorage } from '../base/base';
 import type { BaseStorage } from '../base/types';
 
+// Restricts the actions the navigator may run on the pages of a domain
+export interface DomainActionPolicy {
+  pattern: string; // Domain, subdomains included, e.g. "sharepoint.com" or "*.sharepoint.com"
+  mode: 'allow' | 'deny'; // Allow only the listed actions, or deny the listed actions
+  actions: string[]; // Action names, e.g. "input_text"
+}
+
 // Interface for firewall settings configuration
 export interface FirewallConfig {
   allowList: string[]; // URLs that are explicitly allowed
   denyList: string[]; // URLs that are explicitly denied
+  domainPolicies: DomainActionPolicy[]; // Action policies by domain
   enabled: boolean; // Whether the firewall is enabled
 }
 
@@ -29,12 +37,15 @@ export type FirewallStorage = BaseStorage<FirewallConfig> & {
   removeFromAllowList: (url: string) => Promise<void>;
   addToDenyList: (url: string) => Promise<void>;
   removeFromDenyList: (url: string) => Promise<void>;
+  setDomainPolicy: (policy: DomainActionPolicy) => Promise<void>;
+  removeDomainPolicy: (pattern: string) => Promise<void>;
 };
 
 // Default settings
 export const DEFAULT_FIREWALL_SETTINGS: FirewallConfig = {
   allowList: [],
   denyList: [],
+  domainPolicies: [],
   enabled: true,
 };
 
@@ -54,7 +65,7 @@ export const firewallStore: FirewallStorage = {
   },
   async getFirewall() {
     const settings = await storage.get();
-    return settings || DEFAULT_FIREWALL_SETTINGS;
+    return { ...DEFAULT_FIREWALL_SETTINGS, ...settings };
   },
   async resetToDefaults() {
     await storage.set(DEFAULT_FIREWALL_SETTINGS);
@@ -101,4 +112,22 @@ export const firewallStore: FirewallStorage = {
       denyList: currentSettings.denyList.filter(item => item !== normalizedUrl),
     });
   },
+  async setDomainPolicy(policy: DomainActionPolicy) {
+    const pattern = normalizeUrl(policy.pattern);
+    if (!pattern) {
+      throw new Error('Domain pattern cannot be empty');
+    }
+    const currentSettings = await this.getFirewall();
+    const domainPolicies = currentSettings.domainPolicies.filter(item => item.pattern !== pattern);
+    await this.updateFirewall({
+      domainPolicies: [...domainPolicies, { ...policy, pattern }],
+    });
+  },
+  async removeDomainPolicy(pattern: string) {
+    const normalizedPattern = normalizeUrl(pattern);
+    const currentSettings = await this.getFirewall();
+    await this.updateFirewall({
+      domainPolicies: currentSettings.domainPolicies.filter(item => item.pattern !== normalizedPattern),
+    });
+  },
 };
@@ -2,6 +2,9 @@ import { StorageEnum } from '../base/enums';
 import { createStorage } from '../base/base';
 import type { BaseStorage } from '../base/types';
 
+// What happens to a task that goes over one of its budget limits
+export type BudgetAction = 'pause' | 'stop';
+
 // Interface for general settings configuration
 export interface GeneralSettingsConfig {
   maxSteps: number;
@@ -13,6 +16,16 @@ export interface GeneralSettingsConfig {
   displayHighlights: boolean;
   minWaitPageLoad: number;
   replayHistoricalTasks: boolean;
+  // Budget limits per task, 0 disables a limit
+  maxTokens: number; // Input plus output tokens reported by the providers
+  maxCost: number; // Estimated cost in USD, only counts models with a price
+  maxDuration: number; // Wall-clock time in minutes
+  budgetAction: BudgetAction;
+  // Let a manager agent split new tasks into independent subtasks that run in their own tabs
+  useManager: boolean;
+  maxParallelSubtasks: number;
+  // Summarize older steps into a progress memo when the history goes over the input token budget
+  compactHistory: boolean;
 }
 
 export type GeneralSettingsStorage = BaseStorage<GeneralSettingsConfig> & {
@@ -32,6 +45,13 @@ export const DEFAULT_GENERAL_SETTINGS: GeneralSettingsConfig = {
   displayHighlights: true,
   minWaitPageLoad: 250,
   replayHistoricalTasks: false,
+  maxTokens: 0,
+  maxCost: 0,
+  maxDuration: 0,
+  budgetAction: 'stop',
+  useManager: false,
+  maxParallelSubtasks: 3,
+  compactHistory: true,
 };
 
 const storage = createStorage<GeneralSettingsConfig>('general-settings', DEFAULT_GENERAL_SETTINGS, {
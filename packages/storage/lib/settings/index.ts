@@ -5,3 +5,6 @@ export * from './generalSettings';
 export * from './firewall';
 export * from './speechToText';
 export * from './analyticsSettings';
+export * from './customActions';
+export * from './approval';
+export * from './answerSchemas';
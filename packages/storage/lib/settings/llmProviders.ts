@@ -3,6 +3,12 @@ import { createStorage } from '../base/base';
 import type { BaseStorage } from '../base/types';
 import { type AgentNameEnum, llmProviderModelNames, llmProviderParameters, ProviderTypeEnum } from './types';
 
+// Price of a model in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
 // Interface for a single provider configuration
 export interface ProviderConfig {
   name?: string; // Display name in the options
@@ -14,6 +20,7 @@ export interface ProviderConfig {
   // Azure Specific Fields:
   azureDeploymentNames?: string[]; // Azure deployment names array
   azureApiVersion?: string;
+  modelPrices?: Record<string, ModelPrice>; // Prices by model name (deployment name for Azure), used to estimate task costs
 }
 
 // Interface for storing multiple LLM provider configurations
@@ -28,6 +35,7 @@ export type LLMProviderStorage = BaseStorage<LLMKeyRecord> & {
   removeProvider: (providerId: string) => Promise<void>;
   hasProvider: (providerId: string) => Promise<boolean>;
   getAllProviders: () => Promise<Record<string, ProviderConfig>>;
+  setModelPrice: (providerId: string, modelName: string, price: ModelPrice | null) => Promise<void>;
 };
 
 // Storage for LLM provider configurations
@@ -41,6 +49,17 @@ const storage = createStorage<LLMKeyRecord>(
   },
 );
 
+/**
+ * Estimates the cost of a model call
+ * @param price The model price, per million tokens
+ * @param inputTokens Number of input tokens
+ * @param outputTokens Number of output tokens
+ * @returns The cost in USD
+ */
+export function estimateTokenCost(price: ModelPrice, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
 // Helper function to determine provider type from provider name
 // Make sure to update this function if you add a new provider type
 export function getProviderTypeByProviderId(providerId: string): ProviderTypeEnum {
@@ -264,6 +283,7 @@ export const llmProviderStore: LLMProviderStorage = {
       name: config.name || getDefaultDisplayNameFromProviderId(providerId),
       type: providerType,
       createdAt: config.createdAt || Date.now(),
+      modelPrices: config.modelPrices,
       ...(providerType === ProviderTypeEnum.AzureOpenAI
         ? {
             azureDeploymentNames: config.azureDeploymentNames || [],
@@ -311,4 +331,28 @@ export const llmProviderStore: LLMProviderStorage = {
 
     return providers;
   },
+
+  async setModelPrice(providerId: string, modelName: string, price: ModelPrice | null) {
+    const current = (await storage.get()) || { providers: {} };
+    const config = current.providers[providerId];
+    if (!config) {
+      throw new Error(`Provider ${providerId} not found`);
+    }
+    if (price && (price.input < 0 || price.output < 0 || !isFinite(price.input) || !isFinite(price.output))) {
+      throw new Error('Model prices must be non-negative numbers');
+    }
+
+    const modelPrices = { ...config.modelPrices };
+    if (price) {
+      modelPrices[modelName] = price;
+    } else {
+      delete modelPrices[modelName];
+    }
+    await storage.set({
+      providers: {
+        ...current.providers,
+        [providerId]: { ...config, modelPrices },
+      },
+    });
+  },
 };
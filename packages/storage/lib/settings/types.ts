@@ -2,6 +2,8 @@
 export enum AgentNameEnum {
   Planner = 'planner',
   Navigator = 'navigator',
+  Validator = 'validator',
+  Compactor = 'compactor',
 }
 
 // Provider type, types before CustomOpenAI are built-in providers, CustomOpenAI is a custom provider
@@ -64,6 +66,14 @@ export const llmProviderParameters = {
       temperature: 0.3,
       topP: 0.85,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
   [ProviderTypeEnum.Anthropic]: {
     [AgentNameEnum.Planner]: {
@@ -74,6 +84,14 @@ export const llmProviderParameters = {
       temperature: 0.2,
       topP: 0.5,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
   [ProviderTypeEnum.Gemini]: {
     [AgentNameEnum.Planner]: {
@@ -84,6 +102,14 @@ export const llmProviderParameters = {
       temperature: 0.3,
       topP: 0.85,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
   [ProviderTypeEnum.Grok]: {
     [AgentNameEnum.Planner]: {
@@ -94,6 +120,14 @@ export const llmProviderParameters = {
       temperature: 0.3,
       topP: 0.85,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
   [ProviderTypeEnum.Ollama]: {
     [AgentNameEnum.Planner]: {
@@ -104,6 +138,14 @@ export const llmProviderParameters = {
       temperature: 0.1,
       topP: 0.85,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
   [ProviderTypeEnum.AzureOpenAI]: {
     [AgentNameEnum.Planner]: {
@@ -114,6 +156,14 @@ export const llmProviderParameters = {
       temperature: 0.3,
       topP: 0.85,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
   [ProviderTypeEnum.OpenRouter]: {
     [AgentNameEnum.Planner]: {
@@ -124,6 +174,14 @@ export const llmProviderParameters = {
       temperature: 0.3,
       topP: 0.85,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
   [ProviderTypeEnum.Groq]: {
     [AgentNameEnum.Planner]: {
@@ -134,6 +192,14 @@ export const llmProviderParameters = {
       temperature: 0.3,
       topP: 0.85,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
   [ProviderTypeEnum.Cerebras]: {
     [AgentNameEnum.Planner]: {
@@ -144,6 +210,14 @@ export const llmProviderParameters = {
       temperature: 0.3,
       topP: 0.85,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
   [ProviderTypeEnum.Llama]: {
     [AgentNameEnum.Planner]: {
@@ -154,5 +228,13 @@ export const llmProviderParameters = {
       temperature: 0.3,
       topP: 0.85,
     },
+    [AgentNameEnum.Validator]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
+    [AgentNameEnum.Compactor]: {
+      temperature: 0.1,
+      topP: 0.1,
+    },
   },
 };
@@ -0,0 +1,3 @@
+export * from './types';
+export * from './queue';
+export * from './schedule';
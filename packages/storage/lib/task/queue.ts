@@ -0,0 +1,105 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import {
+  type QueuedTask,
+  type QueuedTaskInput,
+  QueuedTaskStatus,
+  type TaskQueueState,
+  type TaskQueueStorage,
+} from './types';
+
+export const MAX_QUEUE_CONCURRENCY = 5;
+
+export const DEFAULT_TASK_QUEUE_STATE: TaskQueueState = {
+  tasks: [],
+  concurrency: 1,
+};
+
+const taskQueueStorage = createStorage<TaskQueueState>('task_queue', DEFAULT_TASK_QUEUE_STATE, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+const isFinished = (task: QueuedTask) =>
+  task.status === QueuedTaskStatus.COMPLETED ||
+  task.status === QueuedTaskStatus.FAILED ||
+  task.status === QueuedTaskStatus.CANCELLED;
+
+/**
+ * Creates a storage for the background task queue
+ */
+export function createTaskQueueStorage(): TaskQueueStorage {
+  return {
+    getState: async (): Promise<TaskQueueState> => {
+      const state = await taskQueueStorage.get();
+      return { ...DEFAULT_TASK_QUEUE_STATE, ...state };
+    },
+
+    enqueue: async (tasks: QueuedTaskInput[]): Promise<QueuedTask[]> => {
+      const now = Date.now();
+      const newTasks: QueuedTask[] = tasks
+        .map(task => (typeof task === 'string' ? { task } : task))
+        .map(task => ({ ...task, task: task.task.trim() }))
+        .filter(task => task.task.length > 0)
+        .map(task => ({
+          ...task,
+          id: crypto.randomUUID(),
+          status: QueuedTaskStatus.PENDING,
+          createdAt: now,
+        }));
+
+      await taskQueueStorage.set(prev => ({
+        ...DEFAULT_TASK_QUEUE_STATE,
+        ...prev,
+        tasks: [...(prev?.tasks ?? []), ...newTasks],
+      }));
+      return newTasks;
+    },
+
+    updateTask: async (id: string, changes: Partial<Omit<QueuedTask, 'id'>>): Promise<void> => {
+      await taskQueueStorage.set(prev => ({
+        ...prev,
+        tasks: prev.tasks.map(task => (task.id === id ? { ...task, ...changes } : task)),
+      }));
+    },
+
+    removeTask: async (id: string): Promise<void> => {
+      await taskQueueStorage.set(prev => ({
+        ...prev,
+        tasks: prev.tasks.filter(task => task.id !== id),
+      }));
+    },
+
+    clearFinished: async (): Promise<void> => {
+      await taskQueueStorage.set(prev => ({
+        ...prev,
+        tasks: prev.tasks.filter(task => !isFinished(task)),
+      }));
+    },
+
+    setConcurrency: async (concurrency: number): Promise<void> => {
+      const value = Math.min(Math.max(1, Math.floor(concurrency)), MAX_QUEUE_CONCURRENCY);
+      await taskQueueStorage.set(prev => ({ ...prev, concurrency: value }));
+    },
+
+    requeueInterrupted: async (): Promise<number> => {
+      let count = 0;
+      await taskQueueStorage.set(prev => ({
+        ...prev,
+        tasks: prev.tasks.map(task => {
+          if (task.status !== QueuedTaskStatus.RUNNING) {
+            return task;
+          }
+          count++;
+          return { ...task, status: QueuedTaskStatus.PENDING, tabId: undefined, startedAt: undefined };
+        }),
+      }));
+      return count;
+    },
+
+    subscribe: (listener: () => void) => taskQueueStorage.subscribe(listener),
+  };
+}
+
+// Export the storage instance for direct use
+export const taskQueueStore = createTaskQueueStorage();
@@ -0,0 +1,49 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { ScheduledTask, ScheduledTaskStorage } from './types';
+
+const scheduledTasksStorage = createStorage<ScheduledTask[]>('scheduled_tasks', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+/**
+ * Creates a storage for scheduled (recurring) task definitions
+ */
+export function createScheduledTaskStorage(): ScheduledTaskStorage {
+  return {
+    getAllTasks: async (): Promise<ScheduledTask[]> => {
+      return (await scheduledTasksStorage.get()) ?? [];
+    },
+
+    getTask: async (id: string): Promise<ScheduledTask | null> => {
+      const tasks = (await scheduledTasksStorage.get()) ?? [];
+      return tasks.find(task => task.id === id) ?? null;
+    },
+
+    createTask: async (task: Omit<ScheduledTask, 'id' | 'createdAt'>): Promise<ScheduledTask> => {
+      const newTask: ScheduledTask = {
+        ...task,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+      };
+      await scheduledTasksStorage.set(prev => [...(prev ?? []), newTask]);
+      return newTask;
+    },
+
+    updateTask: async (id: string, changes: Partial<Omit<ScheduledTask, 'id'>>): Promise<void> => {
+      await scheduledTasksStorage.set(prev =>
+        (prev ?? []).map(task => (task.id === id ? { ...task, ...changes } : task)),
+      );
+    },
+
+    deleteTask: async (id: string): Promise<void> => {
+      await scheduledTasksStorage.set(prev => (prev ?? []).filter(task => task.id !== id));
+    },
+
+    subscribe: (listener: () => void) => scheduledTasksStorage.subscribe(listener),
+  };
+}
+
+// Export the storage instance for direct use
+export const scheduledTaskStore = createScheduledTaskStorage();
@@ -0,0 +1,91 @@
+export enum QueuedTaskStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface QueuedTask {
+  id: string;
+  task: string;
+  status: QueuedTaskStatus;
+  sessionId?: string; // Chat session the task was recorded in
+  tabId?: number; // Tab the task is running in
+  result?: string; // Final answer or error message
+  createdAt: number; // Unix timestamp in milliseconds
+  startedAt?: number; // Unix timestamp in milliseconds
+  finishedAt?: number; // Unix timestamp in milliseconds
+  workflowId?: string; // Replay this workflow instead of running the task with the LLM
+  parameters?: Record<string, string>; // Parameter values for the workflow replay
+}
+
+// A task to enqueue, either a plain task description or a workflow run
+export type QueuedTaskInput = string | Pick<QueuedTask, 'task' | 'workflowId' | 'parameters'>;
+
+export interface TaskQueueState {
+  tasks: QueuedTask[];
+  concurrency: number; // Maximum number of tasks running at the same time
+}
+
+export interface TaskQueueStorage {
+  // Get the full queue state
+  getState: () => Promise<TaskQueueState>;
+
+  // Add tasks to the end of the queue
+  enqueue: (tasks: QueuedTaskInput[]) => Promise<QueuedTask[]>;
+
+  // Update a queued task
+  updateTask: (id: string, changes: Partial<Omit<QueuedTask, 'id'>>) => Promise<void>;
+
+  // Remove a task from the queue
+  removeTask: (id: string) => Promise<void>;
+
+  // Remove all finished tasks from the queue
+  clearFinished: () => Promise<void>;
+
+  // Update the maximum number of concurrent tasks
+  setConcurrency: (concurrency: number) => Promise<void>;
+
+  // Put tasks that were running when the service worker stopped back to pending
+  requeueInterrupted: () => Promise<number>;
+
+  // Subscribe to queue changes
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface ScheduledTask {
+  id: string;
+  name: string;
+  task: string;
+  cron: string; // Cron expression, e.g. "0 8 * * 1-5"
+  enabled: boolean;
+  notifyOnChange: boolean; // Raise a notification when the result differs from the previous run
+  createdAt: number; // Unix timestamp in milliseconds
+  nextRunAt?: number; // Unix timestamp in milliseconds
+  error?: string; // Set when the cron expression cannot be scheduled
+  lastRunAt?: number; // Unix timestamp in milliseconds
+  lastStatus?: string; // Outcome of the last run
+  lastResult?: string; // Final answer of the last run
+  lastSessionId?: string; // Chat session of the last run
+}
+
+export interface ScheduledTaskStorage {
+  // Get all scheduled tasks
+  getAllTasks: () => Promise<ScheduledTask[]>;
+
+  // Get a scheduled task by id
+  getTask: (id: string) => Promise<ScheduledTask | null>;
+
+  // Create a scheduled task
+  createTask: (task: Omit<ScheduledTask, 'id' | 'createdAt'>) => Promise<ScheduledTask>;
+
+  // Update a scheduled task
+  updateTask: (id: string, changes: Partial<Omit<ScheduledTask, 'id'>>) => Promise<void>;
+
+  // Delete a scheduled task
+  deleteTask: (id: string) => Promise<void>;
+
+  // Subscribe to changes
+  subscribe: (listener: () => void) => () => void;
+}
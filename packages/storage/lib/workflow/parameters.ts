@@ -0,0 +1,88 @@
+import type { WorkflowParameter, WorkflowParameterCandidate } from './types';
+
+// Action arguments that can be turned into workflow parameters
+export const WORKFLOW_PARAMETER_FIELDS: Record<string, string> = {
+  input_text: 'text',
+  go_to_url: 'url',
+  open_tab: 'url',
+};
+
+interface SerializedStep {
+  modelOutput: string | null;
+  [key: string]: unknown;
+}
+
+interface SerializedModelOutput {
+  action?: (Record<string, Record<string, unknown>> | null)[] | null;
+  [key: string]: unknown;
+}
+
+const parseHistory = (history: string): { history: SerializedStep[] } => {
+  const parsed = JSON.parse(history) as { history?: SerializedStep[] };
+  return { ...parsed, history: parsed.history ?? [] };
+};
+
+const parseModelOutput = (step: SerializedStep): SerializedModelOutput | null => {
+  if (!step.modelOutput) {
+    return null;
+  }
+  try {
+    return JSON.parse(step.modelOutput) as SerializedModelOutput;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Lists the action arguments of a recorded history that can become workflow parameters
+ * @param history The serialized AgentStepHistory
+ * @returns One candidate per input_text, go_to_url and open_tab action
+ */
+export function findWorkflowParameterCandidates(history: string): WorkflowParameterCandidate[] {
+  const candidates: WorkflowParameterCandidate[] = [];
+  parseHistory(history).history.forEach((step, stepIndex) => {
+    parseModelOutput(step)?.action?.forEach((action, actionIndex) => {
+      if (!action) return;
+      const actionName = Object.keys(action)[0];
+      const field = WORKFLOW_PARAMETER_FIELDS[actionName];
+      const value = field ? action[actionName]?.[field] : undefined;
+      if (typeof value === 'string') {
+        candidates.push({ stepIndex, actionIndex, actionName, field, value });
+      }
+    });
+  });
+  return candidates;
+}
+
+/**
+ * Replaces the parameterized action arguments of a recorded history with new values
+ * @param history The serialized AgentStepHistory
+ * @param parameters The workflow parameters
+ * @param values Parameter values by name, parameters without a value keep their default
+ * @returns The serialized history with the values applied
+ * @throws Error if a parameter no longer points to a matching action
+ */
+export function applyWorkflowParameters(
+  history: string,
+  parameters: WorkflowParameter[],
+  values: Record<string, string>,
+): string {
+  const parsed = parseHistory(history);
+
+  for (const parameter of parameters) {
+    const step = parsed.history[parameter.stepIndex];
+    const modelOutput = step ? parseModelOutput(step) : null;
+    const action = modelOutput?.action?.[parameter.actionIndex];
+    if (!step || !modelOutput || !action?.[parameter.actionName]) {
+      throw new Error(`Parameter "${parameter.name}" does not match a ${parameter.actionName} action`);
+    }
+
+    action[parameter.actionName] = {
+      ...action[parameter.actionName],
+      [parameter.field]: values[parameter.name] ?? parameter.defaultValue,
+    };
+    step.modelOutput = JSON.stringify(modelOutput);
+  }
+
+  return JSON.stringify(parsed);
+}
@@ -0,0 +1,46 @@
+// A recorded action argument that can be replaced with a new value on every replay
+export interface WorkflowParameter {
+  name: string; // Parameter name, e.g. "patientId"
+  stepIndex: number; // Index of the step in the recorded history
+  actionIndex: number; // Index of the action within the step
+  actionName: string; // e.g. "input_text" or "go_to_url"
+  field: string; // Argument of the action that holds the value, e.g. "text" or "url"
+  defaultValue: string; // Value used during the recording
+}
+
+// A candidate for a parameter found in a recorded history
+export type WorkflowParameterCandidate = Omit<WorkflowParameter, 'name' | 'defaultValue'> & {
+  value: string;
+};
+
+// A recorded run that can be replayed deterministically with different parameter values
+export interface Workflow {
+  id: string;
+  name: string;
+  task: string; // Task of the recorded run
+  history: string; // Serialized AgentStepHistory of the recorded run
+  parameters: WorkflowParameter[];
+  sourceSessionId?: string; // Chat session the workflow was recorded from
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface WorkflowStorage {
+  // Get all workflows
+  getAllWorkflows: () => Promise<Workflow[]>;
+
+  // Get a workflow by id
+  getWorkflow: (id: string) => Promise<Workflow | null>;
+
+  // Create a workflow
+  createWorkflow: (workflow: Omit<Workflow, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Workflow>;
+
+  // Update a workflow
+  updateWorkflow: (id: string, changes: Partial<Omit<Workflow, 'id' | 'createdAt'>>) => Promise<void>;
+
+  // Delete a workflow
+  deleteWorkflow: (id: string) => Promise<void>;
+
+  // Subscribe to changes
+  subscribe: (listener: () => void) => () => void;
+}
@@ -0,0 +1,62 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { Workflow, WorkflowStorage } from './types';
+
+const workflowsStorage = createStorage<Workflow[]>('workflows', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+/**
+ * Creates a storage for recorded workflows
+ */
+export function createWorkflowStorage(): WorkflowStorage {
+  return {
+    getAllWorkflows: async (): Promise<Workflow[]> => {
+      return (await workflowsStorage.get()) ?? [];
+    },
+
+    getWorkflow: async (id: string): Promise<Workflow | null> => {
+      const workflows = (await workflowsStorage.get()) ?? [];
+      return workflows.find(workflow => workflow.id === id) ?? null;
+    },
+
+    createWorkflow: async (workflow: Omit<Workflow, 'id' | 'createdAt' | 'updatedAt'>): Promise<Workflow> => {
+      if (!workflow.name.trim()) {
+        throw new Error('Workflow name cannot be empty');
+      }
+      const names = workflow.parameters.map(parameter => parameter.name);
+      if (new Set(names).size !== names.length) {
+        throw new Error('Parameter names must be unique');
+      }
+
+      const now = Date.now();
+      const newWorkflow: Workflow = {
+        ...workflow,
+        name: workflow.name.trim(),
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await workflowsStorage.set(prev => [...(prev ?? []), newWorkflow]);
+      return newWorkflow;
+    },
+
+    updateWorkflow: async (id: string, changes: Partial<Omit<Workflow, 'id' | 'createdAt'>>): Promise<void> => {
+      await workflowsStorage.set(prev =>
+        (prev ?? []).map(workflow =>
+          workflow.id === id ? { ...workflow, ...changes, updatedAt: Date.now() } : workflow,
+        ),
+      );
+    },
+
+    deleteWorkflow: async (id: string): Promise<void> => {
+      await workflowsStorage.set(prev => (prev ?? []).filter(workflow => workflow.id !== id));
+    },
+
+    subscribe: (listener: () => void) => workflowsStorage.subscribe(listener),
+  };
+}
+
+// Export the storage instance for direct use
+export const workflowStore = createWorkflowStorage();
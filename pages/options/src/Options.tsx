@@ -3,18 +3,57 @@ import '@src/Options.css';
 import { Button } from '@extension/ui';
 import { withErrorBoundary, withSuspense } from '@extension/shared';
 import { t } from '@extension/i18n';
-import { FiSettings, FiCpu, FiShield, FiTrendingUp, FiHelpCircle } from 'react-icons/fi';
+import {
+  FiSettings,
+  FiCpu,
+  FiShield,
+  FiTrendingUp,
+  FiHelpCircle,
+  FiZap,
+  FiClock,
+  FiCheckSquare,
+  FiPlayCircle,
+  FiUserCheck,
+  FiBookOpen,
+  FiGrid,
+} from 'react-icons/fi';
 import { GeneralSettings } from './components/GeneralSettings';
 import { ModelSettings } from './components/ModelSettings';
 import { FirewallSettings } from './components/FirewallSettings';
+import { ApprovalSettings } from './components/ApprovalSettings';
 import { AnalyticsSettings } from './components/AnalyticsSettings';
+import { ActionSettings } from './components/ActionSettings';
+import { ScheduleSettings } from './components/ScheduleSettings';
+import { ChecklistSettings } from './components/ChecklistSettings';
+import { WorkflowSettings } from './components/WorkflowSettings';
+import { MemorySettings } from './components/MemorySettings';
+import { AnswerSchemaSettings } from './components/AnswerSchemaSettings';
 
-type TabTypes = 'general' | 'models' | 'firewall' | 'analytics' | 'help';
+type TabTypes =
+  | 'general'
+  | 'models'
+  | 'firewall'
+  | 'approvals'
+  | 'actions'
+  | 'checklists'
+  | 'memory'
+  | 'schemas'
+  | 'workflows'
+  | 'schedules'
+  | 'analytics'
+  | 'help';
 
 const TABS: { id: TabTypes; icon: React.ComponentType<{ className?: string }>; label: string }[] = [
   { id: 'general', icon: FiSettings, label: t('options_tabs_general') },
   { id: 'models', icon: FiCpu, label: t('options_tabs_models') },
   { id: 'firewall', icon: FiShield, label: t('options_tabs_firewall') },
+  { id: 'approvals', icon: FiUserCheck, label: t('options_tabs_approvals') },
+  { id: 'actions', icon: FiZap, label: t('options_tabs_actions') },
+  { id: 'checklists', icon: FiCheckSquare, label: t('options_tabs_checklists') },
+  { id: 'memory', icon: FiBookOpen, label: t('options_tabs_memory') },
+  { id: 'schemas', icon: FiGrid, label: t('options_tabs_schemas') },
+  { id: 'workflows', icon: FiPlayCircle, label: t('options_tabs_workflows') },
+  { id: 'schedules', icon: FiClock, label: t('options_tabs_schedules') },
   { id: 'analytics', icon: FiTrendingUp, label: 'Analytics' },
   { id: 'help', icon: FiHelpCircle, label: t('options_tabs_help') },
 ];
@@ -52,6 +91,20 @@ const Options = () => {
         return <ModelSettings isDarkMode={isDarkMode} />;
       case 'firewall':
         return <FirewallSettings isDarkMode={isDarkMode} />;
+      case 'approvals':
+        return <ApprovalSettings isDarkMode={isDarkMode} />;
+      case 'actions':
+        return <ActionSettings isDarkMode={isDarkMode} />;
+      case 'checklists':
+        return <ChecklistSettings isDarkMode={isDarkMode} />;
+      case 'memory':
+        return <MemorySettings isDarkMode={isDarkMode} />;
+      case 'schemas':
+        return <AnswerSchemaSettings isDarkMode={isDarkMode} />;
+      case 'workflows':
+        return <WorkflowSettings isDarkMode={isDarkMode} />;
+      case 'schedules':
+        return <ScheduleSettings isDarkMode={isDarkMode} />;
       case 'analytics':
         return <AnalyticsSettings isDarkMode={isDarkMode} />;
       default:
@@ -0,0 +1,276 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BUILT_IN_ACTION_NAMES, customActionStore } from '@extension/storage';
+import type { CustomActionDefinition, CustomActionSelector } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { Button } from '@extension/ui';
+
+interface ActionSettingsProps {
+  isDarkMode: boolean;
+}
+
+interface ActionToggleProps {
+  id: string;
+  name: string;
+  enabled: boolean;
+  isDarkMode: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+const EMPTY_SELECTOR: CustomActionSelector = { key: '', selector: '', attribute: '', multiple: false };
+
+const ActionToggle = ({ id, name, enabled, isDarkMode, onChange }: ActionToggleProps) => (
+  <div className="relative inline-block w-12 select-none">
+    <input type="checkbox" checked={enabled} onChange={e => onChange(e.target.checked)} className="sr-only" id={id} />
+    <label
+      htmlFor={id}
+      className={`block h-6 cursor-pointer overflow-hidden rounded-full ${
+        enabled ? 'bg-blue-500' : isDarkMode ? 'bg-gray-600' : 'bg-gray-300'
+      }`}>
+      <span className="sr-only">{t('options_actions_toggle_a11y', [name])}</span>
+      <span
+        className={`block size-6 rounded-full bg-white shadow transition-transform ${
+          enabled ? 'translate-x-6' : 'translate-x-0'
+        }`}
+      />
+    </label>
+  </div>
+);
+
+export const ActionSettings = ({ isDarkMode }: ActionSettingsProps) => {
+  const [actions, setActions] = useState<CustomActionDefinition[]>([]);
+  const [disabledActions, setDisabledActions] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [selectors, setSelectors] = useState<CustomActionSelector[]>([{ ...EMPTY_SELECTOR }]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadActions = useCallback(async () => {
+    const config = await customActionStore.getConfig();
+    setActions(config.actions);
+    setDisabledActions(config.disabledActions);
+  }, []);
+
+  useEffect(() => {
+    loadActions();
+    const unsubscribe = customActionStore.subscribe(loadActions);
+    return () => {
+      unsubscribe();
+    };
+  }, [loadActions]);
+
+  const handleToggleAction = async (id: string, enabled: boolean) => {
+    await customActionStore.setActionEnabled(id, enabled);
+    await loadActions();
+  };
+
+  const handleRemoveAction = async (id: string) => {
+    await customActionStore.removeAction(id);
+    await loadActions();
+  };
+
+  const handleSelectorChange = (index: number, changes: Partial<CustomActionSelector>) => {
+    setSelectors(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleAddAction = async () => {
+    const validSelectors = selectors
+      .filter(item => item.key.trim() && item.selector.trim())
+      .map(item => ({
+        key: item.key.trim(),
+        selector: item.selector.trim(),
+        attribute: item.attribute?.trim() || undefined,
+        multiple: item.multiple,
+      }));
+    if (!name.trim() || validSelectors.length === 0) {
+      setError(t('options_actions_new_errors_required'));
+      return;
+    }
+
+    try {
+      await customActionStore.saveAction({
+        id: crypto.randomUUID(),
+        name,
+        description: description.trim(),
+        kind: 'extract_selectors',
+        enabled: true,
+        selectors: validSelectors,
+      });
+      setName('');
+      setDescription('');
+      setSelectors([{ ...EMPTY_SELECTOR }]);
+      setError(null);
+      await loadActions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleToggleBuiltIn = async (actionName: string, enabled: boolean) => {
+    if (enabled) {
+      await customActionStore.enableBuiltInAction(actionName);
+    } else {
+      await customActionStore.disableBuiltInAction(actionName);
+    }
+    await loadActions();
+  };
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_actions_custom_header')}
+        </h2>
+        <p className={`mb-6 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('options_actions_custom_desc')}
+        </p>
+
+        <div className="space-y-3">
+          {actions.length > 0 ? (
+            actions.map(action => (
+              <div
+                key={action.id}
+                className={`flex items-center justify-between rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`}>
+                <div className="min-w-0 flex-1">
+                  <div className={`font-mono text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                    {action.name}
+                  </div>
+                  <div className={`truncate text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {action.selectors.map(item => `${item.key}: ${item.selector}`).join(' · ')}
+                  </div>
+                </div>
+                <div className="ml-4 flex items-center gap-3">
+                  <ActionToggle
+                    id={`custom-action-${action.id}`}
+                    name={action.name}
+                    enabled={action.enabled}
+                    isDarkMode={isDarkMode}
+                    onChange={enabled => handleToggleAction(action.id, enabled)}
+                  />
+                  <Button
+                    onClick={() => handleRemoveAction(action.id)}
+                    className={`rounded px-2 py-1 text-xs ${
+                      isDarkMode
+                        ? 'bg-red-900/40 text-red-300 hover:bg-red-800/60'
+                        : 'bg-red-50 text-red-600 hover:bg-red-100'
+                    }`}>
+                    {t('options_actions_btnRemove')}
+                  </Button>
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {t('options_actions_custom_empty')}
+            </p>
+          )}
+        </div>
+
+        <div
+          className={`mt-6 space-y-3 rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`}>
+          <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+            {t('options_actions_new_header')}
+          </h3>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={t('options_actions_new_name_placeholder')}
+            className={`w-full ${inputClassName}`}
+          />
+          <input
+            type="text"
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            placeholder={t('options_actions_new_description_placeholder')}
+            className={`w-full ${inputClassName}`}
+          />
+          {selectors.map((item, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={item.key}
+                onChange={e => handleSelectorChange(index, { key: e.target.value })}
+                placeholder={t('options_actions_new_key_placeholder')}
+                className={`w-32 ${inputClassName}`}
+              />
+              <input
+                type="text"
+                value={item.selector}
+                onChange={e => handleSelectorChange(index, { selector: e.target.value })}
+                placeholder={t('options_actions_new_selector_placeholder')}
+                className={`flex-1 ${inputClassName}`}
+              />
+              <input
+                type="text"
+                value={item.attribute ?? ''}
+                onChange={e => handleSelectorChange(index, { attribute: e.target.value })}
+                placeholder={t('options_actions_new_attribute_placeholder')}
+                className={`w-40 ${inputClassName}`}
+              />
+              <label className={`flex items-center gap-1 text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                <input
+                  type="checkbox"
+                  checked={item.multiple}
+                  onChange={e => handleSelectorChange(index, { multiple: e.target.checked })}
+                />
+                {t('options_actions_new_multiple')}
+              </label>
+            </div>
+          ))}
+          {error && <p className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>}
+          <div className="flex gap-2">
+            <Button
+              onClick={() => setSelectors(prev => [...prev, { ...EMPTY_SELECTOR }])}
+              className={`rounded-md px-4 py-2 text-sm ${
+                isDarkMode
+                  ? 'bg-slate-600 text-gray-200 hover:bg-slate-500'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}>
+              {t('options_actions_new_btnAddSelector')}
+            </Button>
+            <Button
+              onClick={handleAddAction}
+              className={`rounded-md px-4 py-2 text-sm text-white ${
+                isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+              }`}>
+              {t('options_actions_new_btnSave')}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_actions_builtIn_header')}
+        </h2>
+        <p className={`mb-4 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('options_actions_builtIn_desc')}
+        </p>
+        <ul className="grid grid-cols-1 gap-2 md:grid-cols-2">
+          {BUILT_IN_ACTION_NAMES.map(actionName => (
+            <li
+              key={actionName}
+              className={`flex items-center justify-between rounded-md px-3 py-2 ${isDarkMode ? 'bg-slate-700' : 'bg-gray-100'}`}>
+              <span className={`font-mono text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                {actionName}
+              </span>
+              <ActionToggle
+                id={`built-in-action-${actionName}`}
+                name={actionName}
+                enabled={!disabledActions.includes(actionName)}
+                isDarkMode={isDarkMode}
+                onChange={enabled => handleToggleBuiltIn(actionName, enabled)}
+              />
+            </li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,212 @@
+import { useState, useEffect, useCallback } from 'react';
+import { answerSchemaStore, normalizeAnswerSchemaName } from '@extension/storage';
+import type { SavedAnswerSchema } from '@extension/storage';
+import { type JsonSchemaObject, parseJsonSchema } from '@extension/schema-utils';
+import { t } from '@extension/i18n';
+import { Button } from '@extension/ui';
+
+interface AnswerSchemaSettingsProps {
+  isDarkMode: boolean;
+}
+
+interface DraftSchema {
+  id?: string;
+  name: string;
+  description: string;
+  schemaText: string;
+}
+
+const EXAMPLE_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      patientId: { type: 'string' },
+      document: { type: 'string' },
+      status: { type: 'string', enum: ['found', 'missing'] },
+    },
+    required: ['patientId', 'document', 'status'],
+  },
+};
+
+const EMPTY_DRAFT: DraftSchema = { name: '', description: '', schemaText: JSON.stringify(EXAMPLE_SCHEMA, null, 2) };
+
+export const AnswerSchemaSettings = ({ isDarkMode }: AnswerSchemaSettingsProps) => {
+  const [schemas, setSchemas] = useState<SavedAnswerSchema[]>([]);
+  const [draft, setDraft] = useState<DraftSchema | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchemas = useCallback(async () => {
+    setSchemas(await answerSchemaStore.getSchemas());
+  }, []);
+
+  useEffect(() => {
+    loadSchemas();
+    const unsubscribe = answerSchemaStore.subscribe(loadSchemas);
+    return () => {
+      unsubscribe();
+    };
+  }, [loadSchemas]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const name = normalizeAnswerSchemaName(draft.name);
+    if (!name) {
+      setError(t('options_schemas_errors_nameRequired'));
+      return;
+    }
+    if (schemas.some(item => item.name === name && item.id !== draft.id)) {
+      setError(t('options_schemas_errors_duplicateName', [name]));
+      return;
+    }
+    let schema: JsonSchemaObject;
+    try {
+      schema = parseJsonSchema(draft.schemaText);
+    } catch (err) {
+      setError(t('options_schemas_errors_invalidSchema', [err instanceof Error ? err.message : String(err)]));
+      return;
+    }
+    try {
+      await answerSchemaStore.saveSchema({
+        id: draft.id ?? crypto.randomUUID(),
+        name: draft.name,
+        description: draft.description.trim(),
+        schema,
+      });
+      setDraft(null);
+      setError(null);
+      await loadSchemas();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await answerSchemaStore.removeSchema(id);
+    if (draft?.id === id) {
+      setDraft(null);
+    }
+    await loadSchemas();
+  };
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+  const mutedClassName = `text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const cardClassName = `rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`;
+  const secondaryButtonClassName = `rounded px-2 py-1 text-xs ${
+    isDarkMode ? 'bg-slate-600 text-gray-200 hover:bg-slate-500' : 'bg-white text-gray-700 hover:bg-gray-200'
+  }`;
+  const deleteButtonClassName = `rounded px-2 py-1 text-xs ${
+    isDarkMode ? 'bg-red-900/40 text-red-300 hover:bg-red-800/60' : 'bg-red-50 text-red-600 hover:bg-red-100'
+  }`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_schemas_header')}
+        </h2>
+        <p className={`mb-6 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{t('options_schemas_desc')}</p>
+
+        <div className="space-y-3">
+          {schemas.length > 0 ? (
+            schemas.map(item => (
+              <div key={item.id} className={`flex items-start justify-between gap-4 ${cardClassName}`}>
+                <div className="min-w-0 flex-1">
+                  <h3 className={`font-mono text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                    /schema {item.name}
+                  </h3>
+                  {item.description && (
+                    <div className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      {item.description}
+                    </div>
+                  )}
+                  <div className={mutedClassName}>
+                    {t('options_schemas_updated', [new Date(item.updatedAt).toLocaleString()])}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    onClick={() =>
+                      setDraft({
+                        id: item.id,
+                        name: item.name,
+                        description: item.description,
+                        schemaText: JSON.stringify(item.schema, null, 2),
+                      })
+                    }
+                    className={secondaryButtonClassName}>
+                    {t('options_schemas_btnEdit')}
+                  </Button>
+                  <Button onClick={() => handleDelete(item.id)} className={deleteButtonClassName}>
+                    {t('options_schemas_btnDelete')}
+                  </Button>
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t('options_schemas_empty')}</p>
+          )}
+        </div>
+
+        {draft ? (
+          <div className={`mt-6 space-y-3 ${cardClassName}`}>
+            <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+              {draft.id ? t('options_schemas_edit_header') : t('options_schemas_new_header')}
+            </h3>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              placeholder={t('options_schemas_name_placeholder')}
+              className={`w-full font-mono ${inputClassName}`}
+            />
+            <input
+              type="text"
+              value={draft.description}
+              onChange={e => setDraft({ ...draft, description: e.target.value })}
+              placeholder={t('options_schemas_description_placeholder')}
+              className={`w-full ${inputClassName}`}
+            />
+            <textarea
+              value={draft.schemaText}
+              onChange={e => setDraft({ ...draft, schemaText: e.target.value })}
+              rows={14}
+              spellCheck={false}
+              className={`w-full font-mono ${inputClassName}`}
+            />
+            <p className={mutedClassName}>{t('options_schemas_keywords_help')}</p>
+            {error && <p className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>}
+            <div className="flex gap-2">
+              <Button
+                onClick={handleSave}
+                className={`rounded-md px-4 py-2 text-sm text-white ${
+                  isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+                }`}>
+                {t('options_schemas_btnSave')}
+              </Button>
+              <Button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                className={`rounded-md px-4 py-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                {t('options_schemas_btnCancel')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            className={`mt-6 rounded-md px-4 py-2 text-sm text-white ${
+              isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+            }`}>
+            {t('options_schemas_btnNew')}
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+};
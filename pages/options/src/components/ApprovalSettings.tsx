@@ -0,0 +1,254 @@
+import { useState, useEffect, useCallback } from 'react';
+import { approvalStore, DEFAULT_APPROVAL_CONFIG } from '@extension/storage';
+import type { ApprovalConfig, ApprovalPolicy } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { Button } from '@extension/ui';
+
+interface ApprovalSettingsProps {
+  isDarkMode: boolean;
+}
+
+// Lists are edited as comma-separated text and split when the policy is saved
+interface DraftPolicy {
+  id?: string;
+  name: string;
+  enabled: boolean;
+  actions: string;
+  keywords: string;
+  urlPatterns: string;
+}
+
+const EMPTY_DRAFT: DraftPolicy = { name: '', enabled: true, actions: 'click_element', keywords: '', urlPatterns: '' };
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean);
+
+const toDraft = (policy: ApprovalPolicy): DraftPolicy => ({
+  id: policy.id,
+  name: policy.name,
+  enabled: policy.enabled,
+  actions: policy.actions.join(', '),
+  keywords: policy.keywords.join(', '),
+  urlPatterns: policy.urlPatterns.join(', '),
+});
+
+const describeList = (values: string[]) => (values.length > 0 ? values.join(', ') : t('options_approvals_policy_any'));
+
+// Names of the default policies in the language of the user, shown as long as the user did not rename them
+const DEFAULT_POLICY_NAMES: Record<string, string> = {
+  delete: t('options_approvals_defaults_delete'),
+  submit: t('options_approvals_defaults_submit'),
+  enter: t('options_approvals_defaults_enter'),
+};
+
+const policyName = (policy: ApprovalPolicy) => {
+  const defaultPolicy = DEFAULT_APPROVAL_CONFIG.policies.find(item => item.id === policy.id);
+  return defaultPolicy?.name === policy.name ? (DEFAULT_POLICY_NAMES[policy.id] ?? policy.name) : policy.name;
+};
+
+export const ApprovalSettings = ({ isDarkMode }: ApprovalSettingsProps) => {
+  const [config, setConfig] = useState<ApprovalConfig>(DEFAULT_APPROVAL_CONFIG);
+  const [draft, setDraft] = useState<DraftPolicy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConfig = useCallback(async () => {
+    setConfig(await approvalStore.getConfig());
+  }, []);
+
+  useEffect(() => {
+    loadConfig();
+    const unsubscribe = approvalStore.subscribe(loadConfig);
+    return () => {
+      unsubscribe();
+    };
+  }, [loadConfig]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const actions = splitList(draft.actions);
+    const keywords = splitList(draft.keywords);
+    const urlPatterns = splitList(draft.urlPatterns);
+    if (!draft.name.trim()) {
+      setError(t('options_approvals_errors_nameRequired'));
+      return;
+    }
+    if (actions.length === 0 && keywords.length === 0 && urlPatterns.length === 0) {
+      setError(t('options_approvals_errors_ruleRequired'));
+      return;
+    }
+    try {
+      await approvalStore.savePolicy({
+        id: draft.id ?? crypto.randomUUID(),
+        name: draft.name,
+        enabled: draft.enabled,
+        actions,
+        keywords,
+        urlPatterns,
+      });
+      setDraft(null);
+      setError(null);
+      await loadConfig();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleToggle = async (policy: ApprovalPolicy) => {
+    await approvalStore.savePolicy({ ...policy, enabled: !policy.enabled });
+    await loadConfig();
+  };
+
+  const handleDelete = async (id: string) => {
+    await approvalStore.removePolicy(id);
+    if (draft?.id === id) {
+      setDraft(null);
+    }
+    await loadConfig();
+  };
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+  const mutedClassName = `text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const cardClassName = `rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`;
+  const secondaryButtonClassName = `rounded px-2 py-1 text-xs ${
+    isDarkMode ? 'bg-slate-600 text-gray-200 hover:bg-slate-500' : 'bg-white text-gray-700 hover:bg-gray-200'
+  }`;
+  const deleteButtonClassName = `rounded px-2 py-1 text-xs ${
+    isDarkMode ? 'bg-red-900/40 text-red-300 hover:bg-red-800/60' : 'bg-red-50 text-red-600 hover:bg-red-100'
+  }`;
+  const labelClassName = `flex items-center gap-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_approvals_header')}
+        </h2>
+        <p className={`mb-6 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('options_approvals_desc')}
+        </p>
+
+        <div className="mb-6 flex items-center justify-between">
+          <label className={labelClassName}>
+            <input
+              type="checkbox"
+              checked={config.enabled}
+              onChange={async e => {
+                await approvalStore.setEnabled(e.target.checked);
+                await loadConfig();
+              }}
+            />
+            {t('options_approvals_enabled')}
+          </label>
+          <Button onClick={() => approvalStore.resetToDefaults()} className={secondaryButtonClassName}>
+            {t('options_approvals_btnReset')}
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {config.policies.length > 0 ? (
+            config.policies.map(policy => (
+              <div key={policy.id} className={cardClassName}>
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0 flex-1">
+                    <label className={`font-medium ${labelClassName}`}>
+                      <input type="checkbox" checked={policy.enabled} onChange={() => handleToggle(policy)} />
+                      {policyName(policy)}
+                    </label>
+                    <div className={`truncate ${mutedClassName}`}>
+                      {t('options_approvals_policy_summary', [
+                        describeList(policy.actions),
+                        describeList(policy.keywords),
+                        describeList(policy.urlPatterns),
+                      ])}
+                    </div>
+                  </div>
+                  <div className="ml-4 flex items-center gap-2">
+                    <Button onClick={() => setDraft(toDraft(policy))} className={secondaryButtonClassName}>
+                      {t('options_approvals_btnEdit')}
+                    </Button>
+                    <Button onClick={() => handleDelete(policy.id)} className={deleteButtonClassName}>
+                      {t('options_approvals_btnDelete')}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {t('options_approvals_empty')}
+            </p>
+          )}
+        </div>
+
+        {draft ? (
+          <div className={`mt-6 space-y-3 ${cardClassName}`}>
+            <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+              {draft.id ? t('options_approvals_edit_header') : t('options_approvals_new_header')}
+            </h3>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              placeholder={t('options_approvals_name_placeholder')}
+              className={`w-full ${inputClassName}`}
+            />
+            <input
+              type="text"
+              value={draft.actions}
+              onChange={e => setDraft({ ...draft, actions: e.target.value })}
+              placeholder={t('options_approvals_actions_placeholder')}
+              className={`w-full font-mono ${inputClassName}`}
+            />
+            <input
+              type="text"
+              value={draft.keywords}
+              onChange={e => setDraft({ ...draft, keywords: e.target.value })}
+              placeholder={t('options_approvals_keywords_placeholder')}
+              className={`w-full ${inputClassName}`}
+            />
+            <input
+              type="text"
+              value={draft.urlPatterns}
+              onChange={e => setDraft({ ...draft, urlPatterns: e.target.value })}
+              placeholder={t('options_approvals_urlPatterns_placeholder')}
+              className={`w-full font-mono ${inputClassName}`}
+            />
+            <p className={mutedClassName}>{t('options_approvals_matching_help')}</p>
+            {error && <p className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>}
+            <div className="flex gap-2">
+              <Button
+                onClick={handleSave}
+                className={`rounded-md px-4 py-2 text-sm text-white ${
+                  isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+                }`}>
+                {t('options_approvals_btnSave')}
+              </Button>
+              <Button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                className={`rounded-md px-4 py-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                {t('options_approvals_btnCancel')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            className={`mt-6 rounded-md px-4 py-2 text-sm text-white ${
+              isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+            }`}>
+            {t('options_approvals_btnNew')}
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,315 @@
+import { useState, useEffect, useCallback } from 'react';
+import { checklistTemplateStore, compileChecklistPattern } from '@extension/storage';
+import type { ChecklistTemplate, ChecklistTemplateItem } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { Button } from '@extension/ui';
+
+interface ChecklistSettingsProps {
+  isDarkMode: boolean;
+}
+
+// Items are edited as comma-separated text and split when the template is saved
+interface DraftItem {
+  name: string;
+  aliases: string;
+  patterns: string;
+  fileTypes: string;
+  required: boolean;
+}
+
+interface DraftTemplate {
+  id?: string;
+  name: string;
+  description: string;
+  items: DraftItem[];
+}
+
+const EMPTY_ITEM: DraftItem = { name: '', aliases: '', patterns: '', fileTypes: '', required: true };
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean);
+
+const toDraft = (template: ChecklistTemplate): DraftTemplate => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  items: template.items.map(item => ({
+    name: item.name,
+    aliases: item.aliases.join(', '),
+    patterns: item.patterns.join(', '),
+    fileTypes: item.fileTypes.join(', '),
+    required: item.required,
+  })),
+});
+
+const fromDraftItem = (item: DraftItem): ChecklistTemplateItem => ({
+  name: item.name,
+  aliases: splitList(item.aliases),
+  patterns: splitList(item.patterns),
+  fileTypes: splitList(item.fileTypes),
+  required: item.required,
+});
+
+// Finds the problems validateChecklistTemplate of the storage would reject, with a message in the language of the user
+const findTemplateError = (template: Pick<ChecklistTemplate, 'name' | 'items'>): string | null => {
+  if (!template.name.trim()) {
+    return t('options_checklists_errors_nameRequired');
+  }
+  if (template.items.length === 0) {
+    return t('options_checklists_errors_itemsRequired');
+  }
+  if (!template.items.some(item => item.required)) {
+    return t('options_checklists_errors_requiredItem');
+  }
+
+  const names = new Set<string>();
+  for (const item of template.items) {
+    const name = item.name.trim().toLowerCase();
+    if (names.has(name)) {
+      return t('options_checklists_errors_duplicateItem', [item.name]);
+    }
+    names.add(name);
+
+    for (const pattern of item.patterns) {
+      try {
+        compileChecklistPattern(pattern);
+      } catch {
+        return t('options_checklists_errors_invalidPattern', [pattern, item.name]);
+      }
+    }
+  }
+  return null;
+};
+
+export const ChecklistSettings = ({ isDarkMode }: ChecklistSettingsProps) => {
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [draft, setDraft] = useState<DraftTemplate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    setTemplates(await checklistTemplateStore.getAllTemplates());
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+    const unsubscribe = checklistTemplateStore.subscribe(loadTemplates);
+    return () => {
+      unsubscribe();
+    };
+  }, [loadTemplates]);
+
+  const updateItem = (index: number, changes: Partial<DraftItem>) => {
+    setDraft(prev =>
+      prev ? { ...prev, items: prev.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) } : prev,
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const template = {
+      name: draft.name,
+      description: draft.description.trim(),
+      items: draft.items.filter(item => item.name.trim()).map(fromDraftItem),
+    };
+    const validationError = findTemplateError(template);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    try {
+      if (draft.id) {
+        await checklistTemplateStore.updateTemplate(draft.id, template);
+      } else {
+        await checklistTemplateStore.createTemplate(template);
+      }
+      setDraft(null);
+      setError(null);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await checklistTemplateStore.deleteTemplate(id);
+    if (draft?.id === id) {
+      setDraft(null);
+    }
+    await loadTemplates();
+  };
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+  const mutedClassName = `text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const cardClassName = `rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`;
+  const secondaryButtonClassName = `rounded px-2 py-1 text-xs ${
+    isDarkMode ? 'bg-slate-600 text-gray-200 hover:bg-slate-500' : 'bg-white text-gray-700 hover:bg-gray-200'
+  }`;
+  const deleteButtonClassName = `rounded px-2 py-1 text-xs ${
+    isDarkMode ? 'bg-red-900/40 text-red-300 hover:bg-red-800/60' : 'bg-red-50 text-red-600 hover:bg-red-100'
+  }`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_checklists_header')}
+        </h2>
+        <p className={`mb-6 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('options_checklists_desc')}
+        </p>
+
+        <div className="space-y-3">
+          {templates.length > 0 ? (
+            templates.map(template => (
+              <div key={template.id} className={cardClassName}>
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0 flex-1">
+                    <div className={`text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                      {template.name} <span className={`font-mono ${mutedClassName}`}>{template.id}</span>
+                    </div>
+                    {template.description && <div className={mutedClassName}>{template.description}</div>}
+                    <div className={`truncate ${mutedClassName}`}>
+                      {template.items
+                        .map(item => (item.required ? item.name : t('options_checklists_optionalItem', [item.name])))
+                        .join(', ')}
+                    </div>
+                  </div>
+                  <div className="ml-4 flex items-center gap-2">
+                    <Button onClick={() => setDraft(toDraft(template))} className={secondaryButtonClassName}>
+                      {t('options_checklists_btnEdit')}
+                    </Button>
+                    <Button onClick={() => handleDelete(template.id)} className={deleteButtonClassName}>
+                      {t('options_checklists_btnDelete')}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {t('options_checklists_empty')}
+            </p>
+          )}
+        </div>
+
+        {draft ? (
+          <div className={`mt-6 space-y-3 ${cardClassName}`}>
+            <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+              {draft.id ? t('options_checklists_edit_header') : t('options_checklists_new_header')}
+            </h3>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              placeholder={t('options_checklists_name_placeholder')}
+              className={`w-full ${inputClassName}`}
+            />
+            <input
+              type="text"
+              value={draft.description}
+              onChange={e => setDraft({ ...draft, description: e.target.value })}
+              placeholder={t('options_checklists_description_placeholder')}
+              className={`w-full ${inputClassName}`}
+            />
+
+            {draft.items.map((item, index) => (
+              <div
+                key={index}
+                className={`space-y-2 rounded-md border p-3 ${isDarkMode ? 'border-slate-600' : 'border-gray-300'}`}>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    value={item.name}
+                    onChange={e => updateItem(index, { name: e.target.value })}
+                    placeholder={t('options_checklists_item_name_placeholder')}
+                    className={`flex-1 ${inputClassName}`}
+                  />
+                  <label
+                    className={`flex items-center gap-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                    <input
+                      type="checkbox"
+                      checked={item.required}
+                      onChange={e => updateItem(index, { required: e.target.checked })}
+                    />
+                    {t('options_checklists_item_required')}
+                  </label>
+                  <Button
+                    onClick={() => setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) })}
+                    className={deleteButtonClassName}>
+                    {t('options_checklists_item_btnRemove')}
+                  </Button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    type="text"
+                    value={item.aliases}
+                    onChange={e => updateItem(index, { aliases: e.target.value })}
+                    placeholder={t('options_checklists_item_aliases_placeholder')}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="text"
+                    value={item.patterns}
+                    onChange={e => updateItem(index, { patterns: e.target.value })}
+                    placeholder={t('options_checklists_item_patterns_placeholder')}
+                    className={`font-mono ${inputClassName}`}
+                  />
+                  <input
+                    type="text"
+                    value={item.fileTypes}
+                    onChange={e => updateItem(index, { fileTypes: e.target.value })}
+                    placeholder={t('options_checklists_item_fileTypes_placeholder')}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <p className={mutedClassName}>{t('options_checklists_matching_help')}</p>
+            {error && <p className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>}
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setDraft({ ...draft, items: [...draft.items, { ...EMPTY_ITEM }] })}
+                className={`rounded-md px-4 py-2 text-sm ${
+                  isDarkMode
+                    ? 'bg-slate-600 text-gray-200 hover:bg-slate-500'
+                    : 'bg-white text-gray-700 hover:bg-gray-200'
+                }`}>
+                {t('options_checklists_btnAddItem')}
+              </Button>
+              <Button
+                onClick={handleSave}
+                className={`rounded-md px-4 py-2 text-sm text-white ${
+                  isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+                }`}>
+                {t('options_checklists_btnSave')}
+              </Button>
+              <Button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                className={`rounded-md px-4 py-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                {t('options_checklists_btnCancel')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={() => setDraft({ name: '', description: '', items: [{ ...EMPTY_ITEM }] })}
+            className={`mt-6 rounded-md px-4 py-2 text-sm text-white ${
+              isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+            }`}>
+            {t('options_checklists_btnNew')}
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+};
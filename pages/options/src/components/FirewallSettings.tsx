@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { firewallStore } from '@extension/storage';
+import { type DomainActionPolicy, firewallStore } from '@extension/storage';
 import { Button } from '@extension/ui';
 import { t } from '@extension/i18n';
 
@@ -13,12 +13,17 @@ export const FirewallSettings = ({ isDarkMode }: FirewallSettingsProps) => {
   const [denyList, setDenyList] = useState<string[]>([]);
   const [newUrl, setNewUrl] = useState('');
   const [activeList, setActiveList] = useState<'allow' | 'deny'>('allow');
+  const [domainPolicies, setDomainPolicies] = useState<DomainActionPolicy[]>([]);
+  const [policyPattern, setPolicyPattern] = useState('');
+  const [policyMode, setPolicyMode] = useState<DomainActionPolicy['mode']>('deny');
+  const [policyActions, setPolicyActions] = useState('');
 
   const loadFirewallSettings = useCallback(async () => {
     const settings = await firewallStore.getFirewall();
     setIsEnabled(settings.enabled);
     setAllowList(settings.allowList);
     setDenyList(settings.denyList);
+    setDomainPolicies(settings.domainPolicies);
   }, []);
 
   useEffect(() => {
@@ -53,6 +58,38 @@ export const FirewallSettings = ({ isDarkMode }: FirewallSettingsProps) => {
     await loadFirewallSettings();
   };
 
+  const handleSaveDomainPolicy = async () => {
+    const pattern = policyPattern.trim();
+    if (!pattern) return;
+
+    await firewallStore.setDomainPolicy({
+      pattern,
+      mode: policyMode,
+      actions: policyActions
+        .split(',')
+        .map(action => action.trim())
+        .filter(Boolean),
+    });
+    await loadFirewallSettings();
+    setPolicyPattern('');
+    setPolicyActions('');
+  };
+
+  const handleEditDomainPolicy = (policy: DomainActionPolicy) => {
+    setPolicyPattern(policy.pattern);
+    setPolicyMode(policy.mode);
+    setPolicyActions(policy.actions.join(', '));
+  };
+
+  const handleRemoveDomainPolicy = async (pattern: string) => {
+    await firewallStore.removeDomainPolicy(pattern);
+    await loadFirewallSettings();
+  };
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-gray-600 bg-slate-700 text-white' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+
   return (
     <section className="space-y-6">
       <div
@@ -206,6 +243,94 @@ export const FirewallSettings = ({ isDarkMode }: FirewallSettingsProps) => {
         </div>
       </div>
 
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_firewall_domainPolicies_header')}
+        </h2>
+        <p className={`mb-4 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('options_firewall_domainPolicies_desc')}
+        </p>
+
+        <div className="mb-4 grid grid-cols-[1fr_auto] gap-2">
+          <input
+            type="text"
+            value={policyPattern}
+            onChange={e => setPolicyPattern(e.target.value)}
+            placeholder={t('options_firewall_domainPolicies_pattern_placeholder')}
+            className={inputClassName}
+          />
+          <select
+            value={policyMode}
+            onChange={e => setPolicyMode(e.target.value as DomainActionPolicy['mode'])}
+            aria-label={t('options_firewall_domainPolicies_mode_a11y')}
+            className={inputClassName}>
+            <option value="deny">{t('options_firewall_domainPolicies_mode_deny')}</option>
+            <option value="allow">{t('options_firewall_domainPolicies_mode_allow')}</option>
+          </select>
+          <input
+            type="text"
+            value={policyActions}
+            onChange={e => setPolicyActions(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                handleSaveDomainPolicy();
+              }
+            }}
+            placeholder={t('options_firewall_domainPolicies_actions_placeholder')}
+            className={`font-mono ${inputClassName}`}
+          />
+          <Button
+            onClick={handleSaveDomainPolicy}
+            className={`px-4 py-2 text-sm ${
+              isDarkMode ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-green-500 text-white hover:bg-green-600'
+            }`}>
+            {t('options_firewall_domainPolicies_save')}
+          </Button>
+        </div>
+
+        {domainPolicies.length > 0 ? (
+          <ul className="space-y-2">
+            {domainPolicies.map(policy => (
+              <li
+                key={policy.pattern}
+                className={`flex items-center justify-between rounded-md p-2 pr-0 ${
+                  isDarkMode ? 'bg-slate-700' : 'bg-gray-100'
+                }`}>
+                <div className="min-w-0 flex-1">
+                  <div className={`text-sm ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>{policy.pattern}</div>
+                  <div className={`truncate font-mono text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {policy.mode === 'allow'
+                      ? t('options_firewall_domainPolicies_allowed', [policy.actions.join(', ')])
+                      : t('options_firewall_domainPolicies_denied', [policy.actions.join(', ')])}
+                  </div>
+                </div>
+                <Button
+                  onClick={() => handleEditDomainPolicy(policy)}
+                  className={`mr-2 px-2 py-1 text-xs ${
+                    isDarkMode
+                      ? 'bg-slate-600 text-gray-200 hover:bg-slate-500'
+                      : 'bg-white text-gray-700 hover:bg-gray-200'
+                  }`}>
+                  {t('options_firewall_domainPolicies_edit')}
+                </Button>
+                <Button
+                  onClick={() => handleRemoveDomainPolicy(policy.pattern)}
+                  className={`rounded-l-none px-2 py-1 text-xs ${
+                    isDarkMode ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-red-500 text-white hover:bg-red-600'
+                  }`}>
+                  {t('options_firewall_btnRemove')}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className={`text-center text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {t('options_firewall_domainPolicies_empty')}
+          </p>
+        )}
+      </div>
+
       <div
         className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
         <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
@@ -1,5 +1,10 @@
 import { useState, useEffect } from 'react';
-import { type GeneralSettingsConfig, generalSettingsStore, DEFAULT_GENERAL_SETTINGS } from '@extension/storage';
+import {
+  type BudgetAction,
+  type GeneralSettingsConfig,
+  generalSettingsStore,
+  DEFAULT_GENERAL_SETTINGS,
+} from '@extension/storage';
 import { t } from '@extension/i18n';
 
 interface GeneralSettingsProps {
@@ -228,6 +233,183 @@ export const GeneralSettings = ({ isDarkMode = false }: GeneralSettingsProps) =>
               </label>
             </div>
           </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('options_general_useManager')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('options_general_useManager_desc')}
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="useManager"
+                type="checkbox"
+                checked={settings.useManager}
+                onChange={e => updateSetting('useManager', e.target.checked)}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="useManager"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">{t('options_general_useManager')}</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('options_general_maxParallelSubtasks')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('options_general_maxParallelSubtasks_desc')}
+              </p>
+            </div>
+            <label htmlFor="maxParallelSubtasks" className="sr-only">
+              {t('options_general_maxParallelSubtasks')}
+            </label>
+            <input
+              id="maxParallelSubtasks"
+              type="number"
+              min={1}
+              max={10}
+              value={settings.maxParallelSubtasks}
+              disabled={!settings.useManager}
+              onChange={e => updateSetting('maxParallelSubtasks', Number.parseInt(e.target.value, 10))}
+              className={`w-20 rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('options_general_compactHistory')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('options_general_compactHistory_desc')}
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="compactHistory"
+                type="checkbox"
+                checked={settings.compactHistory}
+                onChange={e => updateSetting('compactHistory', e.target.checked)}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="compactHistory"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">{t('options_general_compactHistory')}</span>
+              </label>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-white'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-left text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_general_budget_header')}
+        </h2>
+        <p className={`mb-4 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('options_general_budget_desc')}
+        </p>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('options_general_maxTokens')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('options_general_maxTokens_desc')}
+              </p>
+            </div>
+            <label htmlFor="maxTokens" className="sr-only">
+              {t('options_general_maxTokens')}
+            </label>
+            <input
+              id="maxTokens"
+              type="number"
+              min={0}
+              step={1000}
+              value={settings.maxTokens}
+              onChange={e => updateSetting('maxTokens', Math.max(0, Number.parseInt(e.target.value, 10)) || 0)}
+              className={`w-24 rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('options_general_maxCost')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('options_general_maxCost_desc')}
+              </p>
+            </div>
+            <label htmlFor="maxCost" className="sr-only">
+              {t('options_general_maxCost')}
+            </label>
+            <input
+              id="maxCost"
+              type="number"
+              min={0}
+              step={0.1}
+              value={settings.maxCost}
+              onChange={e => updateSetting('maxCost', Math.max(0, Number.parseFloat(e.target.value)) || 0)}
+              className={`w-24 rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('options_general_maxDuration')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('options_general_maxDuration_desc')}
+              </p>
+            </div>
+            <label htmlFor="maxDuration" className="sr-only">
+              {t('options_general_maxDuration')}
+            </label>
+            <input
+              id="maxDuration"
+              type="number"
+              min={0}
+              step={1}
+              value={settings.maxDuration}
+              onChange={e => updateSetting('maxDuration', Math.max(0, Number.parseInt(e.target.value, 10)) || 0)}
+              className={`w-24 rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('options_general_budgetAction')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('options_general_budgetAction_desc')}
+              </p>
+            </div>
+            <label htmlFor="budgetAction" className="sr-only">
+              {t('options_general_budgetAction')}
+            </label>
+            <select
+              id="budgetAction"
+              value={settings.budgetAction}
+              onChange={e => updateSetting('budgetAction', e.target.value as BudgetAction)}
+              className={`w-24 rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}>
+              <option value="pause">{t('options_general_budgetAction_pause')}</option>
+              <option value="stop">{t('options_general_budgetAction_stop')}</option>
+            </select>
+          </div>
         </div>
       </div>
     </section>
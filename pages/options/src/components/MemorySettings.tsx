@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from 'react';
+import { siteMemoryStore, MAX_SITE_MEMORY_ENTRY_LENGTH, normalizeSiteMemoryDomain } from '@extension/storage';
+import type { SiteMemoryEntry } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { Button } from '@extension/ui';
+
+interface MemorySettingsProps {
+  isDarkMode: boolean;
+}
+
+interface DraftEntry {
+  id?: string;
+  domain: string;
+  content: string;
+}
+
+const EMPTY_DRAFT: DraftEntry = { domain: '', content: '' };
+
+// Group the entries by domain, domains sorted by name and entries by last update
+const groupByDomain = (entries: SiteMemoryEntry[]) => {
+  const groups = new Map<string, SiteMemoryEntry[]>();
+  for (const entry of entries) {
+    groups.set(entry.domain, [...(groups.get(entry.domain) ?? []), entry]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+};
+
+export const MemorySettings = ({ isDarkMode }: MemorySettingsProps) => {
+  const [entries, setEntries] = useState<SiteMemoryEntry[]>([]);
+  const [filter, setFilter] = useState('');
+  const [draft, setDraft] = useState<DraftEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setEntries(await siteMemoryStore.getAllEntries());
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+    const unsubscribe = siteMemoryStore.subscribe(loadEntries);
+    return () => {
+      unsubscribe();
+    };
+  }, [loadEntries]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!normalizeSiteMemoryDomain(draft.domain)) {
+      setError(t('options_memory_errors_domainInvalid'));
+      return;
+    }
+    if (!draft.content.trim()) {
+      setError(t('options_memory_errors_contentRequired'));
+      return;
+    }
+    try {
+      if (draft.id) {
+        await siteMemoryStore.updateEntry(draft.id, { domain: draft.domain, content: draft.content });
+      } else {
+        await siteMemoryStore.addEntry(draft.domain, draft.content, 'user');
+      }
+      setDraft(null);
+      setError(null);
+      await loadEntries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await siteMemoryStore.deleteEntry(id);
+    if (draft?.id === id) {
+      setDraft(null);
+    }
+    await loadEntries();
+  };
+
+  const handleClearDomain = async (domain: string) => {
+    if (!window.confirm(t('options_memory_forgetAll_confirm', [domain]))) return;
+    await siteMemoryStore.clearDomain(domain);
+    await loadEntries();
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visibleEntries = query
+    ? entries.filter(entry => entry.domain.includes(query) || entry.content.toLowerCase().includes(query))
+    : entries;
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+  const mutedClassName = `text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const cardClassName = `rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`;
+  const secondaryButtonClassName = `rounded px-2 py-1 text-xs ${
+    isDarkMode ? 'bg-slate-600 text-gray-200 hover:bg-slate-500' : 'bg-white text-gray-700 hover:bg-gray-200'
+  }`;
+  const deleteButtonClassName = `rounded px-2 py-1 text-xs ${
+    isDarkMode ? 'bg-red-900/40 text-red-300 hover:bg-red-800/60' : 'bg-red-50 text-red-600 hover:bg-red-100'
+  }`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_memory_header')}
+        </h2>
+        <p className={`mb-6 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{t('options_memory_desc')}</p>
+
+        <input
+          type="text"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder={t('options_memory_filter_placeholder')}
+          className={`mb-4 w-full ${inputClassName}`}
+        />
+
+        <div className="space-y-3">
+          {visibleEntries.length > 0 ? (
+            groupByDomain(visibleEntries).map(([domain, domainEntries]) => (
+              <div key={domain} className={cardClassName}>
+                <div className="mb-2 flex items-center justify-between">
+                  <h3 className={`font-mono text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                    {domain}
+                  </h3>
+                  <Button onClick={() => handleClearDomain(domain)} className={deleteButtonClassName}>
+                    {t('options_memory_btnForgetAll')}
+                  </Button>
+                </div>
+                <ul className="space-y-2">
+                  {domainEntries.map(entry => (
+                    <li key={entry.id} className="flex items-start justify-between gap-4">
+                      <div className="min-w-0 flex-1">
+                        <div className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                          {entry.content}
+                        </div>
+                        <div className={mutedClassName}>
+                          {t(entry.source === 'agent' ? 'options_memory_source_agent' : 'options_memory_source_user', [
+                            new Date(entry.updatedAt).toLocaleString(),
+                          ])}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          onClick={() => setDraft({ id: entry.id, domain: entry.domain, content: entry.content })}
+                          className={secondaryButtonClassName}>
+                          {t('options_memory_btnEdit')}
+                        </Button>
+                        <Button onClick={() => handleDelete(entry.id)} className={deleteButtonClassName}>
+                          {t('options_memory_btnDelete')}
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          ) : (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {entries.length > 0 ? t('options_memory_noMatch') : t('options_memory_empty')}
+            </p>
+          )}
+        </div>
+
+        {draft ? (
+          <div className={`mt-6 space-y-3 ${cardClassName}`}>
+            <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+              {draft.id ? t('options_memory_edit_header') : t('options_memory_new_header')}
+            </h3>
+            <input
+              type="text"
+              value={draft.domain}
+              onChange={e => setDraft({ ...draft, domain: e.target.value })}
+              placeholder={t('options_memory_domain_placeholder')}
+              className={`w-full font-mono ${inputClassName}`}
+            />
+            <textarea
+              value={draft.content}
+              onChange={e => setDraft({ ...draft, content: e.target.value })}
+              placeholder={t('options_memory_content_placeholder')}
+              maxLength={MAX_SITE_MEMORY_ENTRY_LENGTH}
+              rows={3}
+              className={`w-full ${inputClassName}`}
+            />
+            <p className={mutedClassName}>
+              {t('options_memory_content_help', [String(draft.content.length), String(MAX_SITE_MEMORY_ENTRY_LENGTH)])}
+            </p>
+            {error && <p className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>}
+            <div className="flex gap-2">
+              <Button
+                onClick={handleSave}
+                className={`rounded-md px-4 py-2 text-sm text-white ${
+                  isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+                }`}>
+                {t('options_memory_btnSave')}
+              </Button>
+              <Button
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+                className={`rounded-md px-4 py-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                {t('options_memory_btnCancel')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            className={`mt-6 rounded-md px-4 py-2 text-sm text-white ${
+              isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+            }`}>
+            {t('options_memory_btnNew')}
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -64,10 +64,14 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
   const [selectedModels, setSelectedModels] = useState<Record<AgentNameEnum, string>>({
     [AgentNameEnum.Navigator]: '',
     [AgentNameEnum.Planner]: '',
+    [AgentNameEnum.Validator]: '',
+    [AgentNameEnum.Compactor]: '',
   });
   const [modelParameters, setModelParameters] = useState<Record<AgentNameEnum, { temperature: number; topP: number }>>({
     [AgentNameEnum.Navigator]: { temperature: 0, topP: 0 },
     [AgentNameEnum.Planner]: { temperature: 0, topP: 0 },
+    [AgentNameEnum.Validator]: { temperature: 0, topP: 0 },
+    [AgentNameEnum.Compactor]: { temperature: 0, topP: 0 },
   });
 
   // State for reasoning effort for O-series models
@@ -76,6 +80,15 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
   >({
     [AgentNameEnum.Navigator]: undefined,
     [AgentNameEnum.Planner]: undefined,
+    [AgentNameEnum.Validator]: undefined,
+    [AgentNameEnum.Compactor]: undefined,
+  });
+  // Fallback chain of each agent, in "provider>model" format
+  const [fallbackModels, setFallbackModels] = useState<Record<AgentNameEnum, string[]>>({
+    [AgentNameEnum.Navigator]: [],
+    [AgentNameEnum.Planner]: [],
+    [AgentNameEnum.Validator]: [],
+    [AgentNameEnum.Compactor]: [],
   });
   const [newModelInputs, setNewModelInputs] = useState<Record<string, string>>({});
   const [isProviderSelectorOpen, setIsProviderSelectorOpen] = useState(false);
@@ -90,6 +103,8 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
   // State for model input handling
 
   const [selectedSpeechToTextModel, setSelectedSpeechToTextModel] = useState<string>('');
+  // Price inputs being edited, by "provider>model", saved when the input loses focus
+  const [priceDrafts, setPriceDrafts] = useState<Record<string, { input: string; output: string }>>({});
 
   useEffect(() => {
     const loadProviders = async () => {
@@ -122,6 +137,8 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
         const models: Record<AgentNameEnum, string> = {
           [AgentNameEnum.Planner]: '',
           [AgentNameEnum.Navigator]: '',
+          [AgentNameEnum.Validator]: '',
+          [AgentNameEnum.Compactor]: '',
         };
 
         for (const agent of Object.values(AgentNameEnum)) {
@@ -145,6 +162,12 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
                 [agent]: config.reasoningEffort as 'minimal' | 'low' | 'medium' | 'high',
               }));
             }
+            if (config.fallbacks) {
+              setFallbackModels(prev => ({
+                ...prev,
+                [agent]: (config.fallbacks ?? []).map(fallback => `${fallback.provider}>${fallback.modelName}`),
+              }));
+            }
           }
         }
         setSelectedModels(models);
@@ -616,14 +639,42 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
             : undefined,
         });
       } else {
-        // Reset storage if no model is selected
+        // Reset storage if no model is selected, the fallback chain goes with it
         await agentModelStore.resetAgentModel(agentName);
+        setFallbackModels(prev => ({
+          ...prev,
+          [agentName]: [],
+        }));
       }
     } catch (error) {
       console.error('Error saving agent model:', error);
     }
   };
 
+  const handleFallbackModelsChange = async (agentName: AgentNameEnum, values: string[]) => {
+    setFallbackModels(prev => ({
+      ...prev,
+      [agentName]: values,
+    }));
+
+    try {
+      await agentModelStore.setFallbackModels(
+        agentName,
+        values.map(value => {
+          const [provider, modelName] = value.split('>');
+          return { provider, modelName };
+        }),
+      );
+    } catch (error) {
+      console.error('Error saving fallback models:', error);
+    }
+  };
+
+  const getModelLabel = (value: string) => {
+    const option = availableModels.find(({ provider, model }) => `${provider}>${model}` === value);
+    return option ? `${option.providerName} > ${option.model}` : value.replace('>', ' > ');
+  };
+
   const handleReasoningEffortChange = async (
     agentName: AgentNameEnum,
     value: 'minimal' | 'low' | 'medium' | 'high',
@@ -710,6 +761,44 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
     }
   };
 
+  const getPriceDraft = (provider: string, model: string) => {
+    const price = providers[provider]?.modelPrices?.[model];
+    return (
+      priceDrafts[`${provider}>${model}`] ?? {
+        input: price ? String(price.input) : '',
+        output: price ? String(price.output) : '',
+      }
+    );
+  };
+
+  const handleModelPriceSave = async (provider: string, model: string) => {
+    const draft = priceDrafts[`${provider}>${model}`];
+    if (!draft) return;
+
+    const input = Number(draft.input || 0);
+    const output = Number(draft.output || 0);
+    const price = draft.input.trim() || draft.output.trim() ? { input, output } : null;
+    try {
+      await llmProviderStore.setModelPrice(provider, model, price);
+      setProviders(prev => {
+        const modelPrices = { ...prev[provider]?.modelPrices };
+        if (price) {
+          modelPrices[model] = price;
+        } else {
+          delete modelPrices[model];
+        }
+        return { ...prev, [provider]: { ...prev[provider], modelPrices } };
+      });
+      setPriceDrafts(prev => {
+        const next = { ...prev };
+        delete next[`${provider}>${model}`];
+        return next;
+      });
+    } catch (error) {
+      console.error('Error saving model price:', error);
+    }
+  };
+
   const renderModelSelect = (agentName: AgentNameEnum) => (
     <div
       className={`rounded-lg border ${isDarkMode ? 'border-gray-700 bg-slate-800' : 'border-gray-200 bg-gray-50'} p-4`}>
@@ -863,6 +952,74 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
             </div>
           </div>
         )}
+
+        {/* Fallback models, tried in order when the provider of the model fails */}
+        {selectedModels[agentName] && (
+          <div className="flex items-start">
+            <label
+              htmlFor={`${agentName}-fallback`}
+              className={`w-24 pt-2 text-sm font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              {t('options_models_labels_fallbacks')}
+            </label>
+            <div className="flex-1 space-y-2">
+              {fallbackModels[agentName].map((value, index) => (
+                <div key={value} className="flex items-center space-x-2">
+                  <span className={`flex-1 truncate text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {`${index + 1}. ${getModelLabel(value)}`}
+                  </span>
+                  <button
+                    type="button"
+                    disabled={index === 0}
+                    onClick={() => {
+                      const values = [...fallbackModels[agentName]];
+                      [values[index - 1], values[index]] = [values[index], values[index - 1]];
+                      handleFallbackModelsChange(agentName, values);
+                    }}
+                    className={`rounded px-2 py-1 text-xs disabled:opacity-40 ${isDarkMode ? 'bg-slate-700 text-gray-300 hover:bg-slate-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+                    aria-label={t('options_models_fallbacks_moveUp_a11y', [getModelLabel(value)])}>
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      handleFallbackModelsChange(
+                        agentName,
+                        fallbackModels[agentName].filter(item => item !== value),
+                      )
+                    }
+                    className={`rounded px-2 py-1 text-xs ${isDarkMode ? 'bg-red-900/40 text-red-300 hover:bg-red-800/60' : 'bg-red-50 text-red-600 hover:bg-red-100'}`}
+                    aria-label={t('options_models_fallbacks_remove_a11y', [getModelLabel(value)])}>
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <select
+                id={`${agentName}-fallback`}
+                className={`w-full rounded-md border text-sm ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}
+                value=""
+                onChange={e => {
+                  if (e.target.value) {
+                    handleFallbackModelsChange(agentName, [...fallbackModels[agentName], e.target.value]);
+                  }
+                }}>
+                <option value="">{t('options_models_fallbacks_add')}</option>
+                {availableModels
+                  .filter(({ provider, model }) => {
+                    const value = `${provider}>${model}`;
+                    return value !== selectedModels[agentName] && !fallbackModels[agentName].includes(value);
+                  })
+                  .map(({ provider, providerName, model }) => (
+                    <option key={`${provider}>${model}`} value={`${provider}>${model}`}>
+                      {`${providerName} > ${model}`}
+                    </option>
+                  ))}
+              </select>
+              <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('options_models_fallbacks_desc')}
+              </p>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -873,6 +1030,10 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
         return t('options_models_agents_navigator');
       case AgentNameEnum.Planner:
         return t('options_models_agents_planner');
+      case AgentNameEnum.Validator:
+        return t('options_models_agents_validator');
+      case AgentNameEnum.Compactor:
+        return t('options_models_agents_compactor');
       default:
         return '';
     }
@@ -1628,9 +1789,11 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
           {t('options_models_selection_header')}
         </h2>
         <div className="space-y-4">
-          {[AgentNameEnum.Planner, AgentNameEnum.Navigator].map(agentName => (
-            <div key={agentName}>{renderModelSelect(agentName)}</div>
-          ))}
+          {[AgentNameEnum.Planner, AgentNameEnum.Navigator, AgentNameEnum.Validator, AgentNameEnum.Compactor].map(
+            agentName => (
+              <div key={agentName}>{renderModelSelect(agentName)}</div>
+            ),
+          )}
         </div>
       </div>
 
@@ -1673,6 +1836,52 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
           </div>
         </div>
       </div>
+
+      {/* Model Prices */}
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-left text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_models_prices_header')}
+        </h2>
+        <p className={`mb-4 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('options_models_prices_desc')}
+        </p>
+
+        <div className="space-y-2">
+          {availableModels.map(({ provider, providerName, model }) => {
+            const draft = getPriceDraft(provider, model);
+            const inputClassName = `w-28 rounded-md border px-3 py-2 text-sm ${
+              isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+            }`;
+            return (
+              <div key={`${provider}>${model}`} className="flex items-center gap-3">
+                <span className={`min-w-0 flex-1 truncate text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  {`${providerName} > ${model}`}
+                </span>
+                {(['input', 'output'] as const).map(field => (
+                  <input
+                    key={field}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft[field]}
+                    onChange={e =>
+                      setPriceDrafts(prev => ({
+                        ...prev,
+                        [`${provider}>${model}`]: { ...draft, [field]: e.target.value },
+                      }))
+                    }
+                    onBlur={() => handleModelPriceSave(provider, model)}
+                    placeholder={t(field === 'input' ? 'options_models_prices_input' : 'options_models_prices_output')}
+                    aria-label={`${model} ${t(field === 'input' ? 'options_models_prices_input' : 'options_models_prices_output')}`}
+                    className={inputClassName}
+                  />
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
     </section>
   );
 };
@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from 'react';
+import { scheduledTaskStore } from '@extension/storage';
+import type { ScheduledTask } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { Button } from '@extension/ui';
+
+interface ScheduleSettingsProps {
+  isDarkMode: boolean;
+}
+
+const formatTime = (timestamp?: number) => (timestamp ? new Date(timestamp).toLocaleString() : '—');
+
+const STATUS_LABELS: Record<string, string> = {
+  completed: t('options_schedules_status_completed'),
+  failed: t('options_schedules_status_failed'),
+  cancelled: t('options_schedules_status_cancelled'),
+};
+
+export const ScheduleSettings = ({ isDarkMode }: ScheduleSettingsProps) => {
+  const [tasks, setTasks] = useState<ScheduledTask[]>([]);
+  const [name, setName] = useState('');
+  const [task, setTask] = useState('');
+  const [cron, setCron] = useState('0 8 * * 1-5');
+  const [notifyOnChange, setNotifyOnChange] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTasks = useCallback(async () => {
+    setTasks(await scheduledTaskStore.getAllTasks());
+  }, []);
+
+  useEffect(() => {
+    loadTasks();
+    const unsubscribe = scheduledTaskStore.subscribe(loadTasks);
+    return () => {
+      unsubscribe();
+    };
+  }, [loadTasks]);
+
+  const handleCreate = async () => {
+    if (!name.trim() || !task.trim() || !cron.trim()) {
+      setError(t('options_schedules_new_errors_required'));
+      return;
+    }
+    await scheduledTaskStore.createTask({
+      name: name.trim(),
+      task: task.trim(),
+      cron: cron.trim(),
+      enabled: true,
+      notifyOnChange,
+    });
+    setName('');
+    setTask('');
+    setError(null);
+    await loadTasks();
+  };
+
+  const handleToggle = async (id: string, enabled: boolean) => {
+    // Clearing nextRunAt lets the background compute a fresh run time
+    await scheduledTaskStore.updateTask(id, { enabled, nextRunAt: undefined });
+    await loadTasks();
+  };
+
+  const handleDelete = async (id: string) => {
+    await scheduledTaskStore.deleteTask(id);
+    await loadTasks();
+  };
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+  const mutedClassName = `text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_schedules_header')}
+        </h2>
+        <p className={`mb-6 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('options_schedules_desc')}
+        </p>
+
+        <div className="space-y-3">
+          {tasks.length > 0 ? (
+            tasks.map(item => (
+              <div
+                key={item.id}
+                className={`rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`}>
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0 flex-1">
+                    <div className={`text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                      {item.name} <span className={`font-mono ${mutedClassName}`}>{item.cron}</span>
+                    </div>
+                    <div className={`truncate ${mutedClassName}`}>{item.task}</div>
+                  </div>
+                  <div className="ml-4 flex items-center gap-3">
+                    <div className="relative inline-block w-12 select-none">
+                      <input
+                        type="checkbox"
+                        checked={item.enabled}
+                        onChange={e => handleToggle(item.id, e.target.checked)}
+                        className="sr-only"
+                        id={`scheduled-task-${item.id}`}
+                      />
+                      <label
+                        htmlFor={`scheduled-task-${item.id}`}
+                        className={`block h-6 cursor-pointer overflow-hidden rounded-full ${
+                          item.enabled ? 'bg-blue-500' : isDarkMode ? 'bg-gray-600' : 'bg-gray-300'
+                        }`}>
+                        <span className="sr-only">{t('options_schedules_toggle_a11y', [item.name])}</span>
+                        <span
+                          className={`block size-6 rounded-full bg-white shadow transition-transform ${
+                            item.enabled ? 'translate-x-6' : 'translate-x-0'
+                          }`}
+                        />
+                      </label>
+                    </div>
+                    <Button
+                      onClick={() => handleDelete(item.id)}
+                      className={`rounded px-2 py-1 text-xs ${
+                        isDarkMode
+                          ? 'bg-red-900/40 text-red-300 hover:bg-red-800/60'
+                          : 'bg-red-50 text-red-600 hover:bg-red-100'
+                      }`}>
+                      {t('options_schedules_btnDelete')}
+                    </Button>
+                  </div>
+                </div>
+                <div className={`mt-2 grid grid-cols-2 gap-1 ${mutedClassName}`}>
+                  <span>{t('options_schedules_nextRun', [item.enabled ? formatTime(item.nextRunAt) : '—'])}</span>
+                  <span>
+                    {t('options_schedules_lastRun', [formatTime(item.lastRunAt)])}
+                    {item.lastStatus && ` (${STATUS_LABELS[item.lastStatus] ?? item.lastStatus})`}
+                  </span>
+                </div>
+                {item.error && (
+                  <p className={`mt-1 text-xs ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{item.error}</p>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {t('options_schedules_empty')}
+            </p>
+          )}
+        </div>
+
+        <div
+          className={`mt-6 space-y-3 rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`}>
+          <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+            {t('options_schedules_new_header')}
+          </h3>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={t('options_schedules_new_name_placeholder')}
+            className={`w-full ${inputClassName}`}
+          />
+          <textarea
+            value={task}
+            onChange={e => setTask(e.target.value)}
+            placeholder={t('options_schedules_new_task_placeholder')}
+            rows={3}
+            className={`w-full resize-none ${inputClassName}`}
+          />
+          <div className="flex items-center gap-4">
+            <input
+              type="text"
+              value={cron}
+              onChange={e => setCron(e.target.value)}
+              placeholder={t('options_schedules_new_cron_placeholder')}
+              className={`w-48 font-mono ${inputClassName}`}
+            />
+            <label className={`flex items-center gap-2 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+              <input type="checkbox" checked={notifyOnChange} onChange={e => setNotifyOnChange(e.target.checked)} />
+              {t('options_schedules_new_notifyOnChange')}
+            </label>
+          </div>
+          <p className={mutedClassName}>{t('options_schedules_new_cron_help')}</p>
+          {error && <p className={`text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>}
+          <Button
+            onClick={handleCreate}
+            className={`rounded-md px-4 py-2 text-sm text-white ${
+              isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+            }`}>
+            {t('options_schedules_new_btnAdd')}
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,329 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  chatHistoryStore,
+  findWorkflowParameterCandidates,
+  taskQueueStore,
+  workflowStore,
+  type ChatSessionMetadata,
+  type Workflow,
+  type WorkflowParameterCandidate,
+} from '@extension/storage';
+import { t } from '@extension/i18n';
+import { Button } from '@extension/ui';
+
+interface WorkflowSettingsProps {
+  isDarkMode: boolean;
+}
+
+interface Recording {
+  sessionId: string;
+  name: string;
+  task: string;
+  history: string;
+  candidates: WorkflowParameterCandidate[];
+  parameterNames: Record<number, string>; // Parameter name by candidate index, for the selected candidates
+}
+
+/**
+ * Parses CSV text with a header row into one record per row.
+ * Values may be quoted with double quotes to contain commas, quotes are escaped by doubling them.
+ */
+function parseCsv(text: string): Record<string, string>[] {
+  const rows = text
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => {
+      const values: string[] = [];
+      let current = '';
+      let quoted = false;
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+          if (char === '"' && line[i + 1] === '"') {
+            current += '"';
+            i++;
+          } else if (char === '"') {
+            quoted = false;
+          } else {
+            current += char;
+          }
+        } else if (char === '"') {
+          quoted = true;
+        } else if (char === ',') {
+          values.push(current.trim());
+          current = '';
+        } else {
+          current += char;
+        }
+      }
+      values.push(current.trim());
+      return values;
+    });
+
+  const [headers, ...records] = rows;
+  return records.map(values => Object.fromEntries((headers ?? []).map((header, i) => [header, values[i] ?? ''])));
+}
+
+const escapeCsvValue = (value: string) => (/[",]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const defaultCsv = (workflow: Workflow) =>
+  [
+    workflow.parameters.map(parameter => escapeCsvValue(parameter.name)).join(','),
+    workflow.parameters.map(parameter => escapeCsvValue(parameter.defaultValue)).join(','),
+  ].join('\n');
+
+export const WorkflowSettings = ({ isDarkMode }: WorkflowSettingsProps) => {
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [sessions, setSessions] = useState<ChatSessionMetadata[]>([]);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [runInputs, setRunInputs] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadWorkflows = useCallback(async () => {
+    setWorkflows(await workflowStore.getAllWorkflows());
+  }, []);
+
+  useEffect(() => {
+    loadWorkflows();
+    chatHistoryStore.getSessionsMetadata().then(setSessions);
+    const unsubscribe = workflowStore.subscribe(loadWorkflows);
+    return () => {
+      unsubscribe();
+    };
+  }, [loadWorkflows]);
+
+  const handleSelectSession = async (sessionId: string) => {
+    setError(null);
+    setMessage(null);
+    if (!sessionId) {
+      setRecording(null);
+      return;
+    }
+    const history = await chatHistoryStore.loadAgentStepHistory(sessionId);
+    if (!history) {
+      setRecording(null);
+      setError(t('options_workflows_errors_noHistory'));
+      return;
+    }
+    setRecording({
+      sessionId,
+      name: sessions.find(session => session.id === sessionId)?.title ?? '',
+      task: history.task,
+      history: history.history,
+      candidates: findWorkflowParameterCandidates(history.history),
+      parameterNames: {},
+    });
+  };
+
+  const toggleParameter = (index: number, selected: boolean) => {
+    if (!recording) return;
+    const parameterNames = { ...recording.parameterNames };
+    if (selected) {
+      parameterNames[index] = `${recording.candidates[index].field}${Object.keys(parameterNames).length + 1}`;
+    } else {
+      delete parameterNames[index];
+    }
+    setRecording({ ...recording, parameterNames });
+  };
+
+  const handleSaveWorkflow = async () => {
+    if (!recording) return;
+    try {
+      await workflowStore.createWorkflow({
+        name: recording.name,
+        task: recording.task,
+        history: recording.history,
+        sourceSessionId: recording.sessionId,
+        parameters: Object.entries(recording.parameterNames).map(([index, name]) => {
+          const { value, ...candidate } = recording.candidates[Number(index)];
+          return { ...candidate, name: name.trim(), defaultValue: value };
+        }),
+      });
+      setRecording(null);
+      setError(null);
+      await loadWorkflows();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleQueueRuns = async (workflow: Workflow) => {
+    const parameterSets =
+      workflow.parameters.length > 0 ? parseCsv(runInputs[workflow.id] ?? defaultCsv(workflow)) : [{}];
+    if (parameterSets.length === 0) {
+      setError(t('options_workflows_errors_noRows'));
+      return;
+    }
+    const unknown = Object.keys(parameterSets[0]).filter(
+      name => !workflow.parameters.some(parameter => parameter.name === name),
+    );
+    if (unknown.length > 0) {
+      setError(t('options_workflows_errors_unknownParameters', [unknown.join(', ')]));
+      return;
+    }
+
+    await taskQueueStore.enqueue(
+      parameterSets.map(parameters => {
+        const values = Object.entries(parameters).map(([name, value]) => `${name}=${value}`);
+        return {
+          task: values.length > 0 ? `${workflow.name} (${values.join(', ')})` : workflow.name,
+          workflowId: workflow.id,
+          parameters,
+        };
+      }),
+    );
+    setError(null);
+    setMessage(t('options_workflows_queued', [String(parameterSets.length), workflow.name]));
+  };
+
+  const handleDelete = async (id: string) => {
+    await workflowStore.deleteWorkflow(id);
+    await loadWorkflows();
+  };
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+  const mutedClassName = `text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const cardClassName = `rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`;
+  const primaryButtonClassName = `rounded-md px-4 py-2 text-sm text-white ${
+    isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-sky-500 hover:bg-sky-600'
+  }`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          {t('options_workflows_header')}
+        </h2>
+        <p className={`mb-6 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {t('options_workflows_desc')}
+        </p>
+
+        {message && <p className={`mb-4 text-sm ${isDarkMode ? 'text-green-400' : 'text-green-700'}`}>{message}</p>}
+        {error && <p className={`mb-4 text-sm ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>}
+
+        <div className="space-y-3">
+          {workflows.length > 0 ? (
+            workflows.map(workflow => (
+              <div key={workflow.id} className={cardClassName}>
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0 flex-1">
+                    <div className={`text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                      {workflow.name}
+                    </div>
+                    <div className={`truncate ${mutedClassName}`}>{workflow.task}</div>
+                    <div className={mutedClassName}>
+                      {t('options_workflows_parameters', [
+                        workflow.parameters.length > 0
+                          ? workflow.parameters.map(parameter => parameter.name).join(', ')
+                          : t('options_workflows_parameters_none'),
+                      ])}
+                    </div>
+                  </div>
+                  <div className="ml-4 flex items-center gap-2">
+                    <Button onClick={() => handleQueueRuns(workflow)} className={primaryButtonClassName}>
+                      {t('options_workflows_btnQueueRuns')}
+                    </Button>
+                    <Button
+                      onClick={() => handleDelete(workflow.id)}
+                      className={`rounded px-2 py-1 text-xs ${
+                        isDarkMode
+                          ? 'bg-red-900/40 text-red-300 hover:bg-red-800/60'
+                          : 'bg-red-50 text-red-600 hover:bg-red-100'
+                      }`}>
+                      {t('options_workflows_btnDelete')}
+                    </Button>
+                  </div>
+                </div>
+                {workflow.parameters.length > 0 && (
+                  <textarea
+                    value={runInputs[workflow.id] ?? defaultCsv(workflow)}
+                    onChange={e => setRunInputs({ ...runInputs, [workflow.id]: e.target.value })}
+                    rows={3}
+                    className={`mt-3 w-full resize-y font-mono ${inputClassName}`}
+                  />
+                )}
+              </div>
+            ))
+          ) : (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {t('options_workflows_empty')}
+            </p>
+          )}
+        </div>
+
+        <div className={`mt-6 space-y-3 ${cardClassName}`}>
+          <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+            {t('options_workflows_record_header')}
+          </h3>
+          <select
+            value={recording?.sessionId ?? ''}
+            onChange={e => handleSelectSession(e.target.value)}
+            className={`w-full ${inputClassName}`}>
+            <option value="">{t('options_workflows_record_selectSession')}</option>
+            {sessions.map(session => (
+              <option key={session.id} value={session.id}>
+                {session.title} ({new Date(session.createdAt).toLocaleString()})
+              </option>
+            ))}
+          </select>
+
+          {recording && (
+            <>
+              <input
+                type="text"
+                value={recording.name}
+                onChange={e => setRecording({ ...recording, name: e.target.value })}
+                placeholder={t('options_workflows_record_name_placeholder')}
+                className={`w-full ${inputClassName}`}
+              />
+              {recording.candidates.length > 0 ? (
+                <div className="space-y-2">
+                  <p className={mutedClassName}>{t('options_workflows_record_selectParameters')}</p>
+                  {recording.candidates.map((candidate, index) => (
+                    <div key={index} className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        checked={index in recording.parameterNames}
+                        onChange={e => toggleParameter(index, e.target.checked)}
+                      />
+                      <span className={`w-24 shrink-0 font-mono ${mutedClassName}`}>
+                        {candidate.actionName} #{candidate.stepIndex + 1}
+                      </span>
+                      <span
+                        className={`min-w-0 flex-1 truncate text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                        {candidate.value}
+                      </span>
+                      {index in recording.parameterNames && (
+                        <input
+                          type="text"
+                          value={recording.parameterNames[index]}
+                          onChange={e =>
+                            setRecording({
+                              ...recording,
+                              parameterNames: { ...recording.parameterNames, [index]: e.target.value },
+                            })
+                          }
+                          placeholder={t('options_workflows_record_parameterName_placeholder')}
+                          className={`w-40 ${inputClassName}`}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className={mutedClassName}>{t('options_workflows_record_noCandidates')}</p>
+              )}
+              <Button onClick={handleSaveWorkflow} className={primaryButtonClassName}>
+                {t('options_workflows_record_btnSave')}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -1,16 +1,34 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { FiSettings } from 'react-icons/fi';
-import { PiPlusBold } from 'react-icons/pi';
+import { PiListChecksBold, PiPlusBold } from 'react-icons/pi';
 import { GrHistory } from 'react-icons/gr';
-import { type Message, Actors, chatHistoryStore, agentModelStore, generalSettingsStore } from '@extension/storage';
+import {
+  type ApprovalDecision,
+  type ApprovalRequest,
+  type ChatTaskCheckpoint,
+  type Message,
+  type StepReviewDecision,
+  type StepReviewRequest,
+  Actors,
+  chatHistoryStore,
+  agentModelStore,
+  generalSettingsStore,
+} from '@extension/storage';
 import favoritesStorage, { type FavoritePrompt } from '@extension/storage/lib/prompt/favorites';
 import { t } from '@extension/i18n';
 import MessageList from './components/MessageList';
 import ChatInput from './components/ChatInput';
 import ChatHistoryList from './components/ChatHistoryList';
 import BookmarkList from './components/BookmarkList';
+import TaskQueueList from './components/TaskQueueList';
+import ReportExportBar from './components/ReportExportBar';
+import TaskUsageBar from './components/TaskUsageBar';
+import ApprovalRequestCard from './components/ApprovalRequestCard';
+import StepReviewCard from './components/StepReviewCard';
+import InterruptedTaskCard from './components/InterruptedTaskCard';
 import { EventType, type AgentEvent, ExecutionState } from './types/event';
+import { parseAnswerSchemaCommand } from './utils/answerSchema';
 import './SidePanel.css';
 
 // Declare chrome API types
@@ -25,8 +43,15 @@ const SidePanel = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputEnabled, setInputEnabled] = useState(true);
   const [showStopButton, setShowStopButton] = useState(false);
+  const [showResumeButton, setShowResumeButton] = useState(false);
+  // Partial output of the running step, shown in place of its progress bar until the step has moved on
+  const [streamingOutput, setStreamingOutput] = useState<{ actor: Actors; content: string } | null>(null);
+  const [pendingApproval, setPendingApproval] = useState<ApprovalRequest | null>(null);
+  const [pendingStepReview, setPendingStepReview] = useState<StepReviewRequest | null>(null);
+  const [interruptedTask, setInterruptedTask] = useState<(ChatTaskCheckpoint & { sessionId: string }) | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
   const [chatSessions, setChatSessions] = useState<Array<{ id: string; title: string; createdAt: number }>>([]);
   const [isFollowUpMode, setIsFollowUpMode] = useState(false);
   const [isHistoricalSession, setIsHistoricalSession] = useState(false);
@@ -153,20 +178,31 @@ const SidePanel = () => {
       let skip = true;
       let displayProgress = false;
 
+      if (state === ExecutionState.STEP_STREAM) {
+        setStreamingOutput({ actor, content: content || '' });
+        return;
+      }
+      setStreamingOutput(null);
+
       switch (actor) {
         case Actors.SYSTEM:
           switch (state) {
             case ExecutionState.TASK_START:
               // Reset historical session flag when a new task starts
               setIsHistoricalSession(false);
+              setInterruptedTask(null);
               break;
             case ExecutionState.TASK_OK:
+              setPendingApproval(null);
+              setPendingStepReview(null);
               setIsFollowUpMode(true);
               setInputEnabled(true);
               setShowStopButton(false);
               setIsReplaying(false);
               break;
             case ExecutionState.TASK_FAIL:
+              setPendingApproval(null);
+              setPendingStepReview(null);
               setIsFollowUpMode(true);
               setInputEnabled(true);
               setShowStopButton(false);
@@ -174,15 +210,39 @@ const SidePanel = () => {
               skip = false;
               break;
             case ExecutionState.TASK_CANCEL:
+              setPendingApproval(null);
+              setPendingStepReview(null);
               setIsFollowUpMode(false);
               setInputEnabled(true);
               setShowStopButton(false);
               setIsReplaying(false);
               skip = false;
               break;
+            case ExecutionState.TASK_BUDGET_EXCEEDED:
+              setPendingApproval(null);
+              setPendingStepReview(null);
+              setIsFollowUpMode(true);
+              setInputEnabled(true);
+              setShowStopButton(false);
+              setShowResumeButton(false);
+              setIsReplaying(false);
+              skip = false;
+              break;
             case ExecutionState.TASK_PAUSE:
+              // Tasks pause themselves when they reach a budget limit and wait to be resumed
+              setShowResumeButton(true);
+              skip = false;
               break;
             case ExecutionState.TASK_RESUME:
+              setShowResumeButton(false);
+              break;
+            case ExecutionState.TASK_COMPACT:
+              // Marks where the earlier steps were replaced by a progress memo
+              skip = false;
+              break;
+            case ExecutionState.TASK_PLAN:
+              // Transcript of the actions a dry run planned
+              skip = false;
               break;
             default:
               console.error('Invalid task state', state);
@@ -224,6 +284,10 @@ const SidePanel = () => {
             case ExecutionState.STEP_CANCEL:
               displayProgress = false;
               break;
+            case ExecutionState.STEP_REVIEW:
+              // The actions of the step wait until the user answers the step review card
+              setPendingStepReview(JSON.parse(content));
+              break;
             case ExecutionState.ACT_START:
               if (content !== 'cache_content') {
                 // skip to display caching content
@@ -236,13 +300,31 @@ const SidePanel = () => {
             case ExecutionState.ACT_FAIL:
               skip = false;
               break;
+            case ExecutionState.ACT_APPROVAL:
+              // The action waits until the user answers the approval card
+              setPendingApproval(JSON.parse(content));
+              break;
+            case ExecutionState.ACT_DRY_RUN:
+              skip = false;
+              break;
             default:
               console.error('Invalid action', state);
               return;
           }
           break;
+        case Actors.MANAGER:
+          switch (state) {
+            case ExecutionState.STEP_START:
+            case ExecutionState.STEP_OK:
+            case ExecutionState.STEP_FAIL:
+              skip = false;
+              break;
+            default:
+              console.error('Invalid manager state', state);
+              return;
+          }
+          break;
         case Actors.VALIDATOR:
-          // Handle legacy validator events from historical messages
           switch (state) {
             case ExecutionState.STEP_START:
               displayProgress = true;
@@ -292,6 +374,8 @@ const SidePanel = () => {
       portRef.current.disconnect();
       portRef.current = null;
     }
+    setPendingApproval(null);
+    setPendingStepReview(null);
   }, []);
 
   // Setup connection management
@@ -556,8 +640,36 @@ const SidePanel = () => {
 
     if (!trimmedText) return;
 
+    // Commands that start a new task in a mode: /dryrun <task>, /debug <task> and /schema <name or JSON> <task>
+    const modeMatch = /^(\/dryrun|\/debug|\/schema)(?:\s+([\s\S]*))?$/.exec(trimmedText);
+    const dryRun = modeMatch?.[1] === '/dryrun';
+    const stepThrough = modeMatch?.[1] === '/debug';
+    let task = modeMatch ? (modeMatch[2] ?? '').trim() : text;
+    let answerSchema: Record<string, unknown> | undefined;
+    if (modeMatch?.[1] === '/schema' && task) {
+      try {
+        ({ schema: answerSchema, task } = await parseAnswerSchemaCommand(task));
+      } catch (err) {
+        appendMessage({
+          actor: Actors.SYSTEM,
+          content: err instanceof Error ? err.message : String(err),
+          timestamp: Date.now(),
+        });
+        return;
+      }
+    }
+    if (modeMatch && !task) {
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: t('chat_taskMode_noTask', [modeMatch[1] === '/schema' ? '/schema <name>' : modeMatch[1]]),
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    const followUp = isFollowUpMode && !modeMatch;
+
     // Check if the input is a command (starts with /)
-    if (trimmedText.startsWith('/')) {
+    if (!modeMatch && trimmedText.startsWith('/')) {
       // Process command and return if it was handled
       const wasHandled = await handleCommand(trimmedText);
       if (wasHandled) return;
@@ -580,9 +692,9 @@ const SidePanel = () => {
       setShowStopButton(true);
 
       // Create a new chat session for this task if not in follow-up mode
-      if (!isFollowUpMode) {
+      if (!followUp) {
         const newSession = await chatHistoryStore.createSession(
-          text.substring(0, 50) + (text.length > 50 ? '...' : ''),
+          task.substring(0, 50) + (task.length > 50 ? '...' : ''),
         );
         console.log('newSession', newSession);
 
@@ -607,7 +719,7 @@ const SidePanel = () => {
       }
 
       // Send message using the utility function
-      if (isFollowUpMode) {
+      if (followUp) {
         // Send as follow-up task
         await sendMessage({
           type: 'follow_up_task',
@@ -620,11 +732,14 @@ const SidePanel = () => {
         // Send as new task
         await sendMessage({
           type: 'new_task',
-          task: text,
+          task,
           taskId: sessionIdRef.current,
           tabId,
+          dryRun,
+          stepThrough,
+          answerSchema,
         });
-        console.log('new_task sent', text, tabId, sessionIdRef.current);
+        console.log('new_task sent', task, tabId, sessionIdRef.current);
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
@@ -640,6 +755,129 @@ const SidePanel = () => {
     }
   };
 
+  const handleResumeTask = () => {
+    try {
+      portRef.current?.postMessage({
+        type: 'resume_task',
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('resume_task error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+    }
+    setShowResumeButton(false);
+  };
+
+  // Continue a task that was interrupted by a service worker or browser restart from its last checkpoint
+  const handleResumeInterruptedTask = async () => {
+    if (!interruptedTask) return;
+    const { sessionId, step } = interruptedTask;
+
+    try {
+      const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+      const tabId = tabs[0]?.id;
+      if (!tabId) {
+        throw new Error('No active tab found');
+      }
+
+      const session = await chatHistoryStore.getSession(sessionId);
+      setMessages(session?.messages ?? []);
+      setCurrentSessionId(sessionId);
+      sessionIdRef.current = sessionId;
+      setInterruptedTask(null);
+      setIsFollowUpMode(false);
+      setIsHistoricalSession(false);
+      setShowHistory(false);
+      setInputEnabled(false);
+      setShowStopButton(true);
+
+      appendMessage(
+        {
+          actor: Actors.SYSTEM,
+          content: t('chat_checkpoint_resuming', [String(step)]),
+          timestamp: Date.now(),
+        },
+        sessionId,
+      );
+
+      // Setup connection if not exists
+      if (!portRef.current) {
+        setupConnection();
+      }
+
+      await sendMessage({
+        type: 'resume_checkpoint',
+        taskId: sessionId,
+        tabId,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('resume_checkpoint error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+      setInputEnabled(true);
+      setShowStopButton(false);
+      stopConnection();
+    }
+  };
+
+  const handleDiscardInterruptedTask = async () => {
+    if (!interruptedTask) return;
+    try {
+      await chatHistoryStore.clearTaskCheckpoint(interruptedTask.sessionId);
+    } catch (error) {
+      console.error('Failed to discard task checkpoint:', error);
+    }
+    setInterruptedTask(null);
+  };
+
+  const handleApprovalDecision = (decision: ApprovalDecision) => {
+    if (!pendingApproval) return;
+    try {
+      portRef.current?.postMessage({
+        type: 'approval_response',
+        id: pendingApproval.id,
+        decision,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('approval_response error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+    }
+    setPendingApproval(null);
+  };
+
+  const handleStepReviewDecision = (decision: StepReviewDecision) => {
+    if (!pendingStepReview) return;
+    try {
+      portRef.current?.postMessage({
+        type: 'step_review_response',
+        id: pendingStepReview.id,
+        decision,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('step_review_response error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+    }
+    setPendingStepReview(null);
+  };
+
   const handleStopTask = async () => {
     try {
       portRef.current?.postMessage({
@@ -656,6 +894,7 @@ const SidePanel = () => {
     }
     setInputEnabled(true);
     setShowStopButton(false);
+    setShowResumeButton(false);
   };
 
   const handleNewChat = () => {
@@ -686,8 +925,13 @@ const SidePanel = () => {
     setShowHistory(true);
   };
 
+  const handleShowQueue = () => {
+    setShowQueue(true);
+  };
+
   const handleBackToChat = (reset = false) => {
     setShowHistory(false);
+    setShowQueue(false);
     if (reset) {
       setCurrentSessionId(null);
       setMessages([]);
@@ -705,8 +949,12 @@ const SidePanel = () => {
         setIsFollowUpMode(false);
         setIsHistoricalSession(true); // Mark this as a historical session
         console.log('history session selected', sessionId);
+
+        const checkpoint = await chatHistoryStore.loadTaskCheckpoint(fullSession.id);
+        setInterruptedTask(checkpoint ? { ...checkpoint, sessionId: fullSession.id } : null);
       }
       setShowHistory(false);
+      setShowQueue(false);
     } catch (error) {
       console.error('Failed to load session:', error);
     }
@@ -796,6 +1044,26 @@ const SidePanel = () => {
     }
   };
 
+  // Offer to resume the latest task that was interrupted before it ended
+  useEffect(() => {
+    const loadInterruptedTask = async () => {
+      try {
+        const sessions = await chatHistoryStore.getSessionsMetadata();
+        for (const session of [...sessions].sort((a, b) => b.updatedAt - a.updatedAt)) {
+          const checkpoint = await chatHistoryStore.loadTaskCheckpoint(session.id);
+          if (checkpoint) {
+            setInterruptedTask({ ...checkpoint, sessionId: session.id });
+            return;
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load interrupted task:', error);
+      }
+    };
+
+    loadInterruptedTask();
+  }, []);
+
   // Load favorite prompts from storage
   useEffect(() => {
     const loadFavorites = async () => {
@@ -830,7 +1098,7 @@ const SidePanel = () => {
   // biome-ignore lint/correctness/useExhaustiveDependencies: <explanation>
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingOutput]);
 
   const handleMicClick = async () => {
     if (isRecording) {
@@ -1001,7 +1269,7 @@ const SidePanel = () => {
       <div className="relative flex h-screen flex-col overflow-hidden border border-gray-200 bg-white shadow-sm">
         <header className="header relative border-b border-gray-200 bg-white">
           <div className="header-logo">
-            {showHistory ? (
+            {showHistory || showQueue ? (
               <button
                 type="button"
                 onClick={() => handleBackToChat(false)}
@@ -1024,7 +1292,7 @@ const SidePanel = () => {
             )}
           </div>
           <div className="header-icons flex items-center gap-1">
-            {!showHistory && (
+            {!showHistory && !showQueue && (
               <>
                 <button
                   type="button"
@@ -1056,6 +1324,21 @@ const SidePanel = () => {
                   tabIndex={0}>
                   <GrHistory size={20} />
                 </button>
+                <button
+                  type="button"
+                  onClick={handleShowQueue}
+                  onKeyDown={e => e.key === 'Enter' && handleShowQueue()}
+                  className={`header-icon ${
+                    isDarkMode ? 'text-neural-300 hover:text-cyber-300' : 'text-neural-600 hover:text-cyber-600'
+                  } cursor-pointer rounded-lg p-2 transition-all duration-300 hover:scale-110 active:scale-95 ${
+                    isDarkMode
+                      ? 'hover:bg-glass-cyan hover:shadow-cyber-dark'
+                      : 'hover:bg-glass-cyan hover:shadow-cyber'
+                  } shimmer neural-glow backdrop-blur-sm`}
+                  aria-label={t('nav_taskQueue_a11y')}
+                  tabIndex={0}>
+                  <PiListChecksBold size={20} />
+                </button>
               </>
             )}
             <button
@@ -1080,6 +1363,10 @@ const SidePanel = () => {
               isDarkMode={isDarkMode}
             />
           </div>
+        ) : showQueue ? (
+          <div className="flex-1 overflow-hidden">
+            <TaskQueueList onSessionSelect={handleSessionSelect} isDarkMode={isDarkMode} />
+          </div>
         ) : (
           <>
             {/* Show loading state while checking model configuration */}
@@ -1130,6 +1417,14 @@ const SidePanel = () => {
                 {messages.length === 0 && (
                   <>
                     <div className="flex-1 overflow-y-auto p-4">
+                      {interruptedTask && !showStopButton && (
+                        <InterruptedTaskCard
+                          checkpoint={interruptedTask}
+                          onResume={handleResumeInterruptedTask}
+                          onDiscard={handleDiscardInterruptedTask}
+                          isDarkMode={isDarkMode}
+                        />
+                      )}
                       <BookmarkList
                         bookmarks={favoritePrompts}
                         onBookmarkSelect={handleBookmarkSelect}
@@ -1146,11 +1441,13 @@ const SidePanel = () => {
                       <ChatInput
                         onSendMessage={handleSendMessage}
                         onStopTask={handleStopTask}
+                        onResumeTask={handleResumeTask}
                         onMicClick={handleMicClick}
                         isRecording={isRecording}
                         isProcessingSpeech={isProcessingSpeech}
                         disabled={!inputEnabled || isHistoricalSession}
                         showStopButton={showStopButton}
+                        showResumeButton={showResumeButton}
                         setContent={setter => {
                           setInputTextRef.current = setter;
                         }}
@@ -1165,7 +1462,31 @@ const SidePanel = () => {
                   <>
                     <div
                       className={`scrollbar-gutter-stable flex-1 overflow-x-hidden overflow-y-scroll scroll-smooth p-4`}>
-                      <MessageList messages={messages} isDarkMode={isDarkMode} />
+                      <ReportExportBar sessionId={currentSessionId} isDarkMode={isDarkMode} />
+                      <TaskUsageBar sessionId={currentSessionId} isDarkMode={isDarkMode} />
+                      <MessageList messages={messages} streamingOutput={streamingOutput} isDarkMode={isDarkMode} />
+                      {interruptedTask?.sessionId === currentSessionId && !showStopButton && (
+                        <InterruptedTaskCard
+                          checkpoint={interruptedTask}
+                          onResume={handleResumeInterruptedTask}
+                          onDiscard={handleDiscardInterruptedTask}
+                          isDarkMode={isDarkMode}
+                        />
+                      )}
+                      {pendingApproval && (
+                        <ApprovalRequestCard
+                          request={pendingApproval}
+                          onDecision={handleApprovalDecision}
+                          isDarkMode={isDarkMode}
+                        />
+                      )}
+                      {pendingStepReview && (
+                        <StepReviewCard
+                          request={pendingStepReview}
+                          onDecision={handleStepReviewDecision}
+                          isDarkMode={isDarkMode}
+                        />
+                      )}
                       <div ref={messagesEndRef} />
                     </div>
                     <div
@@ -1175,11 +1496,13 @@ const SidePanel = () => {
                       <ChatInput
                         onSendMessage={handleSendMessage}
                         onStopTask={handleStopTask}
+                        onResumeTask={handleResumeTask}
                         onMicClick={handleMicClick}
                         isRecording={isRecording}
                         isProcessingSpeech={isProcessingSpeech}
                         disabled={!inputEnabled || isHistoricalSession}
                         showStopButton={showStopButton}
+                        showResumeButton={showResumeButton}
                         setContent={setter => {
                           setInputTextRef.current = setter;
                         }}
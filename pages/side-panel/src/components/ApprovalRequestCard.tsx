@@ -0,0 +1,96 @@
+/* eslint-disable react/prop-types */
+import { useState, useEffect } from 'react';
+import type { ApprovalDecision, ApprovalRequest } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+interface ApprovalRequestCardProps {
+  request: ApprovalRequest;
+  onDecision: (decision: ApprovalDecision) => void;
+  isDarkMode?: boolean;
+}
+
+const ApprovalRequestCard: React.FC<ApprovalRequestCardProps> = ({ request, onDecision, isDarkMode = false }) => {
+  const [editing, setEditing] = useState(false);
+  const [argsText, setArgsText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEditing(false);
+    setArgsText(JSON.stringify(request.args, null, 2));
+    setError(null);
+  }, [request]);
+
+  const handleApprove = () => {
+    if (!editing) {
+      onDecision({ approved: true });
+      return;
+    }
+    try {
+      const args = JSON.parse(argsText);
+      if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+        throw new Error();
+      }
+      onDecision({ approved: true, args });
+    } catch {
+      setError(t('chat_approval_invalidArgs'));
+    }
+  };
+
+  const mutedClassName = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const buttonClassName = 'rounded px-3 py-1 text-xs font-medium';
+
+  return (
+    <div
+      className={`mb-4 rounded-lg border px-3 py-2 text-sm ${
+        isDarkMode ? 'border-amber-700 bg-slate-800 text-gray-200' : 'border-amber-300 bg-amber-50 text-gray-800'
+      }`}>
+      <div className="font-semibold">{t('chat_approval_title')}</div>
+      <div className={`mt-1 text-xs ${mutedClassName}`}>{t('chat_approval_policy', [request.policy])}</div>
+      <div className="mt-2 font-mono text-xs">
+        {request.actionName}
+        {request.elementText ? ` "${request.elementText}"` : ''}
+      </div>
+      <div className={`truncate text-xs ${mutedClassName}`}>{request.url}</div>
+      {editing ? (
+        <textarea
+          value={argsText}
+          onChange={e => setArgsText(e.target.value)}
+          rows={4}
+          aria-label={t('chat_approval_args_a11y')}
+          className={`mt-2 w-full resize-y rounded border p-2 font-mono text-xs ${
+            isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+          }`}
+        />
+      ) : (
+        <pre className={`mt-2 whitespace-pre-wrap break-all text-xs ${mutedClassName}`}>{argsText}</pre>
+      )}
+      {error && <div className="mt-1 text-xs text-red-500">{error}</div>}
+      <div className="mt-2 flex gap-2">
+        <button
+          type="button"
+          onClick={handleApprove}
+          className={`${buttonClassName} bg-green-600 text-white hover:bg-green-700`}>
+          {t('chat_approval_approve')}
+        </button>
+        {!editing && (
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className={`${buttonClassName} ${
+              isDarkMode ? 'bg-slate-700 text-sky-300 hover:bg-slate-600' : 'bg-white text-sky-700 hover:bg-sky-100'
+            }`}>
+            {t('chat_approval_edit')}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onDecision({ approved: false })}
+          className={`${buttonClassName} bg-red-500 text-white hover:bg-red-600`}>
+          {t('chat_approval_reject')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalRequestCard;
@@ -1,16 +1,19 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { FaMicrophone } from 'react-icons/fa';
+import { FaMicrophone, FaPaperclip, FaTimes } from 'react-icons/fa';
 import { AiOutlineLoading3Quarters } from 'react-icons/ai';
 import { t } from '@extension/i18n';
+import { attachmentStore, type FileAttachmentInfo } from '@extension/storage';
 
 interface ChatInputProps {
   onSendMessage: (text: string) => void;
   onStopTask: () => void;
+  onResumeTask?: () => void;
   onMicClick?: () => void;
   isRecording?: boolean;
   isProcessingSpeech?: boolean;
   disabled: boolean;
   showStopButton: boolean;
+  showResumeButton?: boolean;
   setContent?: (setter: (text: string) => void) => void;
   isDarkMode?: boolean;
   // Historical session ID - if provided, shows replay button instead of send button
@@ -18,14 +21,25 @@ interface ChatInputProps {
   onReplay?: (sessionId: string) => void;
 }
 
+// Reads a file as base64, the way attachments are stored
+const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
 export default function ChatInput({
   onSendMessage,
   onStopTask,
+  onResumeTask,
   onMicClick,
   isRecording = false,
   isProcessingSpeech = false,
   disabled,
   showStopButton,
+  showResumeButton = false,
   setContent,
   isDarkMode = false,
   historicalSessionId,
@@ -34,6 +48,37 @@ export default function ChatInput({
   const [text, setText] = useState('');
   const isSendButtonDisabled = useMemo(() => disabled || text.trim() === '', [disabled, text]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<FileAttachmentInfo[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+
+  // Attachments are kept in storage, so they are there for every task until removed
+  useEffect(() => {
+    const loadAttachments = async () => {
+      setAttachments(await attachmentStore.getAttachments());
+    };
+    loadAttachments();
+    const unsubscribe = attachmentStore.subscribe(loadAttachments);
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Clear the input so the same file can be picked again
+    e.target.value = '';
+    setAttachmentError(null);
+    for (const file of files) {
+      try {
+        await attachmentStore.addAttachment(file.name, file.type, await readFileAsBase64(file));
+      } catch (error) {
+        setAttachmentError(
+          t('chat_attachments_failed', [file.name, error instanceof Error ? error.message : String(error)]),
+        );
+      }
+    }
+  };
 
   // Handle text changes and resize textarea
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -130,6 +175,29 @@ export default function ChatInput({
           aria-label={t('chat_input_editor')}
         />
 
+        {(attachments.length > 0 || attachmentError) && (
+          <div className="flex flex-wrap items-center gap-1 px-4 pb-2 text-xs">
+            {attachments.map(attachment => (
+              <span
+                key={attachment.id}
+                className={`flex max-w-full items-center gap-1 rounded-full px-2 py-0.5 ${
+                  isDarkMode ? 'bg-slate-700 text-gray-200' : 'bg-gray-100 text-gray-700'
+                }`}>
+                <FaPaperclip className="size-3 shrink-0" />
+                <span className="truncate">{attachment.name}</span>
+                <button
+                  type="button"
+                  onClick={() => attachmentStore.removeAttachment(attachment.id)}
+                  aria-label={t('chat_attachments_remove_a11y', [attachment.name])}
+                  className={isDarkMode ? 'hover:text-red-300' : 'hover:text-red-600'}>
+                  <FaTimes className="size-3" />
+                </button>
+              </span>
+            ))}
+            {attachmentError && <span className={isDarkMode ? 'text-red-400' : 'text-red-600'}>{attachmentError}</span>}
+          </div>
+        )}
+
         <div
           className={`flex items-center justify-between px-4 py-3 backdrop-blur-sm ${
             isDarkMode
@@ -137,6 +205,22 @@ export default function ChatInput({
               : 'from-neural-50/20 to-plasma-50/20 bg-gradient-to-r'
           } border-t ${isDarkMode ? 'border-neural-600/30' : 'border-neural-200/50'}`}>
           <div className="flex gap-2 text-gray-500">
+            <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFilesSelected} />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              aria-label={t('chat_attachments_add')}
+              title={t('chat_attachments_add')}
+              className={`rounded-md p-1.5 transition-colors ${
+                disabled
+                  ? 'cursor-not-allowed opacity-50'
+                  : isDarkMode
+                    ? 'text-gray-400 hover:bg-slate-700 hover:text-gray-200'
+                    : 'text-gray-500 hover:bg-gray-100 hover:text-gray-700'
+              }`}>
+              <FaPaperclip className="size-4" />
+            </button>
             {onMicClick && (
               <button
                 type="button"
@@ -168,12 +252,22 @@ export default function ChatInput({
           </div>
 
           {showStopButton ? (
-            <button
-              type="button"
-              onClick={onStopTask}
-              className="rounded-md bg-red-500 px-3 py-1 text-white transition-colors hover:bg-red-600">
-              {t('chat_buttons_stop')}
-            </button>
+            <div className="flex gap-2">
+              {showResumeButton && onResumeTask && (
+                <button
+                  type="button"
+                  onClick={onResumeTask}
+                  className="rounded-md bg-[#19C2FF] px-3 py-1 text-white transition-colors hover:bg-[#0073DC]">
+                  {t('chat_buttons_resume')}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={onStopTask}
+                className="rounded-md bg-red-500 px-3 py-1 text-white transition-colors hover:bg-red-600">
+                {t('chat_buttons_stop')}
+              </button>
+            </div>
           ) : historicalSessionId ? (
             <button
               type="button"
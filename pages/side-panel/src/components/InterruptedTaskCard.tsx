@@ -0,0 +1,51 @@
+/* eslint-disable react/prop-types */
+import type { ChatTaskCheckpoint } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+interface InterruptedTaskCardProps {
+  checkpoint: ChatTaskCheckpoint;
+  onResume: () => void;
+  onDiscard: () => void;
+  isDarkMode?: boolean;
+}
+
+const InterruptedTaskCard: React.FC<InterruptedTaskCardProps> = ({
+  checkpoint,
+  onResume,
+  onDiscard,
+  isDarkMode = false,
+}) => {
+  const mutedClassName = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const buttonClassName = 'rounded px-3 py-1 text-xs font-medium';
+
+  return (
+    <div
+      className={`mb-4 rounded-lg border px-3 py-2 text-sm ${
+        isDarkMode ? 'border-sky-700 bg-slate-800 text-gray-200' : 'border-sky-300 bg-sky-50 text-gray-800'
+      }`}>
+      <div className="font-semibold">{t('chat_checkpoint_title')}</div>
+      <div className="mt-1 truncate">{checkpoint.task}</div>
+      <div className={`mt-1 text-xs ${mutedClassName}`}>
+        {t('chat_checkpoint_step', [String(checkpoint.step)])} {new Date(checkpoint.timestamp).toLocaleString()}
+      </div>
+      <div className="mt-2 flex gap-2">
+        <button
+          type="button"
+          onClick={onResume}
+          className={`${buttonClassName} bg-sky-600 text-white hover:bg-sky-700`}>
+          {t('chat_checkpoint_resume')}
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className={`${buttonClassName} ${
+            isDarkMode ? 'bg-slate-700 text-gray-300 hover:bg-slate-600' : 'bg-white text-gray-600 hover:bg-gray-100'
+          }`}>
+          {t('chat_checkpoint_discard')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InterruptedTaskCard;
@@ -1,13 +1,16 @@
-import type { Message } from '@extension/storage';
+import { Actors, type Message } from '@extension/storage';
 import { ACTOR_PROFILES } from '../types/message';
 import { memo } from 'react';
+import StructuredAnswer, { parseStructuredAnswer } from './StructuredAnswer';
 
 interface MessageListProps {
   messages: Message[];
+  // Partial output of the running step, shown by the progress message of the same actor
+  streamingOutput?: { actor: Actors; content: string } | null;
   isDarkMode?: boolean;
 }
 
-export default memo(function MessageList({ messages, isDarkMode = false }: MessageListProps) {
+export default memo(function MessageList({ messages, streamingOutput, isDarkMode = false }: MessageListProps) {
   return (
     <div className="max-w-full space-y-4">
       {messages.map((message, index) => (
@@ -15,6 +18,11 @@ export default memo(function MessageList({ messages, isDarkMode = false }: Messa
           key={`${message.actor}-${message.timestamp}-${index}`}
           message={message}
           isSameActor={index > 0 ? messages[index - 1].actor === message.actor : false}
+          streamingContent={
+            index === messages.length - 1 && streamingOutput?.actor === message.actor
+              ? streamingOutput.content
+              : undefined
+          }
           isDarkMode={isDarkMode}
         />
       ))}
@@ -25,16 +33,19 @@ export default memo(function MessageList({ messages, isDarkMode = false }: Messa
 interface MessageBlockProps {
   message: Message;
   isSameActor: boolean;
+  streamingContent?: string;
   isDarkMode?: boolean;
 }
 
-function MessageBlock({ message, isSameActor, isDarkMode = false }: MessageBlockProps) {
+function MessageBlock({ message, isSameActor, streamingContent, isDarkMode = false }: MessageBlockProps) {
   if (!message.actor) {
     console.error('No actor found');
     return <div />;
   }
   const actor = ACTOR_PROFILES[message.actor as keyof typeof ACTOR_PROFILES];
   const isProgress = message.content === 'Showing progress...';
+  // Final answers of tasks with an answer schema are JSON, shown as a table
+  const structuredAnswer = message.actor === Actors.SYSTEM ? parseStructuredAnswer(message.content) : undefined;
 
   return (
     <div
@@ -62,9 +73,16 @@ function MessageBlock({ message, isSameActor, isDarkMode = false }: MessageBlock
         <div className="space-y-0.5">
           <div className={`whitespace-pre-wrap break-words text-sm ${isDarkMode ? 'text-gray-300' : 'text-black'}`}>
             {isProgress ? (
-              <div className={`h-1 overflow-hidden rounded ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
-                <div className="h-full animate-progress bg-blue-500" />
-              </div>
+              <>
+                <div className={`h-1 overflow-hidden rounded ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                  <div className="h-full animate-progress bg-blue-500" />
+                </div>
+                {streamingContent && (
+                  <div className={`mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{streamingContent}</div>
+                )}
+              </>
+            ) : structuredAnswer !== undefined ? (
+              <StructuredAnswer value={structuredAnswer} isDarkMode={isDarkMode} />
             ) : message.content.includes('<div') ||
               message.content.includes('<table') ||
               message.content.includes('<h') ? (
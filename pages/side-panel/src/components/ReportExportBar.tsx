@@ -0,0 +1,98 @@
+/* eslint-disable react/prop-types */
+import { useState, useEffect, useCallback } from 'react';
+import { type ChatTaskReport, ReportItemStatus, chatHistoryStore } from '@extension/storage';
+import { t } from '@extension/i18n';
+import { type ReportExportFormat, downloadReport, downloadReportTable, printReport } from '../utils/reportExport';
+
+interface ReportExportBarProps {
+  sessionId: string | null;
+  isDarkMode?: boolean;
+}
+
+const EXPORT_FORMATS: ReportExportFormat[] = ['json', 'csv', 'html'];
+
+const ReportExportBar: React.FC<ReportExportBarProps> = ({ sessionId, isDarkMode = false }) => {
+  const [report, setReport] = useState<ChatTaskReport | null>(null);
+
+  const loadReport = useCallback(async () => {
+    if (!sessionId) {
+      setReport(null);
+      return;
+    }
+    try {
+      setReport(await chatHistoryStore.loadTaskReport(sessionId));
+    } catch (error) {
+      console.error('Failed to load task report:', error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadReport();
+    if (!sessionId) {
+      return;
+    }
+    // The report is written when the task ends, so keep listening while the session is open
+    const unsubscribe = chatHistoryStore.subscribeTaskReport(sessionId, loadReport);
+    return () => {
+      unsubscribe();
+    };
+  }, [sessionId, loadReport]);
+
+  if (!report) {
+    return null;
+  }
+
+  const items = report.sections.flatMap(section => section.items);
+  const found = items.filter(item => item.status === ReportItemStatus.FOUND).length;
+  const tables = report.tables ?? [];
+  const buttonColorClassName = isDarkMode
+    ? 'bg-slate-700 text-sky-300 hover:bg-slate-600'
+    : 'bg-white text-sky-700 hover:bg-sky-100';
+  const buttonClassName = `rounded px-2 py-0.5 text-xs font-medium uppercase ${buttonColorClassName}`;
+
+  return (
+    <div
+      className={`mb-3 flex flex-wrap items-center gap-2 rounded-lg border px-3 py-2 text-xs ${
+        isDarkMode ? 'border-slate-700 bg-slate-800 text-gray-300' : 'border-sky-100 bg-sky-50 text-gray-700'
+      }`}>
+      <span className="font-semibold">{t('chat_report_title')}</span>
+      <span className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+        {items.length > 0 && t('chat_report_summary', [String(found), String(items.length)])}
+        {items.length > 0 && tables.length > 0 && ' · '}
+        {tables.length > 0 && t('chat_report_tables', [String(tables.length)])}
+      </span>
+      <div className="ml-auto flex gap-1">
+        {EXPORT_FORMATS.map(format => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => downloadReport(report, format)}
+            aria-label={t('chat_report_export_a11y', [format.toUpperCase()])}
+            className={buttonClassName}>
+            {format}
+          </button>
+        ))}
+        <button type="button" onClick={() => printReport(report)} className={buttonClassName}>
+          {t('chat_report_print')}
+        </button>
+      </div>
+      {tables.length > 0 && (
+        <div className="flex w-full flex-wrap gap-1">
+          {tables.map(table => (
+            <button
+              key={table.id}
+              type="button"
+              onClick={() => downloadReportTable(table)}
+              aria-label={t('chat_report_tableDownload_a11y', [table.title])}
+              title={table.complete ? undefined : t('chat_report_tableIncomplete')}
+              className={`max-w-full truncate rounded px-2 py-0.5 text-xs font-medium ${buttonColorClassName}`}>
+              {table.title} ({table.rows.length}){table.complete ? '' : '*'} · CSV
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportExportBar;
@@ -0,0 +1,140 @@
+/* eslint-disable react/prop-types */
+import { useState, useEffect } from 'react';
+import type { StepReviewAction, StepReviewDecision, StepReviewRequest } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+interface StepReviewCardProps {
+  request: StepReviewRequest;
+  onDecision: (decision: StepReviewDecision) => void;
+  isDarkMode?: boolean;
+}
+
+interface DraftAction {
+  name: string;
+  argsText: string;
+  proposed: StepReviewAction;
+}
+
+const STATE_LABELS: Record<string, () => string> = {
+  evaluation_previous_goal: () => t('chat_stepReview_evaluation'),
+  memory: () => t('chat_stepReview_memory'),
+  next_goal: () => t('chat_stepReview_nextGoal'),
+};
+
+const StepReviewCard: React.FC<StepReviewCardProps> = ({ request, onDecision, isDarkMode = false }) => {
+  const [drafts, setDrafts] = useState<DraftAction[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDrafts(
+      request.actions.map(action => ({
+        name: action.name,
+        argsText: JSON.stringify(action.args, null, 2),
+        proposed: action,
+      })),
+    );
+    setError(null);
+  }, [request]);
+
+  const updateDraft = (index: number, draft: Partial<DraftAction>) => {
+    setDrafts(drafts.map((current, i) => (i === index ? { ...current, ...draft } : current)));
+  };
+
+  const handleContinue = () => {
+    try {
+      const actions = drafts.map(draft => {
+        const args = JSON.parse(draft.argsText);
+        if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+          throw new Error();
+        }
+        return { name: draft.name, args };
+      });
+      onDecision({ actions });
+    } catch {
+      setError(t('chat_approval_invalidArgs'));
+    }
+  };
+
+  const mutedClassName = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const fieldClassName = `w-full rounded border font-mono text-xs ${
+    isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+  const buttonClassName = 'rounded px-3 py-1 text-xs font-medium';
+
+  return (
+    <div
+      className={`mb-4 rounded-lg border px-3 py-2 text-sm ${
+        isDarkMode ? 'border-sky-700 bg-slate-800 text-gray-200' : 'border-sky-300 bg-sky-50 text-gray-800'
+      }`}>
+      <div className="font-semibold">{t('chat_stepReview_title', [String(request.step + 1)])}</div>
+      <div className={`truncate text-xs ${mutedClassName}`}>{request.url}</div>
+      {Object.entries(request.currentState)
+        .filter(([, value]) => value)
+        .map(([key, value]) => (
+          <div key={key} className="mt-1 text-xs">
+            <span className="font-medium">{STATE_LABELS[key]?.() ?? key}: </span>
+            <span className={mutedClassName}>{value}</span>
+          </div>
+        ))}
+      {drafts.map((draft, i) => {
+        const { proposed } = draft;
+        return (
+          <div
+            key={request.actions.indexOf(proposed)}
+            className={`mt-2 border-t pt-2 ${isDarkMode ? 'border-slate-700' : 'border-sky-200'}`}>
+            <div className="flex items-center gap-2">
+              <select
+                value={draft.name}
+                onChange={e => updateDraft(i, { name: e.target.value })}
+                aria-label={t('chat_stepReview_action_a11y', [String(i + 1)])}
+                className={`flex-1 p-1 ${fieldClassName}`}>
+                {request.availableActions.map(name => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setDrafts(drafts.filter((_, j) => j !== i))}
+                className={`${buttonClassName} ${isDarkMode ? 'text-red-400 hover:bg-slate-700' : 'text-red-600 hover:bg-red-50'}`}>
+                {t('chat_stepReview_remove')}
+              </button>
+            </div>
+            {proposed.index !== null && draft.name === proposed.name && (
+              <div className={`mt-1 truncate text-xs ${mutedClassName}`}>
+                {t('chat_stepReview_target', [String(proposed.index), proposed.elementText?.trim() ?? ''])}
+              </div>
+            )}
+            <textarea
+              value={draft.argsText}
+              onChange={e => updateDraft(i, { argsText: e.target.value })}
+              rows={3}
+              aria-label={t('chat_approval_args_a11y')}
+              className={`mt-1 resize-y p-2 ${fieldClassName}`}
+            />
+          </div>
+        );
+      })}
+      {error && <div className="mt-1 text-xs text-red-500">{error}</div>}
+      <div className="mt-2 flex gap-2">
+        <button
+          type="button"
+          onClick={handleContinue}
+          className={`${buttonClassName} bg-green-600 text-white hover:bg-green-700`}>
+          {t('chat_stepReview_continue')}
+        </button>
+        <button
+          type="button"
+          onClick={() => onDecision({ actions: [] })}
+          className={`${buttonClassName} ${
+            isDarkMode ? 'bg-slate-700 text-sky-300 hover:bg-slate-600' : 'bg-white text-sky-700 hover:bg-sky-100'
+          }`}>
+          {t('chat_stepReview_skip')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StepReviewCard;
@@ -0,0 +1,124 @@
+/* eslint-disable react/prop-types */
+import { useState, useEffect } from 'react';
+import { t } from '@extension/i18n';
+
+interface StructuredAnswerProps {
+  value: unknown;
+  isDarkMode?: boolean;
+}
+
+interface AnswerTable {
+  columns: string[];
+  rows: unknown[][];
+}
+
+// How long the copy button shows that the answer was copied
+const COPIED_FEEDBACK_MS = 1500;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses the final answer of a task with an answer schema, which is the JSON text of an object or an array
+ * @returns The parsed value, undefined for any other content
+ */
+export function parseStructuredAnswer(content: string): unknown {
+  const text = content.trim();
+  if (!(text.startsWith('{') && text.endsWith('}')) && !(text.startsWith('[') && text.endsWith(']'))) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Lists of objects are a row per object and a column per key, other lists a single column,
+// and a single object a row per key
+const toTable = (value: unknown): AnswerTable => {
+  if (Array.isArray(value)) {
+    if (value.every(isRecord)) {
+      const columns = [...new Set(value.flatMap(row => Object.keys(row)))];
+      return { columns, rows: value.map(row => columns.map(column => row[column])) };
+    }
+    return { columns: [''], rows: value.map(item => [item]) };
+  }
+  if (isRecord(value)) {
+    return { columns: ['', ''], rows: Object.entries(value) };
+  }
+  return { columns: [''], rows: [[value]] };
+};
+
+const formatCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const StructuredAnswer: React.FC<StructuredAnswerProps> = ({ value, isDarkMode = false }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(value, null, 2));
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy the answer:', error);
+    }
+  };
+
+  const { columns, rows } = toTable(value);
+  const hasHeader = columns.some(column => column);
+  const borderClassName = isDarkMode ? 'border-slate-600' : 'border-gray-300';
+
+  return (
+    <div className="whitespace-normal">
+      {rows.length > 0 ? (
+        <div className="max-h-96 overflow-auto">
+          <table className={`w-full border-collapse border text-xs ${borderClassName}`}>
+            {hasHeader && (
+              <thead className={isDarkMode ? 'bg-slate-700' : 'bg-gray-100'}>
+                <tr>
+                  {columns.map(column => (
+                    <th key={column} className={`border px-2 py-1 text-left font-semibold ${borderClassName}`}>
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+            )}
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i}>
+                  {row.map((cell, j) => (
+                    <td key={j} className={`break-words border px-2 py-1 align-top ${borderClassName}`}>
+                      {formatCell(cell)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>{t('chat_structuredAnswer_empty')}</div>
+      )}
+      <button
+        type="button"
+        onClick={handleCopy}
+        className={`mt-2 rounded px-2 py-1 text-xs font-medium ${
+          isDarkMode ? 'bg-slate-700 text-sky-300 hover:bg-slate-600' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'
+        }`}>
+        {copied ? t('chat_structuredAnswer_copied') : t('chat_structuredAnswer_copy')}
+      </button>
+    </div>
+  );
+};
+
+export default StructuredAnswer;
@@ -0,0 +1,181 @@
+/* eslint-disable react/prop-types */
+import { useState, useEffect, useCallback } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import {
+  MAX_QUEUE_CONCURRENCY,
+  type QueuedTask,
+  QueuedTaskStatus,
+  type TaskQueueState,
+  taskQueueStore,
+} from '@extension/storage';
+import { t } from '@extension/i18n';
+
+interface TaskQueueListProps {
+  onSessionSelect: (sessionId: string) => void;
+  isDarkMode?: boolean;
+}
+
+const STATUS_STYLES: Record<QueuedTaskStatus, { light: string; dark: string }> = {
+  [QueuedTaskStatus.PENDING]: { light: 'bg-gray-100 text-gray-600', dark: 'bg-slate-700 text-gray-300' },
+  [QueuedTaskStatus.RUNNING]: { light: 'bg-sky-100 text-sky-700', dark: 'bg-sky-900/50 text-sky-300' },
+  [QueuedTaskStatus.COMPLETED]: { light: 'bg-green-100 text-green-700', dark: 'bg-green-900/50 text-green-300' },
+  [QueuedTaskStatus.FAILED]: { light: 'bg-red-100 text-red-700', dark: 'bg-red-900/50 text-red-300' },
+  [QueuedTaskStatus.CANCELLED]: { light: 'bg-yellow-100 text-yellow-700', dark: 'bg-yellow-900/50 text-yellow-300' },
+};
+
+const STATUS_LABELS: Record<QueuedTaskStatus, string> = {
+  [QueuedTaskStatus.PENDING]: t('chat_queue_status_pending'),
+  [QueuedTaskStatus.RUNNING]: t('chat_queue_status_running'),
+  [QueuedTaskStatus.COMPLETED]: t('chat_queue_status_completed'),
+  [QueuedTaskStatus.FAILED]: t('chat_queue_status_failed'),
+  [QueuedTaskStatus.CANCELLED]: t('chat_queue_status_cancelled'),
+};
+
+const TaskQueueList: React.FC<TaskQueueListProps> = ({ onSessionSelect, isDarkMode = false }) => {
+  const [queue, setQueue] = useState<TaskQueueState | null>(null);
+  const [input, setInput] = useState('');
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueue(await taskQueueStore.getState());
+    } catch (error) {
+      console.error('Failed to load task queue:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+    const unsubscribe = taskQueueStore.subscribe(loadQueue);
+    return () => {
+      unsubscribe();
+    };
+  }, [loadQueue]);
+
+  const handleEnqueue = async () => {
+    const tasks = input.split('\n').filter(line => line.trim());
+    if (tasks.length === 0) return;
+    await taskQueueStore.enqueue(tasks);
+    setInput('');
+  };
+
+  const handleCancel = async (task: QueuedTask) => {
+    // The background picks up the status change and stops the executor if the task is running
+    await taskQueueStore.updateTask(task.id, { status: QueuedTaskStatus.CANCELLED, finishedAt: Date.now() });
+  };
+
+  const canCancel = (task: QueuedTask) =>
+    task.status === QueuedTaskStatus.PENDING || task.status === QueuedTaskStatus.RUNNING;
+
+  return (
+    <div className="h-full overflow-y-auto p-4">
+      <h2 className={`mb-4 text-lg font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+        {t('chat_queue_title')}
+      </h2>
+
+      <div className={`mb-4 rounded-lg ${isDarkMode ? 'bg-slate-800' : 'bg-white/50'} p-3 backdrop-blur-sm`}>
+        <textarea
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder={t('chat_queue_input_placeholder')}
+          rows={4}
+          className={`w-full resize-none rounded-md border p-2 text-sm ${
+            isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+          }`}
+        />
+        <div className="mt-2 flex items-center justify-between gap-2">
+          <label className={`flex items-center gap-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            {t('chat_queue_concurrency')}
+            <select
+              value={queue?.concurrency ?? 1}
+              onChange={e => taskQueueStore.setConcurrency(Number(e.target.value))}
+              className={`rounded border px-1 py-0.5 ${
+                isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+              }`}>
+              {Array.from({ length: MAX_QUEUE_CONCURRENCY }, (_, i) => i + 1).map(value => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => taskQueueStore.clearFinished()}
+              className={`rounded-md px-3 py-1 text-xs ${
+                isDarkMode
+                  ? 'bg-slate-700 text-gray-300 hover:bg-slate-600'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}>
+              {t('chat_queue_clearFinished')}
+            </button>
+            <button
+              type="button"
+              onClick={handleEnqueue}
+              disabled={!input.trim()}
+              className="rounded-md bg-blue-600 px-3 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50">
+              {t('chat_queue_add')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {!queue || queue.tasks.length === 0 ? (
+        <div
+          className={`rounded-lg ${isDarkMode ? 'bg-slate-800 text-gray-400' : 'bg-white/30 text-gray-500'} p-4 text-center backdrop-blur-sm`}>
+          {t('chat_queue_empty')}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {queue.tasks.map(task => (
+            <div
+              key={task.id}
+              className={`group relative rounded-lg ${
+                isDarkMode ? 'bg-slate-800 hover:bg-slate-700' : 'bg-white/50 hover:bg-white/70'
+              } p-3 backdrop-blur-sm transition-all`}>
+              <button
+                type="button"
+                onClick={() => task.sessionId && onSessionSelect(task.sessionId)}
+                disabled={!task.sessionId}
+                aria-label={t('chat_queue_open')}
+                className="w-full pr-6 text-left">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium uppercase ${
+                      isDarkMode ? STATUS_STYLES[task.status].dark : STATUS_STYLES[task.status].light
+                    }`}>
+                    {STATUS_LABELS[task.status]}
+                  </span>
+                  <h3 className={`truncate text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                    {task.task}
+                  </h3>
+                </div>
+                {task.result && (
+                  <p className={`mt-1 line-clamp-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {task.result}
+                  </p>
+                )}
+              </button>
+
+              {canCancel(task) && (
+                <button
+                  type="button"
+                  onClick={() => handleCancel(task)}
+                  className={`absolute right-2 top-2 rounded p-1 opacity-0 transition-opacity group-hover:opacity-100 ${
+                    isDarkMode
+                      ? 'bg-slate-700 text-gray-400 hover:bg-slate-600'
+                      : 'bg-white text-gray-500 hover:bg-gray-100'
+                  }`}
+                  aria-label={t('chat_queue_cancel')}>
+                  <FaTimes size={12} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskQueueList;
@@ -0,0 +1,114 @@
+/* eslint-disable react/prop-types */
+import { useState, useEffect, useCallback } from 'react';
+import {
+  type ChatTaskUsage,
+  type TokenUsageTotals,
+  chatHistoryStore,
+  groupTokenUsage,
+  summarizeTokenUsage,
+} from '@extension/storage';
+import { t } from '@extension/i18n';
+import { type UsageExportFormat, downloadUsage } from '../utils/reportExport';
+
+interface TaskUsageBarProps {
+  sessionId: string | null;
+  isDarkMode?: boolean;
+}
+
+const EXPORT_FORMATS: UsageExportFormat[] = ['json', 'csv'];
+
+const formatCost = (cost: number | null) => (cost === null ? t('chat_usage_noPrice') : `$${cost.toFixed(4)}`);
+
+const formatTotals = (totals: TokenUsageTotals) =>
+  [
+    t('chat_usage_tokens', [totals.inputTokens.toLocaleString(), totals.outputTokens.toLocaleString()]),
+    formatCost(totals.cost),
+    ...(totals.estimated ? [t('chat_usage_estimated')] : []),
+  ].join(' · ');
+
+const TaskUsageBar: React.FC<TaskUsageBarProps> = ({ sessionId, isDarkMode = false }) => {
+  const [usage, setUsage] = useState<ChatTaskUsage | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    if (!sessionId) {
+      setUsage(null);
+      return;
+    }
+    try {
+      setUsage(await chatHistoryStore.loadTaskUsage(sessionId));
+    } catch (error) {
+      console.error('Failed to load token usage:', error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadUsage();
+    if (!sessionId) {
+      return;
+    }
+    // The usage is written when the task ends, so keep listening while the session is open
+    const unsubscribe = chatHistoryStore.subscribeTaskUsage(sessionId, loadUsage);
+    return () => {
+      unsubscribe();
+    };
+  }, [sessionId, loadUsage]);
+
+  if (!usage) {
+    return null;
+  }
+
+  const mutedClassName = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const buttonClassName = `rounded px-2 py-0.5 text-xs font-medium uppercase ${
+    isDarkMode ? 'bg-slate-700 text-sky-300 hover:bg-slate-600' : 'bg-white text-sky-700 hover:bg-sky-100'
+  }`;
+  const byAgent = groupTokenUsage(usage.records, 'agent');
+  const byStep = groupTokenUsage(usage.records, 'step');
+
+  return (
+    <div
+      className={`mb-3 rounded-lg border px-3 py-2 text-xs ${
+        isDarkMode ? 'border-slate-700 bg-slate-800 text-gray-300' : 'border-sky-100 bg-sky-50 text-gray-700'
+      }`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">{t('chat_usage_title')}</span>
+        <span className={mutedClassName}>{formatTotals(summarizeTokenUsage(usage.records))}</span>
+        <div className="ml-auto flex gap-1">
+          <button type="button" onClick={() => setExpanded(!expanded)} className={buttonClassName}>
+            {expanded ? t('chat_usage_hideDetails') : t('chat_usage_details')}
+          </button>
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => downloadUsage(usage, format)}
+              aria-label={t('chat_usage_export_a11y', [format.toUpperCase()])}
+              className={buttonClassName}>
+              {format}
+            </button>
+          ))}
+        </div>
+      </div>
+      {expanded && (
+        <div className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+          <span className="col-span-2 font-semibold">{t('chat_usage_byAgent')}</span>
+          {Object.entries(byAgent).map(([agent, totals]) => (
+            <div key={agent} className="contents">
+              <span>{agent}</span>
+              <span className={mutedClassName}>{formatTotals(totals)}</span>
+            </div>
+          ))}
+          <span className="col-span-2 mt-1 font-semibold">{t('chat_usage_byStep')}</span>
+          {Object.entries(byStep).map(([step, totals]) => (
+            <div key={step} className="contents">
+              <span>{t('chat_usage_step', [String(Number(step) + 1)])}</span>
+              <span className={mutedClassName}>{formatTotals(totals)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskUsageBar;
@@ -29,17 +29,29 @@ export enum ExecutionState {
   TASK_PAUSE = 'task.pause',
   TASK_RESUME = 'task.resume',
   TASK_CANCEL = 'task.cancel',
+  TASK_BUDGET_EXCEEDED = 'task.budget_exceeded',
+  // Older steps of the task history were summarized into a progress memo
+  TASK_COMPACT = 'task.compact',
+  // Transcript of the actions planned by a dry run
+  TASK_PLAN = 'task.plan',
 
   // Step level states
   STEP_START = 'step.start',
   STEP_OK = 'step.ok',
   STEP_FAIL = 'step.fail',
   STEP_CANCEL = 'step.cancel',
+  // Partial output of the model while the response of the step is streamed
+  STEP_STREAM = 'step.stream',
+  // Actions of the step wait for the user's review, in debug mode
+  STEP_REVIEW = 'step.review',
 
   // Action/Tool level states
   ACT_START = 'act.start',
   ACT_OK = 'act.ok',
   ACT_FAIL = 'act.fail',
+  ACT_APPROVAL = 'act.approval',
+  // Action planned but not performed, in a dry run
+  ACT_DRY_RUN = 'act.dry_run',
 }
 
 export interface EventData {
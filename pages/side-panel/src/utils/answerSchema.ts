@@ -0,0 +1,50 @@
+import { answerSchemaStore } from '@extension/storage';
+import { t } from '@extension/i18n';
+
+export interface AnswerSchemaCommand {
+  schema: Record<string, unknown>;
+  task: string;
+}
+
+/**
+ * Splits an inline JSON object off the start of a text
+ * @returns The parsed object and the rest of the text, null when the text does not start with a JSON object
+ */
+function splitLeadingJson(text: string): [Record<string, unknown>, string] | null {
+  // The object ends at one of the closing braces, try them from the first one
+  for (let end = text.indexOf('}'); end !== -1; end = text.indexOf('}', end + 1)) {
+    try {
+      const value = JSON.parse(text.slice(0, end + 1));
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return [value, text.slice(end + 1)];
+      }
+    } catch {
+      // Not the end of the object yet
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the arguments of a /schema command: the name of a saved answer schema or an inline JSON schema,
+ * followed by the task
+ * @param args - The text after /schema
+ * @returns The schema and the task, the task is empty when it is missing
+ * @throws Error when no saved schema has the name or the inline schema is not JSON
+ */
+export async function parseAnswerSchemaCommand(args: string): Promise<AnswerSchemaCommand> {
+  if (args.startsWith('{')) {
+    const split = splitLeadingJson(args);
+    if (!split) {
+      throw new Error(t('chat_schema_invalidJson'));
+    }
+    return { schema: split[0], task: split[1].trim() };
+  }
+
+  const name = args.split(/\s+/)[0];
+  const saved = await answerSchemaStore.getSchemaByName(name);
+  if (!saved) {
+    throw new Error(t('chat_schema_notFound', [name]));
+  }
+  return { schema: saved.schema, task: args.slice(name.length).trim() };
+}
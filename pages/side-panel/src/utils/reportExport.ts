@@ -0,0 +1,245 @@
+import { type ChatTaskReport, type ChatTaskUsage, type ReportTable, ReportItemStatus } from '@extension/storage';
+
+export type ReportExportFormat = 'json' | 'csv' | 'html';
+export type UsageExportFormat = Exclude<ReportExportFormat, 'html'>;
+
+const CSV_HEADERS = [
+  'Section',
+  'Source',
+  'Subject',
+  'Item',
+  'Optional',
+  'Status',
+  'Evidence',
+  'Evidence URL',
+  'Timestamp',
+];
+
+const USAGE_CSV_HEADERS = [
+  'Step',
+  'Agent',
+  'Model',
+  'Input tokens',
+  'Output tokens',
+  'Cost (USD)',
+  'Timestamp',
+  'Estimated',
+];
+
+const MIME_TYPES: Record<ReportExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  html: 'text/html',
+};
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toISOString();
+
+const escapeCsvValue = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Serializes a task report as pretty-printed JSON
+ * @param report The task report
+ * @returns The JSON document
+ */
+export function reportToJson(report: ChatTaskReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Serializes a task report as CSV with one row per checklist item
+ * @param report The task report
+ * @returns The CSV document
+ */
+export function reportToCsv(report: ChatTaskReport): string {
+  const rows = report.sections.flatMap(section =>
+    section.items.map(item => [
+      section.title,
+      section.source,
+      item.subject ?? '',
+      item.name,
+      item.optional ? 'yes' : 'no',
+      item.status,
+      item.evidence ?? '',
+      item.evidenceUrl ?? '',
+      formatTimestamp(item.timestamp),
+    ]),
+  );
+  return [CSV_HEADERS, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Serializes a table read from a page as CSV, with the headers as the first row
+ * @param table The table
+ * @returns The CSV document
+ */
+export function tableToCsv(table: ReportTable): string {
+  return [table.columns, ...table.rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Renders a task report as a standalone HTML document that prints cleanly, e.g. to PDF
+ * @param report The task report
+ * @returns The HTML document
+ */
+export function reportToHtml(report: ChatTaskReport): string {
+  const items = report.sections.flatMap(section => section.items);
+  const found = items.filter(item => item.status === ReportItemStatus.FOUND).length;
+
+  const sections = report.sections
+    .map(section => {
+      const showSubject = section.items.some(item => item.subject);
+      const rows = section.items
+        .map(item => {
+          const evidence = item.evidenceUrl
+            ? `<a href="${escapeHtml(item.evidenceUrl)}">${escapeHtml(item.evidence || item.evidenceUrl)}</a>`
+            : escapeHtml(item.evidence ?? '');
+          return `<tr>
+${showSubject ? `<td>${escapeHtml(item.subject ?? '')}</td>` : ''}
+<td>${escapeHtml(item.name)}${item.optional ? ' <span class="meta">(optional)</span>' : ''}</td>
+<td class="status ${item.status}">${item.status === ReportItemStatus.FOUND ? 'Found' : 'Missing'}</td>
+<td>${evidence}</td>
+<td>${escapeHtml(formatTimestamp(item.timestamp))}</td>
+</tr>`;
+        })
+        .join('\n');
+
+      return `<section>
+<h2>${escapeHtml(section.title)}</h2>
+<p class="meta">${escapeHtml(section.source)}${section.url ? ` &middot; ${escapeHtml(section.url)}` : ''}</p>
+<table>
+<thead><tr>${showSubject ? '<th>Subject</th>' : ''}<th>Item</th><th>Status</th><th>Evidence</th><th>Checked at</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</section>`;
+    })
+    .join('\n');
+
+  const tables = (report.tables ?? [])
+    .map(
+      table => `<section>
+<h2>${escapeHtml(table.title)}</h2>
+<p class="meta">${escapeHtml(table.source)}${table.url ? ` &middot; ${escapeHtml(table.url)}` : ''} &middot; ${table.rows.length} rows${table.complete ? '' : ' (incomplete)'}</p>
+<table>
+<thead><tr>${table.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>
+<tbody>
+${table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>
+</section>`,
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Task report</title>
+<style>
+body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; color: #111; margin: 24px; }
+h1 { font-size: 20px; margin-bottom: 4px; }
+h2 { font-size: 16px; margin: 24px 0 4px; }
+.meta { color: #555; font-size: 12px; margin: 0 0 8px; word-break: break-all; }
+table { width: 100%; border-collapse: collapse; font-size: 13px; }
+th, td { border: 1px solid #999; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #eee; }
+.status.found { color: #166534; font-weight: bold; }
+.status.missing { color: #b91c1c; font-weight: bold; }
+section, tr { break-inside: avoid; }
+@media print {
+  body { margin: 0; }
+  a { color: inherit; text-decoration: none; }
+}
+</style>
+</head>
+<body>
+<h1>Task report</h1>
+<p class="meta">${escapeHtml(report.task)}</p>
+<p class="meta">Generated ${escapeHtml(formatTimestamp(report.timestamp))} &middot; ${found}/${items.length} items found</p>
+${sections}
+${tables}
+</body>
+</html>`;
+}
+
+/**
+ * Serializes the token usage of a task as CSV with one row per model call
+ * @param usage The token usage of the task
+ * @returns The CSV document
+ */
+export function usageToCsv(usage: ChatTaskUsage): string {
+  const rows = usage.records.map(record => [
+    String(record.step + 1),
+    record.agent,
+    record.model,
+    String(record.inputTokens),
+    String(record.outputTokens),
+    record.cost === null ? '' : record.cost.toFixed(6),
+    formatTimestamp(record.timestamp),
+    record.estimated ? 'yes' : '',
+  ]);
+  return [USAGE_CSV_HEADERS, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+const downloadFile = (content: string, format: ReportExportFormat, name: string, timestamp: number) => {
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}-${new Date(timestamp).toISOString().replace(/[:.]/g, '-')}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads a task report in the given format
+ * @param report The task report
+ * @param format The export format
+ */
+export function downloadReport(report: ChatTaskReport, format: ReportExportFormat): void {
+  const content =
+    format === 'json' ? reportToJson(report) : format === 'csv' ? reportToCsv(report) : reportToHtml(report);
+  downloadFile(content, format, 'task-report', report.timestamp);
+}
+
+/**
+ * Downloads a table of a task report as CSV
+ * @param table The table
+ */
+export function downloadReportTable(table: ReportTable): void {
+  const name = table.title.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'table';
+  downloadFile(tableToCsv(table), 'csv', name.toLowerCase(), table.createdAt);
+}
+
+/**
+ * Downloads the token usage of a task in the given format
+ * @param usage The token usage of the task
+ * @param format The export format
+ */
+export function downloadUsage(usage: ChatTaskUsage, format: UsageExportFormat): void {
+  const content = format === 'json' ? JSON.stringify(usage, null, 2) : usageToCsv(usage);
+  downloadFile(content, format, 'task-usage', usage.timestamp);
+}
+
+/**
+ * Opens the HTML rendering of a task report in a new window and starts printing
+ * @param report The task report
+ */
+export function printReport(report: ChatTaskReport): void {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    return;
+  }
+  printWindow.document.write(reportToHtml(report));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}